@@ -0,0 +1,204 @@
+import { StacksNetwork } from '@stacks/network';
+import { AccountInfo } from '../types/index';
+import { StacksUtils } from '../utils/index';
+import { Signer, LocalSigner } from '../signers/index';
+
+export const DEFAULT_ACCOUNT = 'default';
+
+const REDACTED = '[REDACTED]';
+
+// Property names whose values are always treated as secrets
+const SECRET_FIELD = /private.?key|secret|mnemonic|seed|passphrase|password/i;
+
+interface AccountEntry {
+  signer: Signer;
+  address: string;
+  publicKey: string;
+}
+
+interface HDWalletEntry {
+  mnemonic: string;
+  passphrase?: string;
+}
+
+// Accounts derived from an HD wallet are named "<wallet>/<index>"
+export function hdAccountName(wallet: string, index: number): string {
+  return `${wallet}/${index}`;
+}
+
+// Named signing accounts held by the agent. Tools refer to accounts by name,
+// so private keys stay inside the process (or behind a remote signer) and
+// never reach the model.
+export class AccountManager {
+  private network: StacksNetwork;
+  private accounts = new Map<string, AccountEntry>();
+  private secrets = new Map<string, string>(); // raw keys of local accounts, scrubbed by redact()
+  private wallets = new Map<string, HDWalletEntry>();
+
+  constructor(network: StacksNetwork) {
+    this.network = network;
+  }
+
+  // Add an account backed by an in-memory key
+  add(name: string, privateKey: string): AccountInfo {
+    this.assertAvailable(name);
+    const keyInfo = StacksUtils.resolveSigner(privateKey, this.network);
+
+    this.accounts.set(name, {
+      signer: new LocalSigner(privateKey, this.network),
+      address: keyInfo.address,
+      publicKey: keyInfo.publicKey,
+    });
+    this.secrets.set(name, privateKey);
+    return this.describe(name)!;
+  }
+
+  // Add an account backed by any signer, e.g. a keystore or remote signer
+  async addSigner(name: string, signer: Signer): Promise<AccountInfo> {
+    this.assertAvailable(name);
+    const [address, publicKey] = await Promise.all([signer.getAddress(), signer.getPublicKey()]);
+
+    // Checked again in case the name was taken while the signer was queried
+    this.assertAvailable(name);
+    this.accounts.set(name, { signer, address, publicKey });
+    return this.describe(name)!;
+  }
+
+  // Create an account from a freshly generated key
+  generate(name: string): AccountInfo {
+    return this.add(name, StacksUtils.generatePrivateKey());
+  }
+
+  remove(name: string): boolean {
+    this.secrets.delete(name);
+    return this.accounts.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.accounts.has(name);
+  }
+
+  // Public details only; safe to hand to the model
+  describe(name: string): AccountInfo | undefined {
+    const account = this.accounts.get(name);
+    if (!account) {
+      return undefined;
+    }
+    return {
+      name,
+      address: account.address,
+      publicKey: account.publicKey,
+      network: StacksUtils.getNetworkName(this.network),
+    };
+  }
+
+  list(): AccountInfo[] {
+    return Array.from(this.accounts.keys()).map((name) => this.describe(name)!);
+  }
+
+  // Register an HD wallet seed. Accounts derived from it are added with add().
+  addWallet(name: string, mnemonic: string, passphrase?: string): void {
+    if (!name || name.includes('/')) {
+      throw new Error('Wallet name is required and must not contain "/"');
+    }
+    if (this.wallets.has(name)) {
+      throw new Error(`Wallet '${name}' already exists`);
+    }
+    this.wallets.set(name, { mnemonic: mnemonic.trim().toLowerCase().split(/\s+/).join(' '), passphrase });
+  }
+
+  getWallet(name: string): HDWalletEntry {
+    const wallet = this.wallets.get(name);
+    if (!wallet) {
+      const available = Array.from(this.wallets.keys());
+      throw new Error(
+        available.length
+          ? `Unknown wallet '${name}'. Available wallets: ${available.join(', ')}`
+          : 'No HD wallet configured. Create or import a mnemonic first.'
+      );
+    }
+    return wallet;
+  }
+
+  hasWallet(name: string): boolean {
+    return this.wallets.has(name);
+  }
+
+  // Forget a wallet together with every account derived from it
+  removeWallet(name: string): boolean {
+    this.walletAccountNames(name).forEach((account) => this.remove(account));
+    return this.wallets.delete(name);
+  }
+
+  listWallets(): string[] {
+    return Array.from(this.wallets.keys());
+  }
+
+  // First index after the highest account derived so far
+  nextWalletIndex(name: string): number {
+    const indices = this.walletAccountNames(name).map((account) => Number(account.slice(name.length + 1)));
+    return indices.length ? Math.max(...indices) + 1 : 0;
+  }
+
+  // Look up the signer for an account
+  resolve(name: string = DEFAULT_ACCOUNT): Signer {
+    const account = this.accounts.get(name);
+    if (!account) {
+      const available = Array.from(this.accounts.keys());
+      throw new Error(
+        available.length
+          ? `Unknown account '${name}'. Available accounts: ${available.join(', ')}`
+          : 'No signing account configured. Initialize a private key in the agent config or add an account.'
+      );
+    }
+    return account.signer;
+  }
+
+  // Deep-copy a value with every secret removed: secret-looking fields are
+  // masked and any held private key is scrubbed out of strings
+  redact<T>(value: T): T {
+    const keys = [
+      ...Array.from(this.secrets.values()).flatMap((privateKey) => [privateKey, privateKey.slice(0, 64)]),
+      ...Array.from(this.wallets.values()).map((wallet) => wallet.mnemonic),
+    ];
+
+    const visit = (item: any): any => {
+      if (typeof item === 'string') {
+        return keys.reduce(
+          (text, key) => (text.includes(key) ? text.split(key).join(REDACTED) : text),
+          item
+        );
+      }
+      if (Array.isArray(item)) {
+        return item.map(visit);
+      }
+      if (item && typeof item === 'object' && item.constructor === Object) {
+        return Object.fromEntries(
+          Object.entries(item).map(([field, fieldValue]) => [
+            field,
+            SECRET_FIELD.test(field) && fieldValue !== undefined ? REDACTED : visit(fieldValue),
+          ])
+        );
+      }
+      return item;
+    };
+
+    return visit(value);
+  }
+
+  private walletAccountNames(wallet: string): string[] {
+    const prefix = `${wallet}/`;
+    return Array.from(this.accounts.keys()).filter(
+      (account) => account.startsWith(prefix) && /^\d+$/.test(account.slice(prefix.length))
+    );
+  }
+
+  private assertAvailable(name: string): void {
+    if (!name) {
+      throw new Error('Account name is required');
+    }
+    if (this.accounts.has(name)) {
+      throw new Error(`Account '${name}' already exists`);
+    }
+  }
+}
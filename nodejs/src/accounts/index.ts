@@ -0,0 +1,2 @@
+// Account exports
+export { AccountManager, DEFAULT_ACCOUNT, hdAccountName } from './account-manager';
@@ -1,12 +1,22 @@
 //@ts-nocheck
 
-import { StateGraph, END, START } from "@langchain/langgraph";
-import { ChatOpenAI } from "@langchain/openai";
+import { randomUUID } from "crypto";
+import { homedir } from "os";
+import { join } from "path";
+import {
+  StateGraph,
+  END,
+  START,
+  Command,
+  MemorySaver,
+  interrupt,
+} from "@langchain/langgraph";
 import {
   HumanMessage,
   AIMessage,
   SystemMessage,
   ToolMessage,
+  isAIMessage,
 } from "@langchain/core/messages";
 import {
   StacksNetwork,
@@ -14,40 +24,98 @@ import {
   STACKS_MAINNET,
   createNetwork,
 } from "@stacks/network";
-import { AgentConfig, ToolResult, PrivateKeyInfo } from "../types/index";
+import {
+  AgentConfig,
+  ToolResult,
+  PrivateKeyInfo,
+  AccountInfo,
+  KeystoreAccount,
+} from "../types/index";
 import { StacksUtils } from "../utils/index";
+import { LLMProvider, createLLMProvider, messageText } from "../llm/index";
+import { AgentTool, ToolRegistry, ActionSummary } from "../registry/index";
+import { AccountManager, DEFAULT_ACCOUNT } from "../accounts/index";
+import { Signer } from "../signers/index";
+import { Keystore, FileKeystoreStorage } from "../keystore/index";
+
+const DEFAULT_KEYSTORE_PATH = join(homedir(), ".stacks-agent-kit", "keystore");
+
+// A state-changing tool call waiting for human approval
+export interface PendingToolAction extends ActionSummary {
+  tool: string;
+  toolCallId: string;
+}
+
+export interface PendingAction {
+  id: string;
+  actions: PendingToolAction[];
+  summary: string; // human-readable text shown to the user
+}
+
+export interface ConfirmationDecision {
+  approve: boolean;
+  reason?: string;
+}
 
 // Extended state interface for conversational agent
 export interface ConversationalState {
   messages: (HumanMessage | AIMessage | SystemMessage | ToolMessage)[];
   currentTool?: string;
   toolResults?: any;
+  iterations?: number;
+  pendingAction?: PendingAction | null;
+  confirmation?: ConfirmationDecision | null;
+  threadId?: string; // set while the graph is paused on a pending action
   userAddress?: string;
   context?: Record<string, any>;
 }
 
+export interface ChatResult {
+  response: string;
+  state: ConversationalState;
+  pendingAction?: PendingAction;
+}
+
 export interface ConversationalConfig extends AgentConfig {
   enableConversational?: boolean;
   conversationalModel?: string;
   systemPrompt?: string;
   personalityPrompt?: string;
+  maxToolIterations?: number;
+  requireConfirmation?: boolean;
 }
 
 export abstract class StacksAgent {
   public network: StacksNetwork;
   protected config: ConversationalConfig;
   protected initializedKey?: PrivateKeyInfo;
-  protected aiClient?: any;
-  protected llm?: ChatOpenAI;
+  protected accounts: AccountManager;
+  protected keystore?: Keystore;
+  private keystoreAccounts = new Set<string>(); // agent accounts unlocked from the keystore
+  protected llm?: LLMProvider;
+  private toolRegistry?: ToolRegistry;
   protected systemPrompt: string;
   protected personalityPrompt?: string;
   protected conversationalEnabled?: boolean;
+  protected maxToolIterations: number;
+  protected requireConfirmation: boolean;
+  private checkpointer = new MemorySaver();
+  private conversationalGraph?: any;
   protected gameMode: "blockchain" | "amongus" = "blockchain";
 
   constructor(config: ConversationalConfig) {
     this.config = config;
     this.network = this.createNetwork(config.network);
+    this.accounts = new AccountManager(this.network);
+    if (config.keystore) {
+      this.keystore = new Keystore(
+        config.keystore.storage ?? new FileKeystoreStorage(config.keystore.path ?? DEFAULT_KEYSTORE_PATH),
+        this.network
+      );
+    }
     this.conversationalEnabled = config.enableConversational ?? true;
+    this.maxToolIterations = config.maxToolIterations ?? 5;
+    this.requireConfirmation = config.requireConfirmation ?? true;
 
     this.personalityPrompt = config.personalityPrompt;
 
@@ -66,15 +134,40 @@ export abstract class StacksAgent {
     if (config.privateKey) {
       this.initializePrivateKey(config.privateKey);
     }
+
+    Object.entries(config.accounts || {}).forEach(([name, privateKey]) => {
+      try {
+        this.accounts.add(name, privateKey);
+      } catch (error) {
+        console.warn(`Failed to add account '${name}': ${error instanceof Error ? error.message : error}`);
+      }
+    });
   }
 
   async init(): Promise<void> {
-    // Initialize AI client if API keys are provided
-    await this.initializeAIClient();
+    // Initialize the LLM provider used for tool matching and conversation
+    this.initializeLLMProvider();
 
-    // Initialize conversational LLM if enabled and OpenAI key is available
-    if (this.conversationalEnabled && this.config.openAiApiKey) {
-      this.initializeConversationalLLM();
+    // Signer-backed accounts need an async lookup of their address
+    for (const [name, signer] of Object.entries(this.config.signers || {})) {
+      if (this.accounts.has(name)) {
+        continue;
+      }
+      try {
+        await this.accounts.addSigner(name, signer);
+      } catch (error) {
+        console.warn(`Failed to add account '${name}': ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // The signing account can come from the keystore instead of a raw key
+    const keystoreAccount = this.config.keystore?.account;
+    if (keystoreAccount) {
+      if (this.accounts.has(DEFAULT_ACCOUNT)) {
+        throw new Error("Configure either privateKey or keystore.account for the default account, not both");
+      }
+      const signer = await this.getKeystore().unlock(keystoreAccount, this.keystorePassword());
+      await this.accounts.addSigner(DEFAULT_ACCOUNT, signer);
     }
   }
 
@@ -141,18 +234,32 @@ export abstract class StacksAgent {
     }
   }
 
-  private initializeConversationalLLM(): void {
-    if (!this.config.openAiApiKey) {
-      console.warn("OpenAI API key required for conversational features");
-      return;
-    }
+  // Resolve the LLM provider from config.llm, falling back to the legacy
+  // openAiApiKey / anthropicApiKey fields
+  private initializeLLMProvider(): void {
+    const { llm } = this.config;
 
-    this.llm = new ChatOpenAI({
-      openAIApiKey: this.config.openAiApiKey,
-      modelName:
-        this.config.conversationalModel || this.config.model || "gpt-4",
-      temperature: 0.1,
-    });
+    try {
+      if (llm && "chat" in llm) {
+        this.llm = llm;
+      } else if (llm) {
+        this.llm = createLLMProvider(llm);
+      } else if (this.config.openAiApiKey) {
+        this.llm = createLLMProvider({
+          type: "openai",
+          apiKey: this.config.openAiApiKey,
+          model: this.config.conversationalModel || this.config.model,
+        });
+      } else if (this.config.anthropicApiKey) {
+        this.llm = createLLMProvider({
+          type: "anthropic",
+          apiKey: this.config.anthropicApiKey,
+          model: this.config.conversationalModel || this.config.model,
+        });
+      }
+    } catch (error) {
+      console.warn(`Failed to initialize LLM provider: ${error}`);
+    }
   }
 
   private getDefaultSystemPrompt(): string {
@@ -201,7 +308,11 @@ export abstract class StacksAgent {
     return graph;
   }
 
-  // Create the conversational graph
+  // Create the conversational graph. The model is bound to the tool schemas
+  // from getTools() and loops agent -> tools -> agent until it answers without
+  // requesting another tool call (or the iteration limit is reached).
+  // State-changing tool calls detour through review -> confirm, where the
+  // graph is interrupted until the caller approves or rejects the action.
   private createConversationalGraph() {
     const graph = new StateGraph<ConversationalState>({
       channels: {
@@ -217,6 +328,19 @@ export abstract class StacksAgent {
           value: (x: any, y: any) => y ?? x,
           default: () => undefined,
         },
+        iterations: {
+          value: (x: number, y: number) => y ?? x,
+          default: () => 0,
+        },
+        // null clears these, so they use an explicit undefined check
+        pendingAction: {
+          value: (x: any, y: any) => (y === undefined ? x : y),
+          default: () => null,
+        },
+        confirmation: {
+          value: (x: any, y: any) => (y === undefined ? x : y),
+          default: () => null,
+        },
         userAddress: {
           value: (x: any, y: any) => y ?? x,
           default: () => undefined,
@@ -229,252 +353,223 @@ export abstract class StacksAgent {
     } as any);
 
     // Add nodes
-    graph.addNode("analyze_message", this.analyzeMessage.bind(this));
-    graph.addNode("execute_tool", this.executeToolNode.bind(this));
-    graph.addNode("respond", this.respond.bind(this));
+    graph.addNode("agent", this.callModel.bind(this));
+    graph.addNode("review", this.reviewToolCalls.bind(this));
+    graph.addNode("confirm", this.awaitConfirmation.bind(this));
+    graph.addNode("tools", this.executeToolCalls.bind(this));
 
     // Add edges
-    graph.addEdge(START, "analyze_message");
-    graph.addConditionalEdges(
-      "analyze_message",
-      this.shouldUseTool.bind(this),
-      {
-        tool: "execute_tool",
-        respond: "respond",
-      }
-    );
-    graph.addEdge("execute_tool", "respond");
-    graph.addEdge("respond", END);
+    graph.addEdge(START, "agent");
+    graph.addConditionalEdges("agent", this.shouldCallTools.bind(this), {
+      review: "review",
+      tools: "tools",
+      end: END,
+    });
+    graph.addEdge("review", "confirm");
+    graph.addEdge("confirm", "tools");
+    graph.addEdge("tools", "agent");
+
+    // The checkpointer keeps interrupted runs alive between chat calls
+    return graph.compile({ checkpointer: this.checkpointer });
+  }
+
+  private getConversationalGraph() {
+    if (!this.conversationalGraph) {
+      this.conversationalGraph = this.createConversationalGraph();
+    }
+    return this.conversationalGraph;
+  }
 
-    return graph.compile();
+  // Convert getTools() into the function-calling schema the model expects
+  private getToolDefinitions() {
+    return this.getTools().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
   }
 
-  // Analyze the user's message and determine intent
-  private async analyzeMessage(
+  // Ask the model for the next step: either tool calls or the final answer
+  private async callModel(
     state: ConversationalState
   ): Promise<Partial<ConversationalState>> {
     if (!this.llm) {
       throw new Error("Conversational LLM not initialized");
     }
 
-    // In Among Us mode, skip tool analysis and go straight to response
-    if (this.gameMode === "amongus") {
-      return {
-        context: {
-          ...state.context,
-          analysis: { needsTool: false, intent: "game_response" },
-        },
-      };
-    }
-
-    // ... existing blockchain analysis logic ...
     const messages = [
       new SystemMessage(this.getCompleteSystemPrompt()),
       ...state.messages,
     ];
 
-    const analysisPrompt = `Analyze the user's message and determine:
-1. What tool (if any) should be used?
-2. What parameters are needed?
-3. Is there missing information?
-
-Available tools: ${this.getTools()
-      .map((tool) => `${tool.name}: ${tool.description}`)
-      .join(", ")}
-
-Respond with a JSON object containing:
-{
-  "needsTool": boolean,
-  "toolName": string or null,
-  "parameters": object or null,
-  "missingInfo": string[] or null,
-  "intent": string
-}
-  
-NOTE: If user is asking about amongus game, no need to use any tool. Just respond to their message and play the amongus game
-You are playing Among Us, a social deduction game. You are an AI agent with a specific personality.
-
-Your goal depends on your role:
-- If you're a CREWMATE: Find and vote out the impostor(s) while completing tasks
-- If you're an IMPOSTOR: Blend in, avoid suspicion, and eliminate crewmates without being caught
-
-Game Rules:
-- During discussion phases, share observations and suspicions
-- Vote strategically based on behavior and evidence  
-- Stay in character with your personality
-- Respond naturally to accusations and defend yourself when needed
-- Make observations about other players' behavior
-- Use deductive reasoning and social interaction
-`;
-
-    const lastMessage = state.messages[state.messages.length - 1];
-    if (lastMessage instanceof HumanMessage) {
-      const analysisMessage = new HumanMessage(
-        `${analysisPrompt}\n\nUser message: "${lastMessage.content}"`
-      );
+    try {
+      // In Among Us mode there are no tools, just respond in character
+      if (this.gameMode === "amongus") {
+        const response = await this.llm.chat(messages);
+        return { messages: [new AIMessage(messageText(response))] };
+      }
 
-      try {
-        const response = await this.llm.invoke([...messages, analysisMessage]);
-        const analysis = JSON.parse(response.content as string);
+      // Once the iteration budget is spent, force the model to answer with
+      // what it has gathered so far
+      const limitReached = (state.iterations ?? 0) >= this.maxToolIterations;
+      const response = await this.llm.chat(messages, {
+        tools: this.getToolDefinitions(),
+        toolChoice: limitReached ? "none" : "auto",
+      });
 
-        return {
-          currentTool: analysis.needsTool ? analysis.toolName : undefined,
-          context: {
-            ...state.context,
-            analysis,
-            parameters: analysis.parameters,
-          },
-        };
-      } catch (error) {
-        console.error("Error analyzing message:", error);
-        return {
-          context: {
-            ...state.context,
-            analysis: { needsTool: false, intent: "unclear" },
-          },
-        };
-      }
+      return { messages: [response] };
+    } catch (error) {
+      console.error("Error calling model:", error);
+      return {
+        messages: [
+          new AIMessage(
+            "Sorry, I encountered an error while processing your request. Please try again."
+          ),
+        ],
+      };
     }
-
-    return {};
   }
 
-  // Determine if we should use a tool
-  private shouldUseTool(state: ConversationalState): string {
-    const analysis = state.context?.analysis;
+  // Continue to the tools node while the model keeps requesting tool calls
+  private shouldCallTools(state: ConversationalState): string {
+    const lastMessage = state.messages[state.messages.length - 1];
     if (
-      analysis?.needsTool &&
-      analysis.toolName &&
-      !analysis.missingInfo?.length
+      isAIMessage(lastMessage) &&
+      lastMessage.tool_calls?.length &&
+      (state.iterations ?? 0) < this.maxToolIterations
     ) {
-      return "tool";
+      return this.getStateChangingCalls(lastMessage).length > 0
+        ? "review"
+        : "tools";
     }
-    return "respond";
+    return "end";
   }
 
-  // Execute the appropriate tool
-  private async executeToolNode(
-    state: ConversationalState
-  ): Promise<Partial<ConversationalState>> {
-    const toolName = state.currentTool;
-    const parameters = state.context?.analysis?.parameters;
-
-    if (!toolName || !parameters) {
-      return {
-        toolResults: { error: "No tool or parameters specified" },
-      };
+  private getStateChangingCalls(message: AIMessage) {
+    if (!this.requireConfirmation) {
+      return [];
     }
 
-    try {
-      // Find the tool and execute it
-      const tools = this.getTools();
-      const tool = tools.find((t) => t.name === toolName);
-
-      if (!tool) {
-        return {
-          toolResults: { success: false, error: `Unknown tool: ${toolName}` },
-        };
-      }
-
-      // Execute the tool function with parameters
-      const result = await this.executeTool(
-        () => tool.execute(parameters),
-        toolName
-      );
-
-      return {
-        toolResults: result,
-        context: {
-          ...state.context,
-          lastToolUsed: toolName,
-          lastToolParams: parameters,
-        },
-      };
-    } catch (error) {
-      return {
-        toolResults: {
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        },
-      };
-    }
+    const registry = this.getToolRegistry();
+    return (message.tool_calls || []).filter(
+      (toolCall) => registry.get(toolCall.name)?.stateChanging
+    );
   }
 
-  // Generate response to user
-  private async respond(
+  // Summarise the state-changing calls so a human can review them. Kept
+  // separate from the interrupt so fee estimates are not redone on resume.
+  private async reviewToolCalls(
     state: ConversationalState
   ): Promise<Partial<ConversationalState>> {
-    if (!this.llm) {
-      throw new Error("Conversational LLM not initialized");
-    }
-
-    const analysis = state.context?.analysis;
-    const toolResults = state.toolResults;
-
-    let responsePrompt = `Based on the user's message and any tool results, provide a helpful response.
-Keep it conversational and clear. If there were errors, explain them helpfully.
-If information is missing, ask for it politely.
-
-
-If user asks about amongus game: 
-
-You are playing Among Us, a social deduction game. You are an AI agent with a specific personality.
-
-Your goal depends on your role:
-- If you're a CREWMATE: Find and vote out the impostor(s) while completing tasks
-- If you're an IMPOSTOR: Blend in, avoid suspicion, and eliminate crewmates without being caught
-
-Game Rules:
-- During discussion phases, share observations and suspicions
-- Vote strategically based on behavior and evidence  
-- Stay in character with your personality
-- Respond naturally to accusations and defend yourself when needed
-- Make observations about other players' behavior
-- Use deductive reasoning and social interaction
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const registry = this.getToolRegistry();
 
+    const actions: PendingToolAction[] = [];
+    for (const toolCall of this.getStateChangingCalls(lastMessage)) {
+      const summary = await registry.get(toolCall.name)!.summarize(toolCall.args);
+      actions.push({ ...summary, tool: toolCall.name, toolCallId: toolCall.id });
+    }
 
+    return {
+      pendingAction: {
+        id: randomUUID(),
+        actions,
+        summary: this.formatPendingAction(actions),
+      },
+      confirmation: null,
+    };
+  }
 
-`;
+  // Pause the graph until continueChat() resumes it with a decision
+  private async awaitConfirmation(
+    state: ConversationalState
+  ): Promise<Partial<ConversationalState>> {
+    const decision = interrupt(state.pendingAction) as ConfirmationDecision;
+    return { confirmation: decision };
+  }
 
-    if (analysis?.missingInfo?.length) {
-      responsePrompt += `\n\nMissing information needed: ${analysis.missingInfo.join(
-        ", "
-      )}`;
-    }
+  private formatPendingAction(actions: PendingToolAction[]): string {
+    const lines = ["The following action requires your approval:"];
 
-    if (toolResults) {
-      responsePrompt += `\n\nTool results: ${JSON.stringify(
-        toolResults,
-        null,
-        2
-      )}`;
-    }
+    actions.forEach((action, index) => {
+      lines.push(`${index + 1}. ${action.description}`);
+      if (action.amount) lines.push(`   Amount: ${action.amount}`);
+      if (action.recipient) lines.push(`   Recipient: ${action.recipient}`);
+      if (action.fee) lines.push(`   Fee: ${action.fee}`);
+      if (action.postConditions?.length) {
+        lines.push(`   Post-conditions: ${action.postConditions.join("; ")}`);
+      }
+    });
 
-    const messages = [
-      new SystemMessage(this.getCompleteSystemPrompt()),
-      ...state.messages,
-      new HumanMessage(responsePrompt),
-    ];
+    lines.push("Reply to approve or reject.");
+    return lines.join("\n");
+  }
 
-    try {
-      const response = await this.llm.invoke(messages);
-      const aiMessage = new AIMessage(response.content as string);
+  // Execute every tool call from the last model message and record the
+  // results as ToolMessages so the model can see them on the next turn
+  private async executeToolCalls(
+    state: ConversationalState
+  ): Promise<Partial<ConversationalState>> {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMessage.tool_calls || [];
+    const registry = this.getToolRegistry();
+
+    const toolMessages: ToolMessage[] = [];
+    const toolResults: ToolResult[] = [];
+
+    const approved = state.confirmation?.approve === true;
+
+    for (const toolCall of toolCalls) {
+      let result: ToolResult;
+      if (!registry.has(toolCall.name)) {
+        result = { success: false, error: `Unknown tool: ${toolCall.name}` };
+      } else if (
+        this.requireConfirmation &&
+        registry.get(toolCall.name)!.stateChanging &&
+        !approved
+      ) {
+        const reason = state.confirmation?.reason;
+        result = {
+          success: false,
+          error: `The user rejected this action${reason ? `: ${reason}` : ""}. Nothing was signed or broadcast.`,
+        };
+      } else {
+        // Run exactly what was approved
+        const reviewed = state.pendingAction?.actions.find(
+          (action) => action.toolCallId === toolCall.id
+        );
+        const args = reviewed?.params ?? toolCall.args;
+        const execution = await this.executeTool(
+          () => registry.execute(toolCall.name, args),
+          toolCall.name
+        );
+        // Tools already return a ToolResult, so unwrap the executeTool envelope
+        result = execution.success ? execution.data : execution;
+      }
 
-      return {
-        messages: [aiMessage],
-        currentTool: undefined,
-        toolResults: undefined,
-      };
-    } catch (error) {
-      const errorMessage = new AIMessage(
-        "Sorry, I encountered an error while processing your request. Please try again."
+      // Results go into the prompt and the returned state, so strip secrets
+      result = this.accounts.redact(result);
+
+      toolResults.push(result);
+      toolMessages.push(
+        new ToolMessage({
+          content: JSON.stringify(result, (_key, value) =>
+            typeof value === "bigint" ? value.toString() : value
+          ),
+          tool_call_id: toolCall.id,
+          name: toolCall.name,
+        })
       );
-      return {
-        messages: [errorMessage],
-        currentTool: undefined,
-        toolResults: undefined,
-      };
     }
+
+    return {
+      messages: toolMessages,
+      currentTool: toolCalls[toolCalls.length - 1]?.name,
+      toolResults,
+      iterations: (state.iterations ?? 0) + 1,
+      pendingAction: null,
+      confirmation: null,
+    };
   }
 
   private getAmongUsSystemPrompt(): string {
@@ -525,8 +620,9 @@ Embody this personality completely while playing the game. Your responses should
 4. Validating transfers
 
 Always be clear about what information you need and explain the steps you're taking.
-When handling private keys, remind users to keep them secure and never share them.
+Signing tools take the name of an agent account, never a private key. Never ask the user for a private key or mnemonic, or repeat one back; use list_accounts to see the available accounts.
 For transfers, always validate before executing.
+If a tool result contains a policyViolation, explain to the user which spending policy rule blocked the action. Do not try to work around it.
 
 Available tools: ${this.getTools()
       .map((tool) => `${tool.name}: ${tool.description}`)
@@ -567,37 +663,63 @@ Game Rules:
   async chat(
     message: string,
     sessionState?: Partial<ConversationalState>
-  ): Promise<{
-    response: string;
-    state: ConversationalState;
-  }> {
+  ): Promise<ChatResult> {
     if (!this.conversationalEnabled || !this.llm) {
       throw new Error(
-        "Conversational features not enabled. Set enableConversational to true and provide OpenAI API key."
+        "Conversational features not enabled. Set enableConversational to true and configure an LLM provider."
       );
     }
 
-    const graph = this.createConversationalGraph();
-
     const initialState: ConversationalState = {
       messages: [...(sessionState?.messages || []), new HumanMessage(message)],
+      iterations: 0,
       userAddress: sessionState?.userAddress,
       context: sessionState?.context || {},
     };
 
+    return await this.runGraph(initialState, randomUUID(), initialState);
+  }
+
+  // Run (or resume) the conversational graph on a thread and turn the
+  // outcome into a ChatResult, surfacing any pending action
+  private async runGraph(
+    input: ConversationalState | Command,
+    threadId: string,
+    fallbackState: ConversationalState
+  ): Promise<ChatResult> {
+    const graph = this.getConversationalGraph();
+
     try {
-      const result = await graph.invoke(initialState);
-      const lastMessage = result.messages[result.messages.length - 1];
+      // Each tool round takes up to four graph steps (agent, review, confirm, tools)
+      const result = await graph.invoke(input, {
+        configurable: { thread_id: threadId },
+        recursionLimit: this.maxToolIterations * 4 + 5,
+      });
+
+      const { __interrupt__, ...state } = result;
+      const pendingAction: PendingAction | undefined = __interrupt__?.[0]?.value;
 
+      if (pendingAction) {
+        return {
+          response: pendingAction.summary,
+          state: { ...state, pendingAction, threadId },
+          pendingAction,
+        };
+      }
+
+      // The run finished, so its checkpoints are no longer needed
+      await this.checkpointer.deleteThread(threadId);
+
+      const lastMessage = state.messages[state.messages.length - 1];
       return {
-        response: lastMessage.content as string,
-        state: result,
+        response: messageText(lastMessage),
+        state: { ...state, threadId: undefined },
       };
     } catch (error) {
       console.error("Chat error:", error);
       return {
         response: "I apologize, but I encountered an error. Please try again.",
-        state: initialState,
+        state: fallbackState,
       };
     }
   }
@@ -672,28 +794,47 @@ Game Rules:
     ];
 
     try {
-      const response = await this.llm.invoke(messages);
-      console.log(`Among Us chat response: ${response.content}`);
-      return response.content as string;
+      const response = await this.llm.chat(messages);
+      console.log(`Among Us chat response: ${messageText(response)}`);
+      return messageText(response);
     } catch (error) {
       console.error("Among Us chat error:", error);
       return "I'm having trouble responding right now...";
     }
   }
 
-  // Method to continue a conversation
+  // Method to continue a conversation. When the previous turn paused on a
+  // pending action, the input approves or rejects it: either an explicit
+  // decision, or a reply where "yes"/"approve"/"confirm" approves and
+  // anything else rejects (and is passed on to the model as the reason).
   async continueChat(
-    message: string,
+    input: string | ConfirmationDecision,
     previousState: ConversationalState
-  ): Promise<{
-    response: string;
-    state: ConversationalState;
-  }> {
+  ): Promise<ChatResult> {
     if (!this.conversationalEnabled) {
       throw new Error("Conversational features not enabled");
     }
 
-    return await this.chat(message, previousState);
+    if (previousState.pendingAction && previousState.threadId) {
+      const decision =
+        typeof input === "string"
+          ? /^\s*(y|yes|approve|approved|confirm|confirmed|ok)\s*[.!]?\s*$/i.test(input)
+            ? { approve: true }
+            : { approve: false, reason: input }
+          : input;
+
+      return await this.runGraph(
+        new Command({ resume: decision }),
+        previousState.threadId,
+        previousState
+      );
+    }
+
+    if (typeof input !== "string") {
+      throw new Error("There is no pending action to approve or reject");
+    }
+
+    return await this.chat(input, previousState);
   }
 
   protected async executeTool<T>(
@@ -734,43 +875,24 @@ Game Rules:
         privateKey,
         network: this.config.network.network,
       });
+      this.accounts.add(DEFAULT_ACCOUNT, this.initializedKey.privateKey);
     } catch (error) {
-      console.warn(`Failed to initialize private key: ${error}`);
-    }
-  }
-
-  private async initializeAIClient(): Promise<void> {
-    try {
-      if (this.config.openAiApiKey) {
-        // Dynamically import OpenAI to avoid issues if not installed
-        const { OpenAI } = await import("openai");
-        this.aiClient = new OpenAI({
-          apiKey: this.config.openAiApiKey,
-        });
-      } else if (this.config.anthropicApiKey) {
-        // Dynamically import Anthropic to avoid issues if not installed
-        const { Anthropic } = await import("@anthropic-ai/sdk");
-        this.aiClient = new Anthropic({
-          apiKey: this.config.anthropicApiKey,
-        });
-      }
-    } catch (error) {
-      console.warn(`Failed to initialize AI client: ${error}`);
+      console.warn(`Failed to initialize private key: ${error instanceof Error ? error.message : error}`);
     }
   }
 
   async matchPromptToTools(
     prompt: string
   ): Promise<{ tools: any[]; parameters: any; error?: string }> {
-    if (!this.aiClient) {
+    if (!this.llm) {
       console.warn(
-        "No AI client initialized. Please provide either OPENAI_API_KEY or ANTHROPIC_API_KEY in your environment variables."
+        "No LLM provider initialized. Please configure `llm` or provide either OPENAI_API_KEY or ANTHROPIC_API_KEY in your environment variables."
       );
       return {
         tools: [],
         parameters: {},
         error:
-          "No AI client available. Please configure an AI provider (OpenAI or Anthropic) to use this feature.",
+          "No LLM provider available. Please configure an LLM provider (OpenAI, Anthropic or an OpenAI-compatible endpoint) to use this feature.",
       };
     }
 
@@ -829,56 +951,129 @@ Game Rules:
       
       `;
 
-      let response;
-      if (this.config.openAiApiKey) {
-        response = await this.aiClient.chat.completions.create({
-          model: this.config.model || "gpt-4",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: prompt },
-          ],
-          temperature: 0.1,
-        });
-        const result = JSON.parse(
-          response.choices[0].message.content ||
-            '{"tools": [], "parameters": {}}'
-        );
-        return {
-          tools: tools.filter((tool) => result.tools.includes(tool.name)),
-          parameters: result.parameters || {},
-        };
-      } else if (this.config.anthropicApiKey) {
-        response = await this.aiClient.messages.create({
-          model: this.config.model || "claude-3-haiku-20240307",
-          max_tokens: 1000,
-          messages: [
-            {
-              role: "user",
-              content: `${systemPrompt}\n\nUser prompt: ${prompt}`,
-            },
-          ],
-        });
-        const result = JSON.parse(
-          response.content[0].text || '{"tools": [], "parameters": {}}'
-        );
-        return {
-          tools: tools.filter((tool) => result.tools.includes(tool.name)),
-          parameters: result.parameters || {},
-        };
-      }
+      const response = await this.llm.chat([
+        new SystemMessage(systemPrompt),
+        new HumanMessage(prompt),
+      ]);
+      const result = JSON.parse(
+        messageText(response) || '{"tools": [], "parameters": {}}'
+      );
+      return {
+        tools: tools.filter((tool) => result.tools.includes(tool.name)),
+        parameters: result.parameters || {},
+      };
     } catch (error) {
       console.error("Error matching prompt to tools:", error);
       return { tools: this.getTools(), parameters: {} };
     }
-
-    // If no AI client was used (neither OpenAI nor Anthropic), return default tools
-    return { tools: this.getTools(), parameters: {} };
   }
 
   getInitializedKey(): PrivateKeyInfo | undefined {
     return this.initializedKey;
   }
 
+  // Named accounts the tools can sign with. The model only ever sees the
+  // names and public details; keys are added here, outside the conversation.
+  addAccount(name: string, privateKey: string): AccountInfo {
+    return this.accounts.add(name, privateKey);
+  }
+
+  // Add an account whose key lives elsewhere (keystore file, remote signer)
+  async addSigner(name: string, signer: Signer): Promise<AccountInfo> {
+    return await this.accounts.addSigner(name, signer);
+  }
+
+  removeAccount(name: string): boolean {
+    return this.accounts.remove(name);
+  }
+
+  listAccounts(): AccountInfo[] {
+    return this.accounts.list();
+  }
+
+  // Encrypted keystore accounts. Unlocked accounts are added to the agent
+  // under their label. Passwords default to config.keystore.password.
+  getKeystore(): Keystore {
+    if (!this.keystore) {
+      throw new Error("No keystore configured. Set keystore in the agent config.");
+    }
+    return this.keystore;
+  }
+
+  // Store a new (or given) key encrypted and unlock it as an account
+  async createKeystoreAccount(
+    label: string,
+    options: { password?: string; privateKey?: string } = {}
+  ): Promise<AccountInfo> {
+    const password = this.keystorePassword(options.password);
+    await this.getKeystore().create(label, password, options.privateKey);
+    return await this.unlockKeystoreAccount(label, password);
+  }
+
+  async listKeystoreAccounts(): Promise<KeystoreAccount[]> {
+    return await this.getKeystore().list();
+  }
+
+  async labelKeystoreAccount(label: string, newLabel: string): Promise<KeystoreAccount> {
+    if (this.keystoreAccounts.has(label) && this.accounts.has(newLabel)) {
+      throw new Error(`Account '${newLabel}' already exists`);
+    }
+
+    const account = await this.getKeystore().setLabel(label, newLabel);
+
+    // Keep the agent account name in step with the label
+    if (this.keystoreAccounts.has(label) && label !== newLabel) {
+      const signer = this.accounts.resolve(label);
+      this.removeKeystoreAccount(label);
+      await this.accounts.addSigner(newLabel, signer);
+      this.keystoreAccounts.add(newLabel);
+    }
+    return account;
+  }
+
+  async unlockKeystoreAccount(label: string, password?: string): Promise<AccountInfo> {
+    const signer = await this.getKeystore().unlock(label, this.keystorePassword(password));
+
+    if (this.keystoreAccounts.has(label)) {
+      return this.accounts.describe(label)!;
+    }
+    const account = await this.accounts.addSigner(label, signer);
+    this.keystoreAccounts.add(label);
+    return account;
+  }
+
+  async lockKeystoreAccount(label: string): Promise<boolean> {
+    const locked = await this.getKeystore().lock(label);
+    this.removeKeystoreAccount(label);
+    return locked;
+  }
+
+  // Re-encrypt an account under a new password. Direct method only, so
+  // passwords never pass through the model.
+  async rotateKeystorePassword(label: string, currentPassword: string, newPassword: string): Promise<KeystoreAccount> {
+    return await this.getKeystore().rotate(label, currentPassword, newPassword);
+  }
+
+  async deleteKeystoreAccount(label: string, password?: string): Promise<boolean> {
+    const deleted = await this.getKeystore().delete(label, this.keystorePassword(password));
+    this.removeKeystoreAccount(label);
+    return deleted;
+  }
+
+  private removeKeystoreAccount(label: string): void {
+    if (this.keystoreAccounts.delete(label)) {
+      this.accounts.remove(label);
+    }
+  }
+
+  private keystorePassword(password?: string): string {
+    const resolved = password ?? this.config.keystore?.password;
+    if (!resolved) {
+      throw new Error("No keystore password given and none set in config.keystore.password");
+    }
+    return resolved;
+  }
+
   // Check if conversational features are enabled
   isConversationalEnabled(): boolean {
     return this.conversationalEnabled && !!this.llm;
@@ -888,5 +1083,19 @@ Game Rules:
     this.systemPrompt = prompt;
   }
 
-  abstract getTools(): any[];
+  // Registry of the tools this agent exposes. Created lazily from
+  // createTools() so callers can add, remove or override tools at runtime.
+  getToolRegistry(): ToolRegistry {
+    if (!this.toolRegistry) {
+      this.toolRegistry = new ToolRegistry(this.createTools());
+    }
+    return this.toolRegistry;
+  }
+
+  getTools(): AgentTool[] {
+    return this.getToolRegistry().list();
+  }
+
+  // Default tool set for the agent
+  protected abstract createTools(): AgentTool[];
 }
@@ -1,34 +1,56 @@
-import { StateGraph, END } from '@langchain/langgraph';
-import { StacksAgent } from './agent.js';
+import { z } from 'zod';
+import { cvToString, deserializeTransaction } from '@stacks/transactions';
+import { StacksAgent, ConversationalConfig } from './agent.js';
+import { defineTool, AgentTool } from '../registry/index';
 import { StacksQueryTool } from '../tools/query.js';
 import { StacksTransferTool } from '../tools/transfer.js';
+import { StacksFungibleTokenTool } from '../tools/fungible-token.js';
+import { StacksNFTTool, ListNFTsParams } from '../tools/nft.js';
 import { StacksSwapTool } from '../tools/swap.js';
 import { StacksContractDeployTool } from '../tools/contract-deploy.js';
 import { StacksContractCallTool } from '../tools/contract-call.js';
 import { StacksReadOnlyTool } from '../tools/readonly-call.js';
-import { StacksKeyManagementTool } from '../tools/key-management.js';
+import { StacksKeyManagementTool, HDKeyInfo } from '../tools/key-management.js';
 import { StacksMultiSigTool } from '../tools/multisig.js';
 import { StacksSponsoredTransactionTool } from '../tools/sponsored-tx.js';
+import { StacksReplaceByFeeTool } from '../tools/replace-by-fee.js';
+import { StacksStackingTool } from '../tools/stacking.js';
+import { SpendingPolicy, policyViolationResult, postConditionedAmount, transactionPolicyAction } from '../policy/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { TransactionTracker } from '../tracker/index';
+import { ContractEventWatcher } from '../events/index';
+import { SwapRouter } from '../swap/index';
+import { PostConditionSpec, describePostCondition, toJsonPostCondition } from '../postconditions/index';
+import { isClarityValue } from '../clarity/index';
+import { BnsResolver, isBnsName } from '../bns/index';
+import { StacksUtils } from '../utils/index';
+import { hdAccountName } from '../accounts/index';
 import { 
-  AgentConfig, 
   QueryParams, 
   TransferParams, 
+  TokenTransferParams,
+  NFTTransferParams,
+  ReplaceTransactionParams,
+  BnsNameInfo,
+  DelegateStxParams,
+  RevokeDelegationParams,
+  StackingMode,
   SwapParams,
-  ContractDeployParams,
+  SwapQuoteParams,
   ContractCallParams,
-  ReadOnlyCallParams,
-  KeyGenerationParams,
-  KeyImportParams,
-  MultiSigSTXTransferParams,
-  MultiSigContractCallParams,
-  SponsoredSTXTransferParams,
-  SponsoredContractCallParams,
-  SponsorTransactionParams
+  ToolResult,
+  PolicyAction,
+  SignerSelection,
+  HDAccountInfo,
 } from '../types/index';
+import { Signer, LocalSigner } from '../signers/index';
 
 export class StacksWalletAgent extends StacksAgent {
   private queryTool: StacksQueryTool;
   private transferTool: StacksTransferTool;
+  private fungibleTokenTool: StacksFungibleTokenTool;
+  private nftTool: StacksNFTTool;
   private swapTool: StacksSwapTool;
   private contractDeployTool: StacksContractDeployTool;
   private contractCallTool: StacksContractCallTool;
@@ -36,641 +58,1578 @@ export class StacksWalletAgent extends StacksAgent {
   private keyManagementTool: StacksKeyManagementTool;
   private multiSigTool: StacksMultiSigTool;
   private sponsoredTxTool: StacksSponsoredTransactionTool;
+  private replaceByFeeTool: StacksReplaceByFeeTool;
+  private stackingTool: StacksStackingTool;
+  private spendingPolicy?: SpendingPolicy;
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+  private transactionTracker: TransactionTracker;
+  private contractEventWatcher: ContractEventWatcher;
+  private bnsResolver: BnsResolver;
 
-  constructor(config: AgentConfig) {
+  constructor(config: ConversationalConfig) {
     super(config);
-    this.queryTool = new StacksQueryTool(this.network);
-    this.transferTool = new StacksTransferTool(this.network);
-    this.swapTool = new StacksSwapTool(this.network);
-    this.contractDeployTool = new StacksContractDeployTool(this.network);
-    this.contractCallTool = new StacksContractCallTool(this.network);
+    // One nonce manager for every signing tool, so concurrent transactions
+    // from the same account get distinct nonces
+    this.nonceManager = new NonceManager(this.network);
+    this.feeEstimator = new FeeEstimator(this.network, config.fees);
+    this.transactionTracker = new TransactionTracker(this.network);
+    this.contractEventWatcher = new ContractEventWatcher(this.network);
+    this.bnsResolver = new BnsResolver(this.network);
+    this.queryTool = new StacksQueryTool(this.network, this.bnsResolver);
+    this.transferTool = new StacksTransferTool(this.network, this.nonceManager, this.feeEstimator);
+    this.fungibleTokenTool = new StacksFungibleTokenTool(this.network, this.nonceManager, this.feeEstimator);
+    this.nftTool = new StacksNFTTool(this.network, this.nonceManager, this.feeEstimator);
+    this.swapTool = new StacksSwapTool(
+      this.network,
+      this.nonceManager,
+      this.feeEstimator,
+      new SwapRouter(this.network, config.dexAdapters)
+    );
+    this.contractDeployTool = new StacksContractDeployTool(this.network, this.nonceManager, this.feeEstimator);
+    this.contractCallTool = new StacksContractCallTool(
+      this.network,
+      this.nonceManager,
+      this.feeEstimator,
+      config.callSimulator
+    );
     this.readOnlyTool = new StacksReadOnlyTool(this.network);
     this.keyManagementTool = new StacksKeyManagementTool(this.network);
     this.multiSigTool = new StacksMultiSigTool(this.network);
-    this.sponsoredTxTool = new StacksSponsoredTransactionTool(this.network);
+    this.sponsoredTxTool = new StacksSponsoredTransactionTool(this.network, this.nonceManager, this.feeEstimator);
+    this.replaceByFeeTool = new StacksReplaceByFeeTool(this.network, this.nonceManager);
+    this.stackingTool = new StacksStackingTool(this.network, this.nonceManager, this.feeEstimator);
+
+    if (config.spendingPolicy) {
+      this.spendingPolicy = new SpendingPolicy(config.spendingPolicy, StacksUtils.getNetworkName(this.network));
+    }
   }
 
-  getTools() {
+  protected createTools(): AgentTool[] {
+    // Signing tools name an agent account instead of taking a private key
+    const accountParam = z.string().optional().describe('Name of the agent account to sign with (defaults to "default")');
+    const functionArgsParam = z
+      .union([z.array(z.any()), z.record(z.any())])
+      .describe(
+        'Function arguments as plain JSON, in order or by argument name. They are encoded with the contract ABI: ' +
+          'integers as numbers or strings, principals and strings as strings, buffers as hex ("0x0102"), ' +
+          'lists as arrays, tuples as objects, optionals as the value or null, responses as {"ok": ...} or {"err": ...}'
+      );
+    const postConditionParam = z.object({
+      type: z.enum(['stx-postcondition', 'ft-postcondition', 'nft-postcondition']),
+      address: z.string().describe('Principal whose assets the condition covers (address or contract id)'),
+      condition: z
+        .enum(['eq', 'gt', 'gte', 'lt', 'lte', 'sent', 'not-sent'])
+        .describe('eq/gt/gte/lt/lte for STX and tokens; sent/not-sent for NFTs'),
+      amount: z.union([z.string(), z.number()]).optional().describe('STX: amount in STX (e.g., "1.5"); tokens: amount in base units'),
+      asset: z.string().optional().describe('Token or NFT asset: "address.contract-name::asset-name"'),
+      assetId: z.union([z.string(), z.number()]).optional().describe('NFT id: a uint (e.g., "5") or hex-serialized Clarity value'),
+    });
+
+    // Inference needs a call simulator, so without one the model is not
+    // offered inferPostConditions
+    const callContractParams = z.object({
+      account: accountParam,
+      contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+      contractName: z.string().describe('Name of the contract'),
+      functionName: z.string().describe('Name of the function to call'),
+      functionArgs: functionArgsParam,
+      fee: z.string().optional().describe('Optional fee override for the transaction'),
+      postConditions: z.array(postConditionParam).optional().describe('Optional post-conditions; by default the call then runs in deny mode'),
+      postConditionMode: z.enum(['allow', 'deny']).optional().describe('"deny" fails the call if it moves assets not covered by the post-conditions'),
+      inferPostConditions: z.boolean().default(false).describe('Without post-conditions: simulate the call first and allow exactly the transfers it makes (deny mode)'),
+      validateWithAbi: z.boolean().default(true).describe('Whether to validate function call with ABI'),
+    });
+    const callContractSchema = this.config.callSimulator
+      ? callContractParams
+      : callContractParams.omit({ inferPostConditions: true });
+
     return [
-      {
+      defineTool({
         name: 'query_wallet',
         description: 'Query wallet information including balance, nonce, and transaction history',
-        parameters: {
-          type: 'object',
-          properties: {
-            address: {
-              type: 'string',
-              description: 'The Stacks wallet address to query',
-            },
-            includeTransactions: {
-              type: 'boolean',
-              description: 'Whether to include transaction history',
-              default: false,
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of transactions to return',
-              default: 10,
-            },
-          },
-          required: ['address'],
+        schema: z.object({
+          address: z.string().describe('The Stacks wallet address or BNS name (e.g. "alice.btc") to query'),
+          includeTransactions: z.boolean().default(false).describe('Whether to include transaction history'),
+          limit: z.number().int().positive().default(10).describe('Maximum number of transactions to return'),
+        }),
+        execute: async (params) => {
+          return await this.queryWallet(params);
         },
-        execute: async (params: QueryParams) => {
-          return await this.queryTool.queryWallet(params);
-        },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'get_balance',
         description: 'Get the STX balance of a wallet address',
-        parameters: {
-          type: 'object',
-          properties: {
-            address: {
-              type: 'string',
-              description: 'The Stacks wallet address',
-            },
-          },
-          required: ['address'],
+        schema: z.object({
+          address: z.string().describe('The Stacks wallet address or BNS name'),
+        }),
+        execute: async (params) => {
+          return await this.getBalance(params);
         },
-        execute: async (params: { address: string }) => {
-          return await this.queryTool.getAccountBalance(params.address);
+      }),
+      defineTool({
+        name: 'get_nonce_info',
+        description: 'Show the nonce state of an address or agent account: next nonce, missing nonces (gaps) and transactions still pending',
+        schema: z.object({
+          address: z.string().optional().describe('Stacks address or BNS name to inspect'),
+          account: accountParam.describe('Agent account to inspect when no address is given (defaults to "default")'),
+        }),
+        execute: async (params) => {
+          try {
+            const address = params.address
+              ? await this.bnsResolver.resolveAddress(params.address)
+              : await this.accounts.resolve(params.account).getAddress();
+            return { success: true, data: await this.nonceManager.getNonceInfo(address) };
+          } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to get nonce info' };
+          }
         },
-      } as any,
-      {
+      }),
+      defineTool({
+        name: 'get_transaction_status',
+        description: 'Get the status of a broadcast transaction (pending, microblock, confirmed, abort_by_response, abort_by_post_condition, dropped or not_found), optionally waiting for it to confirm',
+        schema: z.object({
+          txId: z.string().describe('The transaction ID'),
+          waitForConfirmation: z.boolean().default(false).describe('Wait until the transaction confirms, aborts, is dropped or is not found'),
+          confirmations: z.number().int().positive().default(1).describe('Blocks to wait for when waiting'),
+          timeoutSeconds: z.number().int().positive().default(120).describe('Maximum time to wait, in seconds'),
+        }),
+        execute: async (params) => {
+          try {
+            const transaction = params.waitForConfirmation
+              ? await this.transactionTracker.waitForConfirmation(params.txId, {
+                  confirmations: params.confirmations,
+                  timeout: params.timeoutSeconds * 1000,
+                })
+              : await this.transactionTracker.getStatus(params.txId);
+            return { success: true, data: transaction };
+          } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to get transaction status' };
+          }
+        },
+      }),
+
+      // BNS tools
+      defineTool({
+        name: 'resolve_name',
+        description: 'Resolve a BNS name (e.g. "alice.btc") to the Stacks address that owns it',
+        schema: z.object({
+          name: z.string().describe('The BNS name to resolve'),
+        }),
+        execute: async (params) => {
+          return await this.resolveName(params.name);
+        },
+      }),
+      defineTool({
+        name: 'lookup_name',
+        description: 'Look up the primary BNS name of a Stacks address',
+        schema: z.object({
+          address: z.string().describe('The Stacks address to look up'),
+        }),
+        execute: async (params) => {
+          return await this.lookupName(params.address);
+        },
+      }),
+      defineTool({
         name: 'transfer_stx',
         description: 'Transfer STX tokens from one wallet to another',
-        parameters: {
-          type: 'object',
-          properties: {
-            fromPrivateKey: {
-              type: 'string',
-              description: 'Private key of the sender wallet',
-            },
-            toAddress: {
-              type: 'string',
-              description: 'Address of the recipient wallet',
-            },
-            amount: {
-              type: 'string',
-              description: 'Amount of STX to transfer (e.g., "1.5" for 1.5 STX)',
-            },
-            memo: {
-              type: 'string',
-              description: 'Optional memo for the transaction',
-            },
-            fee: {
-              type: 'string',
-              description: 'Optional custom fee (in STX)',
-            },
-          },
-          required: ['fromPrivateKey', 'toAddress', 'amount'],
-        },
-        execute: async (params: TransferParams) => {
-          // Use initialized private key if no private key provided in params
-          const transferParams = {
-            ...params,
-            fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
+        schema: z.object({
+          account: accountParam,
+          toAddress: z.string().describe('Address or BNS name of the recipient wallet'),
+          amount: z.string().describe('Amount of STX to transfer (e.g., "1.5" for 1.5 STX)'),
+          memo: z.string().optional().describe('Optional memo for the transaction'),
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => {
+          const recipient = await this.describeAddress(params.toAddress);
+          return {
+            description: `Transfer ${params.amount} STX to ${recipient}${params.memo ? ` with memo "${params.memo}"` : ''}`,
+            amount: `${params.amount} STX`,
+            recipient,
+            fee: await this.describeFee(params.fee, () => this.estimateTransferFee(params)),
           };
-          
-          if (!transferParams.fromPrivateKey) {
-            return {
-              success: false,
-              error: 'No private key provided. Either initialize a private key in the agent config or provide one in the transfer parameters.'
-            };
-          }
-          
-          return await this.transferTool.transferSTX(transferParams);
         },
-      } as any,
-      {
+        execute: async (params) => {
+          return await this.transferSTX(params);
+        },
+      }),
+      defineTool({
         name: 'estimate_transfer_fee',
         description: 'Estimate the fee for a STX transfer',
-        parameters: {
-          type: 'object',
-          properties: {
-            fromPrivateKey: {
-              type: 'string',
-              description: 'Private key of the sender wallet',
-            },
-            toAddress: {
-              type: 'string',
-              description: 'Address of the recipient wallet',
-            },
-            amount: {
-              type: 'string',
-              description: 'Amount of STX to transfer',
-            },
-            memo: {
-              type: 'string',
-              description: 'Optional memo for the transaction',
-            },
-          },
-          required: ['fromPrivateKey', 'toAddress', 'amount'],
+        schema: z.object({
+          account: accountParam,
+          toAddress: z.string().describe('Address or BNS name of the recipient wallet'),
+          amount: z.string().describe('Amount of STX to transfer'),
+          memo: z.string().optional().describe('Optional memo for the transaction'),
+        }),
+        execute: async (params) => {
+          return await this.estimateTransferFee(params);
         },
-        execute: async (params: Omit<TransferParams, 'fee'>) => {
-          // Use initialized private key if no private key provided in params
-          const estimateParams = {
-            ...params,
-            fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
-          };
-          
-          if (!estimateParams.fromPrivateKey) {
-            return {
-              success: false,
-              error: 'No private key provided. Either initialize a private key in the agent config or provide one in the parameters.'
-            };
-          }
-          
-          return await this.transferTool.estimateTransferFee(estimateParams);
-        },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'validate_transfer',
         description: 'Validate if a transfer can be executed (check balance, address validity)',
-        parameters: {
-          type: 'object',
-          properties: {
-            fromPrivateKey: {
-              type: 'string',
-              description: 'Private key of the sender wallet',
-            },
-            toAddress: {
-              type: 'string',
-              description: 'Address of the recipient wallet',
-            },
-            amount: {
-              type: 'string',
-              description: 'Amount of STX to transfer',
-            },
-          },
-          required: ['fromPrivateKey', 'toAddress', 'amount'],
+        schema: z.object({
+          account: accountParam,
+          toAddress: z.string().describe('Address or BNS name of the recipient wallet'),
+          amount: z.string().describe('Amount of STX to transfer'),
+        }),
+        execute: async (params) => {
+          return await this.validateTransfer(params);
         },
-        execute: async (params: Omit<TransferParams, 'fee' | 'memo'>) => {
-          // Use initialized private key if no private key provided in params
-          const validateParams = {
-            ...params,
-            fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
+      }),
+
+      // Fungible token (SIP-010) tools
+      defineTool({
+        name: 'get_token_balances',
+        description: 'List the fungible token (SIP-010) balances of an address with token names, symbols and amounts scaled by decimals',
+        schema: z.object({
+          address: z.string().describe('The Stacks address or BNS name to query'),
+        }),
+        execute: async (params) => {
+          return await this.getTokenBalances(params.address);
+        },
+      }),
+      defineTool({
+        name: 'transfer_token',
+        description: 'Transfer a SIP-010 fungible token. A post-condition limits the transfer to exactly the given amount.',
+        schema: z.object({
+          account: accountParam,
+          contractId: z.string().describe('Token contract, as "address.contract-name"'),
+          recipient: z.string().describe('Address or BNS name of the recipient'),
+          amount: z.string().describe('Amount in whole tokens (e.g., "12.5"), scaled by the token decimals'),
+          memo: z.string().optional().describe('Optional memo (up to 34 bytes)'),
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => {
+          const metadata = await this.fungibleTokenTool.getTokenMetadata(params.contractId);
+          const token = metadata.success && metadata.data ? metadata.data.symbol : params.contractId;
+          const recipient = await this.describeAddress(params.recipient);
+          return {
+            description: `Transfer ${params.amount} ${token} to ${recipient}${params.memo ? ` with memo "${params.memo}"` : ''}`,
+            amount: `${params.amount} ${token}`,
+            recipient,
+            fee: await this.describeFee(params.fee, () =>
+              this.withResolvedNames(params, ['recipient'], (resolved) =>
+                this.withSigner(resolved, (signer, rest) =>
+                  this.fungibleTokenTool.estimateTokenTransferFee({ ...rest, signer })
+                )
+              )
+            ),
+            postConditions: [`Sender sends exactly ${params.amount} ${token}`],
+          };
+        },
+        execute: async (params) => {
+          return await this.transferToken(params);
+        },
+      }),
+
+      // NFT (SIP-009) tools
+      defineTool({
+        name: 'list_nfts',
+        description: 'List the NFTs held by an address, with token URIs and metadata for SIP-009 tokens',
+        schema: z.object({
+          address: z.string().describe('The Stacks address or BNS name to query'),
+          limit: z.number().int().positive().max(50).default(50).describe('Maximum number of NFTs to return'),
+          offset: z.number().int().nonnegative().default(0).describe('Number of NFTs to skip, for paging'),
+          includeMetadata: z.boolean().default(true).describe('Whether to fetch token URIs and metadata'),
+        }),
+        execute: async (params) => {
+          return await this.listNFTs(params);
+        },
+      }),
+      defineTool({
+        name: 'transfer_nft',
+        description: 'Transfer a SIP-009 NFT. A post-condition makes the transaction fail unless exactly this token is sent.',
+        schema: z.object({
+          account: accountParam,
+          contractId: z.string().describe('NFT contract, as "address.contract-name"'),
+          tokenId: z.string().describe('Token id (e.g., "42" or "u42")'),
+          recipient: z.string().describe('Address or BNS name of the recipient'),
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => {
+          const recipient = await this.describeAddress(params.recipient);
+          return {
+            description: `Transfer NFT ${params.contractId} #${params.tokenId.replace(/^u/, '')} to ${recipient}`,
+            recipient,
+            fee: await this.describeFee(params.fee, () =>
+              this.withResolvedNames(params, ['recipient'], (resolved) =>
+                this.withSigner(resolved, (signer, rest) =>
+                  this.nftTool.estimateNFTTransferFee({ ...rest, signer })
+                )
+              )
+            ),
+            postConditions: [`Sender sends ${params.contractId} #${params.tokenId.replace(/^u/, '')}`],
           };
-          
-          if (!validateParams.fromPrivateKey) {
-            return {
-              success: false,
-              error: 'No private key provided. Either initialize a private key in the agent config or provide one in the parameters.'
-            };
+        },
+        execute: async (params) => {
+          return await this.transferNFT(params);
+        },
+      }),
+
+      // Swap tools
+      defineTool({
+        name: 'get_swap_quote',
+        description: 'Quote a token swap on every supported DEX (ALEX, Velar, Bitflow) and return the best output, the minimum output after slippage and the alternatives',
+        schema: z.object({
+          tokenIn: z.string().default('STX').describe('Token to sell: "STX" or a SIP-010 contract id ("address.contract-name")'),
+          tokenOut: z.string().describe('Token to buy: "STX" or a SIP-010 contract id'),
+          amount: z.string().describe('Amount of tokenIn to sell, in whole tokens (e.g., "10")'),
+          slippageTolerance: z.number().min(0).max(50).default(0.5).describe('Accepted slippage in percent'),
+          dex: z.enum(['alex', 'velar', 'bitflow']).optional().describe('Only quote this DEX'),
+        }),
+        execute: async (params) => {
+          return await this.getSwapQuote(params);
+        },
+      }),
+      defineTool({
+        name: 'dry_run_swap',
+        description: 'Build a token swap exactly as swap_tokens would, without signing or broadcasting it. Returns the quote (with fee and price impact), the unsigned transaction, its fee and post-conditions.',
+        schema: z.object({
+          account: accountParam,
+          tokenIn: z.string().default('STX').describe('Token to sell: "STX" or a SIP-010 contract id ("address.contract-name")'),
+          tokenOut: z.string().describe('Token to buy: "STX" or a SIP-010 contract id'),
+          amount: z.string().describe('Amount of tokenIn to sell, in whole tokens (e.g., "10")'),
+          slippageTolerance: z.number().min(0).max(50).default(0.5).describe('Accepted slippage in percent'),
+          dex: z.enum(['alex', 'velar', 'bitflow']).optional().describe('Use this DEX instead of the best quote'),
+          minimumOutput: z.string().optional().describe('Least amount of tokenOut to accept, in whole tokens; replaces slippageTolerance'),
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        execute: async (params) => {
+          return await this.dryRunSwap(params);
+        },
+      }),
+      defineTool({
+        name: 'swap_tokens',
+        description: 'Swap tokens on the DEX with the best quote. Post-conditions make the swap fail unless exactly the input is sent and at least the minimum output is received.',
+        schema: z.object({
+          account: accountParam,
+          tokenIn: z.string().default('STX').describe('Token to sell: "STX" or a SIP-010 contract id ("address.contract-name")'),
+          tokenOut: z.string().describe('Token to buy: "STX" or a SIP-010 contract id'),
+          amount: z.string().describe('Amount of tokenIn to sell, in whole tokens (e.g., "10")'),
+          slippageTolerance: z.number().min(0).max(50).default(0.5).describe('Accepted slippage in percent'),
+          dex: z.enum(['alex', 'velar', 'bitflow']).optional().describe('Use this DEX instead of the best quote'),
+          minimumOutput: z.string().optional().describe('Least amount of tokenOut to accept, in whole tokens; replaces slippageTolerance'),
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        stateChanging: true,
+        // The reviewed quote's DEX and minimum output are pinned in the
+        // approved params, so execute signs the swap that was shown
+        summarize: async (params) => {
+          const plan = await this.swapTool.planSwap(params);
+          if (!plan.success || !plan.data) {
+            return { description: `Swap ${params.amount} ${params.tokenIn} for ${params.tokenOut} (no quote: ${plan.error})` };
           }
-          
-          return await this.transferTool.validateTransfer(validateParams);
+          const planned = plan.data;
+          const { dex, route, amountIn, expectedOutput, minimumOutput, priceImpact } = planned.quote;
+          const impact = priceImpact !== undefined ? ` (price impact ${priceImpact}%)` : '';
+          return {
+            description: `Swap ${amountIn} ${route[0]} for about ${expectedOutput} ${route[1]} on ${dex}${impact}`,
+            amount: `${amountIn} ${route[0]}`,
+            fee: await this.describeFee(params.fee, () =>
+              this.withSigner(params, (signer, rest) => this.swapTool.estimateSwapFee({ ...rest, dex, signer }, planned))
+            ),
+            postConditions: [
+              `Sender sends exactly ${amountIn} ${route[0]}`,
+              `${dex} sends at least ${minimumOutput} ${route[1]}`,
+            ],
+            params: { ...params, dex, amount: amountIn, minimumOutput },
+          };
+        },
+        execute: async (params) => {
+          return await this.swapTokens(params);
         },
-      } as any,
+      }),
 
       // Contract deployment tools
-      {
+      defineTool({
         name: 'deploy_contract',
         description: 'Deploy a smart contract to the Stacks blockchain',
-        parameters: {
-          type: 'object',
-          properties: {
-            fromPrivateKey: {
-              type: 'string',
-              description: 'Private key of the deployer wallet',
-            },
-            contractName: {
-              type: 'string',
-              description: 'Name of the contract to deploy',
-            },
-            codeBody: {
-              type: 'string',
-              description: 'Clarity code of the contract',
-            },
-            fee: {
-              type: 'string',
-              description: 'Optional fee override for the transaction',
-            },
-          },
-          required: ['fromPrivateKey', 'contractName', 'codeBody'],
-        },
-        execute: async (params: ContractDeployParams) => {
-          return await this.contractDeployTool.deployContract(params);
+        schema: z.object({
+          account: accountParam,
+          contractName: z.string().describe('Name of the contract to deploy'),
+          codeBody: z.string().describe('Clarity code of the contract'),
+          fee: z.string().optional().describe('Optional fee override for the transaction'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => ({
+          description: `Deploy contract '${params.contractName}' (${params.codeBody.length} characters of Clarity code)`,
+          fee: await this.describeFee(params.fee, () =>
+            this.withSigner(params, (signer, rest) =>
+              this.contractDeployTool.estimateDeployFee({ ...rest, signer })
+            )
+          ),
+        }),
+        execute: async (params) => {
+          // Deploys run in allow mode, so the contract's top-level code
+          // could send any amount of STX
+          return await this.withSigner(params, (signer, rest) =>
+            this.enforceSpendingPolicy(
+              { tool: 'deploy_contract', amountUnbounded: true, fee: params.fee },
+              () => this.contractDeployTool.estimateDeployFee({ ...rest, signer }),
+              (fee) => this.contractDeployTool.deployContract({ ...rest, signer, fee })
+            )
+          );
         },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'estimate_deploy_fee',
         description: 'Estimate the fee for deploying a smart contract',
-        parameters: {
-          type: 'object',
-          properties: {
-            fromPrivateKey: {
-              type: 'string',
-              description: 'Private key of the deployer wallet',
-            },
-            contractName: {
-              type: 'string',
-              description: 'Name of the contract to deploy',
-            },
-            codeBody: {
-              type: 'string',
-              description: 'Clarity code of the contract',
-            },
-          },
-          required: ['fromPrivateKey', 'contractName', 'codeBody'],
-        },
-        execute: async (params: Omit<ContractDeployParams, 'fee'>) => {
-          return await this.contractDeployTool.estimateDeployFee(params);
+        schema: z.object({
+          account: accountParam,
+          contractName: z.string().describe('Name of the contract to deploy'),
+          codeBody: z.string().describe('Clarity code of the contract'),
+        }),
+        execute: async (params) => {
+          return await this.withSigner(params, (signer, rest) =>
+            this.contractDeployTool.estimateDeployFee({ ...rest, signer })
+          );
         },
-      } as any,
+      }),
 
       // Contract call tools
-      {
+      defineTool({
         name: 'call_contract',
         description: 'Call a function in a deployed smart contract',
-        parameters: {
-          type: 'object',
-          properties: {
-            fromPrivateKey: {
-              type: 'string',
-              description: 'Private key of the caller wallet',
-            },
-            contractAddress: {
-              type: 'string',
-              description: 'Address of the contract',
-            },
-            contractName: {
-              type: 'string',
-              description: 'Name of the contract',
-            },
-            functionName: {
-              type: 'string',
-              description: 'Name of the function to call',
-            },
-            functionArgs: {
-              type: 'array',
-              description: 'Array of function arguments (ClarityValues)',
-            },
-            fee: {
-              type: 'string',
-              description: 'Optional fee override for the transaction',
-            },
-            postConditions: {
-              type: 'array',
-              description: 'Optional post-conditions for the transaction',
-            },
-            validateWithAbi: {
-              type: 'boolean',
-              description: 'Whether to validate function call with ABI',
-              default: true,
-            },
-          },
-          required: ['fromPrivateKey', 'contractAddress', 'contractName', 'functionName', 'functionArgs'],
+        schema: callContractSchema,
+        stateChanging: true,
+        // Inferred post-conditions are simulated once here and pinned in the
+        // approved params, so execute signs exactly what was reviewed
+        summarize: async (params) => {
+          const pinned = await this.pinInferredPostConditions(params);
+          const call = pinned.data ?? params;
+          const inferred = call !== params;
+          return {
+            description: `Call ${await this.describeAddress(params.contractAddress)}.${params.contractName}::${params.functionName} with ${this.describeArgs(params.functionArgs)}`,
+            fee: await this.describeFee(call.fee, () =>
+              this.withResolvedNames(call, ['contractAddress'], (resolved) =>
+                this.withSigner(resolved, (signer, rest) =>
+                  this.contractCallTool.estimateCallFee({ ...rest, signer })
+                )
+              )
+            ),
+            postConditions: !pinned.success
+              ? [pinned.error ?? 'Could not simulate the call']
+              : call.postConditions?.length
+              ? [
+                  ...call.postConditions.map((postCondition: PostConditionSpec) =>
+                    inferred ? `${describePostCondition(postCondition)} (inferred)` : describePostCondition(postCondition)
+                  ),
+                  call.postConditionMode === 'allow' ? 'Allow mode: other transfers are not checked' : 'Deny mode: no other transfers',
+                ]
+              : [
+                  call.postConditionMode === 'deny'
+                    ? 'None (deny mode: the call cannot move any assets)'
+                    : 'None (the contract may move any of your assets)',
+                ],
+            params: call,
+          };
         },
-        execute: async (params: ContractCallParams) => {
-          return await this.contractCallTool.callContract(params);
+        execute: async (params) => {
+          const pinned = await this.pinInferredPostConditions(params);
+          if (!pinned.success || !pinned.data) {
+            return pinned;
+          }
+          return await this.withResolvedNames(pinned.data, ['contractAddress'], (resolved) =>
+            this.withSigner(resolved, async (signer, rest) => {
+              let sent: Pick<PolicyAction, 'amount' | 'amountUnbounded'>;
+              try {
+                sent = await this.stxSentByCall(rest, signer);
+              } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : 'Invalid post-conditions' };
+              }
+              return await this.enforceSpendingPolicy(
+                {
+                  tool: 'call_contract',
+                  ...sent,
+                  contract: `${rest.contractAddress}.${rest.contractName}::${rest.functionName}`,
+                  fee: rest.fee,
+                },
+                () => this.contractCallTool.estimateCallFee({ ...rest, signer }),
+                (fee) => this.contractCallTool.callContract({ ...rest, signer, fee })
+              );
+            })
+          );
         },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'get_contract_abi',
         description: 'Get the ABI (interface) of a deployed contract',
-        parameters: {
-          type: 'object',
-          properties: {
-            contractAddress: {
-              type: 'string',
-              description: 'Address of the contract',
-            },
-            contractName: {
-              type: 'string',
-              description: 'Name of the contract',
-            },
-          },
-          required: ['contractAddress', 'contractName'],
+        schema: z.object({
+          contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+          contractName: z.string().describe('Name of the contract'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['contractAddress'], (resolved) =>
+            this.contractCallTool.getContractAbi(resolved.contractAddress, resolved.contractName)
+          );
         },
-        execute: async (params: { contractAddress: string; contractName: string }) => {
-          return await this.contractCallTool.getContractAbi(params.contractAddress, params.contractName);
-        },
-      } as any,
+      }),
 
       // Read-only contract tools
-      {
+      defineTool({
         name: 'call_readonly_function',
         description: 'Call a read-only function in a smart contract (no transaction required)',
-        parameters: {
-          type: 'object',
-          properties: {
-            contractAddress: {
-              type: 'string',
-              description: 'Address of the contract',
-            },
-            contractName: {
-              type: 'string',
-              description: 'Name of the contract',
-            },
-            functionName: {
-              type: 'string',
-              description: 'Name of the read-only function to call',
-            },
-            functionArgs: {
-              type: 'array',
-              description: 'Array of function arguments (ClarityValues)',
-            },
-            senderAddress: {
-              type: 'string',
-              description: 'Optional sender address for context',
-            },
-          },
-          required: ['contractAddress', 'contractName', 'functionName', 'functionArgs'],
+        schema: z.object({
+          contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+          contractName: z.string().describe('Name of the contract'),
+          functionName: z.string().describe('Name of the read-only function to call'),
+          functionArgs: functionArgsParam,
+          senderAddress: z.string().optional().describe('Optional sender address or BNS name for context'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['contractAddress', 'senderAddress'], (resolved) =>
+            this.readOnlyTool.callReadOnlyFunction(resolved)
+          );
+        },
+      }),
+      defineTool({
+        name: 'get_data_var',
+        description: 'Read the current value of a contract data variable (define-data-var), decoded to JSON',
+        schema: z.object({
+          contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+          contractName: z.string().describe('Name of the contract'),
+          varName: z.string().describe('Name of the data variable'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['contractAddress'], (resolved) =>
+            this.readOnlyTool.getDataVar(resolved.contractAddress, resolved.contractName, resolved.varName, 0)
+          );
+        },
+      }),
+      defineTool({
+        name: 'get_map_entry',
+        description: 'Look up a key in a contract data map (define-map), decoded to JSON. The value is null when the key is not in the map.',
+        schema: z.object({
+          contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+          contractName: z.string().describe('Name of the contract'),
+          mapName: z.string().describe('Name of the map'),
+          key: z
+            .any()
+            .describe('The key as plain JSON, encoded with the map\'s key type like function arguments (e.g., a tuple key as an object)'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['contractAddress'], (resolved) =>
+            this.readOnlyTool.getMapEntry(resolved.contractAddress, resolved.contractName, resolved.mapName, resolved.key, 0)
+          );
         },
-        execute: async (params: ReadOnlyCallParams) => {
-          return await this.readOnlyTool.callReadOnlyFunction(params);
+      }),
+      defineTool({
+        name: 'get_contract_events',
+        description: 'Get the events of a contract, newest first, with print payloads decoded to JSON. Filter by event type, asset or topic; pass nextCursor back to page through older events.',
+        schema: z.object({
+          contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+          contractName: z.string().describe('Name of the contract'),
+          eventType: z
+            .union([z.enum(['print', 'stx', 'ft', 'nft', 'stx_lock']), z.array(z.enum(['print', 'stx', 'ft', 'nft', 'stx_lock']))])
+            .optional()
+            .describe('Only these event types: print (contract logs), stx, ft, nft or stx_lock'),
+          asset: z.string().optional().describe('Only events of this asset: "STX" or "address.contract-name::asset-name"'),
+          topic: z.string().optional().describe('Only print events with this topic (the payload\'s topic, event or action field)'),
+          limit: z.number().int().min(1).max(50).default(20).describe('Number of matching events to return'),
+          cursor: z.string().optional().describe('nextCursor from the previous page'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['contractAddress'], ({ contractAddress, contractName, ...filter }) =>
+            this.readOnlyTool.getContractEvents({ contractId: `${contractAddress}.${contractName}`, ...filter })
+          );
         },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'get_contract_source',
         description: 'Get the source code of a deployed contract',
-        parameters: {
-          type: 'object',
-          properties: {
-            contractAddress: {
-              type: 'string',
-              description: 'Address of the contract',
-            },
-            contractName: {
-              type: 'string',
-              description: 'Name of the contract',
-            },
-          },
-          required: ['contractAddress', 'contractName'],
-        },
-        execute: async (params: { contractAddress: string; contractName: string }) => {
-          return await this.contractCallTool.getContractSource(params.contractAddress, params.contractName);
+        schema: z.object({
+          contractAddress: z.string().describe('Address or BNS name of the contract deployer'),
+          contractName: z.string().describe('Name of the contract'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['contractAddress'], (resolved) =>
+            this.contractCallTool.getContractSource(resolved.contractAddress, resolved.contractName)
+          );
         },
-      } as any,
+      }),
 
       // Key management tools
-      {
+      defineTool({
         name: 'generate_key',
-        description: 'Generate a new random private/public key pair',
-        parameters: {
-          type: 'object',
-          properties: {
-            network: {
-              type: 'string',
-              enum: ['mainnet', 'testnet'],
-              description: 'Network to generate keys for',
-            },
-          },
-          required: ['network'],
-        },
-        execute: async (params: KeyGenerationParams) => {
-          return await this.keyManagementTool.generateRandomKey(params);
-        },
-      } as any,
-      {
-        name: 'import_key',
-        description: 'Import a private key and get corresponding public key and address',
-        parameters: {
-          type: 'object',
-          properties: {
-            privateKeyHex: {
-              type: 'string',
-              description: 'Private key in hex format',
-            },
-            network: {
-              type: 'string',
-              enum: ['mainnet', 'testnet'],
-              description: 'Network to import key for',
-            },
-          },
-          required: ['privateKeyHex', 'network'],
+        description: 'Generate a new random key and keep it as a named agent account. Returns the address and public key only.',
+        schema: z.object({
+          name: z.string().min(1).describe('Name for the new account'),
+        }),
+        execute: async (params) => {
+          try {
+            return { success: true, data: this.accounts.generate(params.name) };
+          } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to generate key' };
+          }
+        },
+      }),
+      defineTool({
+        name: 'list_accounts',
+        description: 'List the named accounts this agent can sign with (name, address and public key)',
+        schema: z.object({}),
+        execute: async () => {
+          return { success: true, data: this.accounts.list() };
+        },
+      }),
+      defineTool({
+        name: 'create_hd_wallet',
+        description: 'Create a new HD wallet from a fresh mnemonic and add its first accounts as "<name>/<index>". The mnemonic is kept by the agent and never returned.',
+        schema: z.object({
+          name: z.string().min(1).describe('Name for the new wallet'),
+          wordCount: z.union([z.literal(12), z.literal(24)]).default(24).describe('Mnemonic length in words'),
+          accounts: z.number().int().positive().max(50).default(1).describe('Number of accounts to derive'),
+        }),
+        execute: async (params) => {
+          const created = await this.createHDWallet(params.name, params);
+          if (!created.success || !created.data) {
+            return created;
+          }
+          const { mnemonic, ...wallet } = created.data;
+          return { success: true, data: wallet };
+        },
+      }),
+      defineTool({
+        name: 'derive_hd_accounts',
+        description: "Derive more accounts from an HD wallet (m/44'/5757'/0'/0/i), continuing after the last derived index by default",
+        schema: z.object({
+          wallet: z.string().describe('Name of the HD wallet'),
+          count: z.number().int().positive().max(50).default(1).describe('Number of accounts to derive'),
+          startIndex: z.number().int().min(0).optional().describe('First account index to derive'),
+        }),
+        execute: async (params) => {
+          return await this.deriveHDAccounts(params.wallet, params);
         },
-        execute: async (params: KeyImportParams) => {
-          return await this.keyManagementTool.importPrivateKey(params);
+      }),
+      defineTool({
+        name: 'discover_hd_accounts',
+        description: 'Scan an HD wallet for accounts with on-chain activity and add them to the agent',
+        schema: z.object({
+          wallet: z.string().describe('Name of the HD wallet'),
+          gapLimit: z.number().int().positive().max(20).default(5).describe('Stop after this many consecutive unused accounts'),
+        }),
+        execute: async (params) => {
+          return await this.discoverHDAccounts(params.wallet, params.gapLimit);
         },
-      } as any,
-      {
+      }),
+      defineTool({
+        name: 'export_xpub',
+        description: 'Export the extended public key (xpub) of an HD wallet for watch-only use',
+        schema: z.object({
+          wallet: z.string().describe('Name of the HD wallet'),
+        }),
+        execute: async (params) => {
+          return await this.exportXpub(params.wallet);
+        },
+      }),
+      defineTool({
+        name: 'derive_watch_only_addresses',
+        description: 'Derive account addresses from an xpub without any private key',
+        schema: z.object({
+          xpub: z.string().describe("Extended public key for m/44'/5757'/0'/0"),
+          startIndex: z.number().int().min(0).default(0).describe('First account index'),
+          count: z.number().int().positive().max(50).default(5).describe('Number of addresses to derive'),
+        }),
+        execute: async (params) => {
+          return await this.keyManagementTool.deriveAddressesFromXpub({
+            ...params,
+            network: StacksUtils.getNetworkName(this.network),
+          });
+        },
+      }),
+      ...(this.keystore ? this.createKeystoreTools() : []),
+      defineTool({
         name: 'validate_address',
         description: 'Validate a Stacks address format and determine its network',
-        parameters: {
-          type: 'object',
-          properties: {
-            address: {
-              type: 'string',
-              description: 'Stacks address to validate',
-            },
-          },
-          required: ['address'],
-        },
-        execute: async (params: { address: string }) => {
+        schema: z.object({
+          address: z.string().describe('Stacks address to validate'),
+        }),
+        execute: async (params) => {
           return await this.keyManagementTool.validateAddress(params.address);
         },
-      } as any,
+      }),
 
       // Multi-signature tools
-      {
+      defineTool({
         name: 'create_multisig_stx_transfer',
         description: 'Create an unsigned multi-signature STX transfer transaction',
-        parameters: {
-          type: 'object',
-          properties: {
-            recipients: {
-              type: 'string',
-              description: 'Recipient address',
-            },
-            amount: {
-              type: 'string',
-              description: 'Amount of STX to transfer',
-            },
-            memo: {
-              type: 'string',
-              description: 'Optional memo for the transaction',
-            },
-            numSignatures: {
-              type: 'number',
-              description: 'Number of signatures required',
-            },
-            publicKeys: {
-              type: 'array',
-              description: 'Array of public keys for multi-sig',
-            },
-          },
-          required: ['recipients', 'amount', 'numSignatures', 'publicKeys'],
+        schema: z.object({
+          recipients: z.string().describe('Recipient address or BNS name'),
+          amount: z.string().describe('Amount of STX to transfer'),
+          memo: z.string().optional().describe('Optional memo for the transaction'),
+          numSignatures: z.number().int().positive().describe('Number of signatures required'),
+          publicKeys: z.array(z.string()).describe('Array of public keys for multi-sig'),
+        }),
+        execute: async (params) => {
+          return await this.withResolvedNames(params, ['recipients'], (resolved) =>
+            this.multiSigTool.createUnsignedSTXTransfer(resolved)
+          );
         },
-        execute: async (params: MultiSigSTXTransferParams) => {
-          return await this.multiSigTool.createUnsignedSTXTransfer(params);
-        },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'sign_multisig_transaction',
         description: 'Sign a multi-signature transaction with a private key',
-        parameters: {
-          type: 'object',
-          properties: {
-            transactionHex: {
-              type: 'string',
-              description: 'Hex-encoded transaction to sign',
-            },
-            privateKey: {
-              type: 'string',
-              description: 'Private key to sign with',
-            },
-          },
-          required: ['transactionHex', 'privateKey'],
+        schema: z.object({
+          transactionHex: z.string().describe('Hex-encoded transaction to sign'),
+          account: accountParam,
+        }),
+        stateChanging: true,
+        summarize: (params) => ({
+          description: `Sign multi-signature transaction ${params.transactionHex.slice(0, 16)}…`,
+        }),
+        // The agent's signature lets the multi-sig account spend, so the
+        // policy checks what the transaction does
+        execute: async (params) => {
+          return await this.withSigner(params, async (signer, rest) => {
+            let action: PolicyAction;
+            try {
+              action = transactionPolicyAction('sign_multisig_transaction', deserializeTransaction(rest.transactionHex), this.network);
+            } catch (error) {
+              return { success: false, error: error instanceof Error ? error.message : 'Invalid transaction' };
+            }
+            return await this.enforceSpendingPolicy(action, undefined, () =>
+              this.multiSigTool.signTransaction({ ...rest, signer })
+            );
+          });
         },
-        execute: async (params: { transactionHex: string; privateKey: string }) => {
-          return await this.multiSigTool.signTransaction(params);
-        },
-      } as any,
+      }),
 
       // Sponsored transaction tools
-      {
+      defineTool({
         name: 'create_sponsored_stx_transfer',
         description: 'Create a sponsored STX transfer (origin pays no fee)',
-        parameters: {
-          type: 'object',
-          properties: {
-            originPrivateKey: {
-              type: 'string',
-              description: 'Private key of the origin (transaction creator)',
-            },
-            recipient: {
-              type: 'string',
-              description: 'Recipient address',
-            },
-            amount: {
-              type: 'string',
-              description: 'Amount of STX to transfer',
-            },
-            memo: {
-              type: 'string',
-              description: 'Optional memo for the transaction',
-            },
-          },
-          required: ['originPrivateKey', 'recipient', 'amount'],
+        schema: z.object({
+          account: accountParam,
+          recipient: z.string().describe('Recipient address or BNS name'),
+          amount: z.string().describe('Amount of STX to transfer'),
+          memo: z.string().optional().describe('Optional memo for the transaction'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => {
+          const recipient = await this.describeAddress(params.recipient);
+          return {
+            description: `Sign a sponsored transfer of ${params.amount} STX to ${recipient}`,
+            amount: `${params.amount} STX`,
+            recipient,
+            fee: 'Paid by the sponsor',
+          };
         },
-        execute: async (params: SponsoredSTXTransferParams) => {
-          return await this.sponsoredTxTool.createSponsoredSTXTransfer(params);
+        execute: async (params) => {
+          // The origin of a sponsored transfer pays no fee
+          return await this.withResolvedNames(params, ['recipient'], (resolved) =>
+            this.withSigner(resolved, (signer, rest) =>
+              this.enforceSpendingPolicy(
+                { tool: 'create_sponsored_stx_transfer', amount: rest.amount, recipient: rest.recipient, fee: '0' },
+                undefined,
+                () => this.sponsoredTxTool.createSponsoredSTXTransfer({ ...rest, originSigner: signer })
+              )
+            )
+          );
         },
-      } as any,
-      {
+      }),
+      defineTool({
         name: 'sponsor_transaction',
         description: 'Sponsor a transaction by paying the fee',
-        parameters: {
-          type: 'object',
-          properties: {
-            transactionHex: {
-              type: 'string',
-              description: 'Hex-encoded transaction to sponsor',
-            },
-            sponsorPrivateKey: {
-              type: 'string',
-              description: 'Private key of the sponsor (fee payer)',
-            },
-            fee: {
-              type: 'string',
-              description: 'Fee amount to pay',
-            },
-            sponsorNonce: {
-              type: 'number',
-              description: 'Optional sponsor nonce override',
-            },
-          },
-          required: ['transactionHex', 'sponsorPrivateKey', 'fee'],
+        schema: z.object({
+          transactionHex: z.string().describe('Hex-encoded transaction to sponsor'),
+          account: accountParam,
+          fee: z.string().describe('Fee amount to pay'),
+          sponsorNonce: z.number().int().nonnegative().optional().describe('Optional sponsor nonce override'),
+        }),
+        stateChanging: true,
+        summarize: (params) => ({
+          description: `Sponsor transaction ${params.transactionHex.slice(0, 16)}… by paying its fee`,
+          fee: `${params.fee} STX`,
+        }),
+        execute: async (params) => {
+          return await this.withSigner(params, (signer, rest) =>
+            this.enforceSpendingPolicy(
+              { tool: 'sponsor_transaction', fee: params.fee },
+              undefined,
+              () => this.sponsoredTxTool.sponsorTransaction({ ...rest, sponsorSigner: signer })
+            )
+          );
+        },
+      }),
+
+      // Stuck transaction tools
+      defineTool({
+        name: 'speed_up_transaction',
+        description: 'Speed up a pending transaction by re-signing it with the same nonce and a higher fee',
+        schema: z.object({
+          account: accountParam,
+          txId: z.string().describe('ID of the pending transaction'),
+          fee: z.string().optional().describe('New fee in STX, higher than the original (defaults to 25% more)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => ({
+          description: `Replace pending transaction ${params.txId} with the same transaction at a higher fee`,
+          fee: await this.describeFee(params.fee, () =>
+            this.withSigner(params, (signer, rest) =>
+              this.replaceByFeeTool.estimateReplacementFee({ ...rest, signer })
+            )
+          ),
+        }),
+        execute: async (params) => {
+          return await this.speedUpTransaction(params);
+        },
+      }),
+      defineTool({
+        name: 'cancel_transaction',
+        description: 'Cancel a pending transaction by replacing it with a 0 STX transfer to yourself at the same nonce and a higher fee',
+        schema: z.object({
+          account: accountParam,
+          txId: z.string().describe('ID of the pending transaction'),
+          fee: z.string().optional().describe('Fee in STX, higher than the original (defaults to 25% more)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => ({
+          description: `Cancel pending transaction ${params.txId}`,
+          fee: await this.describeFee(params.fee, () =>
+            this.withSigner(params, (signer, rest) =>
+              this.replaceByFeeTool.estimateReplacementFee({ ...rest, signer })
+            )
+          ),
+        }),
+        execute: async (params) => {
+          return await this.cancelTransaction(params);
+        },
+      }),
+
+      // Stacking tools
+      defineTool({
+        name: 'get_pox_info',
+        description: 'Show the current and next stacking (PoX) reward cycle, the minimum amount to stack solo and when the next cycle starts',
+        schema: z.object({}),
+        execute: async () => {
+          return await this.getPoxInfo();
+        },
+      }),
+      defineTool({
+        name: 'check_stacking_eligibility',
+        description: 'Check whether an address or agent account can stack an amount of STX in the next cycle, solo or by delegating to a pool',
+        schema: z.object({
+          address: z.string().optional().describe('Stacks address or BNS name to check'),
+          account: accountParam.describe('Agent account to check when no address is given (defaults to "default")'),
+          amount: z.string().describe('Amount of STX to stack'),
+          mode: z.enum(['solo', 'delegate']).default('delegate').describe('Stack solo or delegate to a pool'),
+        }),
+        execute: async (params) => {
+          return await this.checkStackingEligibility(params);
+        },
+      }),
+      defineTool({
+        name: 'get_stacking_status',
+        description: 'Show the locked (stacked) STX of an address or agent account, when they unlock, the reward cycles they earn in and any pool delegation',
+        schema: z.object({
+          address: z.string().optional().describe('Stacks address or BNS name to inspect'),
+          account: accountParam.describe('Agent account to inspect when no address is given (defaults to "default")'),
+        }),
+        execute: async (params) => {
+          return await this.getStackingStatus(params);
+        },
+      }),
+      defineTool({
+        name: 'delegate_stx',
+        description: 'Delegate STX to a stacking pool, allowing the pool to lock up to the amount for stacking. The STX are not sent anywhere.',
+        schema: z.object({
+          account: accountParam,
+          delegateTo: z.string().describe('Address, BNS name or contract of the pool operator'),
+          amount: z.string().describe('Maximum amount of STX the pool may lock'),
+          untilBurnHeight: z.number().int().positive().optional().describe('Bitcoin block height at which the delegation expires (defaults to until revoked)'),
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => {
+          const pool = await this.describeAddress(params.delegateTo);
+          const expiry = params.untilBurnHeight ? `until burn height ${params.untilBurnHeight}` : 'until revoked';
+          return {
+            description: `Delegate up to ${params.amount} STX to ${pool} ${expiry}. The pool can lock this amount for stacking; it stays in your wallet.`,
+            amount: `${params.amount} STX (delegated, not sent)`,
+            recipient: pool,
+            fee: await this.describeFee(params.fee, () =>
+              this.withResolvedNames(params, ['delegateTo'], (resolved) =>
+                this.withSigner(resolved, (signer, rest) =>
+                  this.stackingTool.estimateDelegateStxFee({ ...rest, signer })
+                )
+              )
+            ),
+          };
+        },
+        execute: async (params) => {
+          return await this.delegateStx(params);
+        },
+      }),
+      defineTool({
+        name: 'revoke_delegation',
+        description: 'Revoke the stacking delegation of an agent account. STX a pool has already locked stay locked until they unlock.',
+        schema: z.object({
+          account: accountParam,
+          fee: z.string().optional().describe('Optional custom fee (in STX)'),
+        }),
+        stateChanging: true,
+        summarize: async (params) => ({
+          description: `Revoke the stacking delegation of account '${params.account ?? 'default'}'`,
+          fee: await this.describeFee(params.fee, () =>
+            this.withSigner(params, (signer, rest) =>
+              this.stackingTool.estimateRevokeDelegationFee({ ...rest, signer })
+            )
+          ),
+        }),
+        execute: async (params) => {
+          return await this.revokeDelegation(params);
+        },
+      }),
+    ];
+  }
+
+  // Keystore tools use the password from config.keystore, so it never
+  // passes through the model. Password rotation is a direct method only.
+  private createKeystoreTools(): AgentTool[] {
+    const keystoreCall = async <T>(run: () => Promise<T>, fallback: string): Promise<ToolResult<T>> => {
+      try {
+        return { success: true, data: await run() };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : fallback };
+      }
+    };
+
+    return [
+      defineTool({
+        name: 'create_keystore_account',
+        description: 'Generate a new key, save it encrypted in the keystore and unlock it as a named account',
+        schema: z.object({
+          label: z.string().min(1).describe('Label for the new keystore account'),
+        }),
+        execute: async (params) => {
+          return await keystoreCall(() => this.createKeystoreAccount(params.label), 'Failed to create keystore account');
+        },
+      }),
+      defineTool({
+        name: 'list_keystore_accounts',
+        description: 'List the accounts saved in the encrypted keystore and whether each is locked',
+        schema: z.object({}),
+        execute: async () => {
+          return await keystoreCall(() => this.listKeystoreAccounts(), 'Failed to list keystore accounts');
+        },
+      }),
+      defineTool({
+        name: 'label_keystore_account',
+        description: 'Change the label of a keystore account',
+        schema: z.object({
+          label: z.string().describe('Current label of the account'),
+          newLabel: z.string().min(1).describe('New label for the account'),
+        }),
+        execute: async (params) => {
+          return await keystoreCall(
+            () => this.labelKeystoreAccount(params.label, params.newLabel),
+            'Failed to relabel keystore account'
+          );
+        },
+      }),
+      defineTool({
+        name: 'unlock_keystore_account',
+        description: 'Unlock a keystore account so the agent can sign with it under its label',
+        schema: z.object({
+          label: z.string().describe('Label of the keystore account'),
+        }),
+        execute: async (params) => {
+          return await keystoreCall(() => this.unlockKeystoreAccount(params.label), 'Failed to unlock keystore account');
         },
-        execute: async (params: SponsorTransactionParams) => {
-          return await this.sponsoredTxTool.sponsorTransaction(params);
+      }),
+      defineTool({
+        name: 'lock_keystore_account',
+        description: 'Lock a keystore account, removing its decrypted key from memory',
+        schema: z.object({
+          label: z.string().describe('Label of the keystore account'),
+        }),
+        execute: async (params) => {
+          return await keystoreCall(() => this.lockKeystoreAccount(params.label), 'Failed to lock keystore account');
         },
-      } as any,
+      }),
+      defineTool({
+        name: 'delete_keystore_account',
+        description: 'Permanently delete an account from the keystore. Funds held by it become unreachable without a backup.',
+        schema: z.object({
+          label: z.string().describe('Label of the keystore account'),
+        }),
+        stateChanging: true,
+        summarize: (params) => ({
+          description: `Permanently delete keystore account "${params.label}"`,
+        }),
+        execute: async (params) => {
+          return await keystoreCall(() => this.deleteKeystoreAccount(params.label), 'Failed to delete keystore account');
+        },
+      }),
     ];
   }
 
+  // Fee line for confirmation summaries: the explicit fee if one was given,
+  // otherwise a best-effort estimate
+  private async describeFee(fee: string | undefined, estimate: () => Promise<ToolResult<string>>): Promise<string> {
+    if (fee) {
+      return `${fee} STX`;
+    }
+
+    try {
+      const result = await estimate();
+      return result.success && result.data ? `${result.data} STX (estimated)` : 'Unknown';
+    } catch {
+      return 'Unknown';
+    }
+  }
+
+  getSpendingPolicy(): SpendingPolicy | undefined {
+    return this.spendingPolicy;
+  }
+
+  getNonceManager(): NonceManager {
+    return this.nonceManager;
+  }
+
+  getFeeEstimator(): FeeEstimator {
+    return this.feeEstimator;
+  }
+
+  getTransactionTracker(): TransactionTracker {
+    return this.transactionTracker;
+  }
+
+  // Subscribe to new contract events, e.g. to trigger agent actions
+  getContractEventWatcher(): ContractEventWatcher {
+    return this.contractEventWatcher;
+  }
+
+  getBnsResolver(): BnsResolver {
+    return this.bnsResolver;
+  }
+
+  // Signing tools run through the spending policy before anything is signed.
+  // When the policy caps fees and no fee was given, the estimate is checked
+  // and then used as the transaction fee so the signed fee matches.
+  private async enforceSpendingPolicy(
+    action: PolicyAction,
+    estimateFee: (() => Promise<ToolResult<string>>) | undefined,
+    run: (fee?: string) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    const policy = this.spendingPolicy;
+    if (!policy) {
+      return await run(action.fee);
+    }
+
+    let fee = action.fee;
+    if (fee === undefined && policy.limitsFees && estimateFee) {
+      const estimate = await estimateFee();
+      fee = estimate.success ? estimate.data : undefined;
+    }
+
+    // The amount counts from the check on, so concurrent signing tools cannot
+    // both pass against the same daily total
+    const reservation = policy.reserve({ ...action, fee });
+    if (reservation.violation) {
+      return policyViolationResult(reservation.violation);
+    }
+
+    let result: ToolResult;
+    try {
+      result = await run(fee);
+    } catch (error) {
+      reservation.release();
+      throw error;
+    }
+    if (!result.success) {
+      reservation.release();
+    }
+    return result;
+  }
+
+  // Arguments for confirmation summaries: ClarityValues in Clarity notation,
+  // JSON arguments as given
+  private describeArgs(args: any[] | Record<string, any>): string {
+    const describe = (value: any) =>
+      isClarityValue(value)
+        ? cvToString(value)
+        : JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+    const entries = Array.isArray(args)
+      ? args.map(describe)
+      : Object.entries(args).map(([name, value]) => `${name}: ${describe(value)}`);
+    return entries.length ? `(${entries.join(', ')})` : 'no arguments';
+  }
+
+  // STX a contract call can send from the signer's wallet, as the spending
+  // policy sees it. Post-conditions are resolved first (given or pinned), and
+  // the mode defaults as in StacksContractCallTool.
+  private async stxSentByCall(
+    call: Pick<ContractCallParams, 'postConditions' | 'postConditionMode'>,
+    signer: Signer
+  ): Promise<Pick<PolicyAction, 'amount' | 'amountUnbounded'>> {
+    const postConditions = call.postConditions ?? [];
+    const mode = call.postConditionMode ?? (postConditions.length ? 'deny' : 'allow');
+    return postConditionedAmount(postConditions, await signer.getAddress(), mode);
+  }
+
+  // Simulates a call that asks for inferred post-conditions and returns its
+  // params with them pinned in deny mode, so the fee estimate, policy check
+  // and call all use the same ones instead of simulating again. Other calls
+  // come back unchanged.
+  private async pinInferredPostConditions<P extends Omit<ContractCallParams, 'signer' | 'fee' | 'nonce'> & SignerSelection & { fee?: string }>(
+    params: P
+  ): Promise<ToolResult<P>> {
+    if (!params.inferPostConditions || params.postConditions?.length) {
+      return { success: true, data: params };
+    }
+
+    const simulated = await this.withResolvedNames(params, ['contractAddress'], (resolved) =>
+      this.withSigner(resolved, (signer, rest) => this.contractCallTool.simulateCall({ ...rest, signer }))
+    );
+    if (!simulated.success || !simulated.data) {
+      return { success: false, error: `Could not simulate the call: ${simulated.error}` };
+    }
+
+    const { simulation, postConditions } = simulated.data;
+    if (!simulation.success) {
+      return { success: false, error: `The simulated call returned ${simulation.result}; it will not be sent` };
+    }
+    // Pinned params are kept in the paused conversation, so they must be JSON
+    return {
+      success: true,
+      data: {
+        ...params,
+        postConditions: postConditions.map(toJsonPostCondition),
+        postConditionMode: 'deny',
+        inferPostConditions: false,
+      },
+    };
+  }
+
+  // Signing goes through here. Tools name an account; direct methods may also
+  // pass a signer or a raw key. The selection is stripped from the params so
+  // only the resolved signer reaches the tool.
+  private async withSigner<P extends SignerSelection>(
+    params: P,
+    run: (signer: Signer, rest: Omit<P, keyof SignerSelection>) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    const { signer, fromPrivateKey, account, ...rest } = params;
+
+    let resolved: Signer;
+    try {
+      resolved = signer
+        ?? (fromPrivateKey ? new LocalSigner(fromPrivateKey, this.network) : this.accounts.resolve(account));
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'No signer available' };
+    }
+    return await run(resolved, rest);
+  }
+
+  // Address parameters also accept BNS names. They are resolved to the
+  // owner's address before anything else, so tools, signing and the spending
+  // policy only ever see principals.
+  private async withResolvedNames<P extends object>(
+    params: P,
+    fields: (keyof P)[],
+    run: (resolved: P) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    const resolved = { ...params };
+    try {
+      for (const field of fields) {
+        const value = resolved[field];
+        if (typeof value === 'string') {
+          resolved[field] = (await this.bnsResolver.resolveAddress(value)) as P[keyof P];
+        }
+      }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to resolve BNS name' };
+    }
+    return await run(resolved);
+  }
+
+  // Read-only tools take an explicit address (or BNS name), or else inspect
+  // an agent account
+  private async withAddressOrAccount(
+    params: { address?: string; account?: string },
+    run: (address: string) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    let address: string;
+    try {
+      address = params.address
+        ? await this.bnsResolver.resolveAddress(params.address)
+        : await this.accounts.resolve(params.account).getAddress();
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'No address available' };
+    }
+    return await run(address);
+  }
+
+  // "alice.btc (SP…)" for a name, so a confirmation shows where funds go
+  private async describeAddress(value: string): Promise<string> {
+    if (!isBnsName(value)) {
+      return value;
+    }
+    try {
+      return `${value} (${await this.bnsResolver.resolveName(value)})`;
+    } catch (error) {
+      return `${value} (${error instanceof Error ? error.message : 'unresolved'})`;
+    }
+  }
+
   // Individual tool methods for direct access by name
   async queryWallet(params: QueryParams) {
-    return await this.queryTool.queryWallet(params);
+    return await this.withResolvedNames(params, ['address'], (resolved) => this.queryTool.queryWallet(resolved));
   }
 
   async getBalance(params: { address: string }) {
-    return await this.queryTool.getAccountBalance(params.address);
+    return await this.withResolvedNames(params, ['address'], (resolved) =>
+      this.queryTool.getAccountBalance(resolved.address)
+    );
   }
 
-  async transferSTX(params: TransferParams) {
-    // Use initialized private key if no private key provided in params
-    const transferParams = {
-      ...params,
-      fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
-    };
-    
-    if (!transferParams.fromPrivateKey) {
-      return {
-        success: false,
-        error: 'No private key provided. Either initialize a private key in the agent config or provide one in the transfer parameters.'
-      };
+  async resolveName(name: string): Promise<ToolResult<BnsNameInfo>> {
+    try {
+      const address = await this.bnsResolver.resolveName(name);
+      return { success: true, data: { name: name.trim().toLowerCase(), address } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to resolve BNS name' };
     }
-    
-    return await this.transferTool.transferSTX(transferParams);
   }
 
-  async estimateTransferFee(params: Omit<TransferParams, 'fee'>) {
-    // Use initialized private key if no private key provided in params
-    const estimateParams = {
-      ...params,
-      fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
-    };
-    
-    if (!estimateParams.fromPrivateKey) {
-      return {
-        success: false,
-        error: 'No private key provided. Either initialize a private key in the agent config or provide one in the parameters.'
-      };
+  async lookupName(address: string): Promise<ToolResult<BnsNameInfo>> {
+    try {
+      return { success: true, data: { name: await this.bnsResolver.lookupName(address), address } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to look up BNS name' };
     }
-    
-    return await this.transferTool.estimateTransferFee(estimateParams);
   }
 
-  async validateTransfer(params: Omit<TransferParams, 'fee' | 'memo'>) {
-    // Use initialized private key if no private key provided in params
-    const validateParams = {
-      ...params,
-      fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
-    };
-    
-    if (!validateParams.fromPrivateKey) {
-      return {
-        success: false,
-        error: 'No private key provided. Either initialize a private key in the agent config or provide one in the parameters.'
-      };
+  async transferSTX(params: Omit<TransferParams, 'signer'> & SignerSelection) {
+    return await this.withResolvedNames(params, ['toAddress'], (resolved) =>
+      this.withSigner(resolved, async (signer, transfer) => {
+        // Read the amount once, so the policy checks what is signed
+        let amount: bigint;
+        try {
+          amount = StacksUtils.toMicroSTX(transfer.amount);
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : 'Invalid amount' };
+        }
+        return await this.enforceSpendingPolicy(
+          {
+            tool: 'transfer_stx',
+            amount: StacksUtils.formatSTX(amount.toString()),
+            recipient: transfer.toAddress,
+            fee: transfer.fee,
+          },
+          () => this.transferTool.estimateTransferFee({ ...transfer, amount, signer }),
+          (fee) => this.transferTool.transferSTX({ ...transfer, amount, signer, fee })
+        );
+      })
+    );
+  }
+
+  async estimateTransferFee(params: Omit<TransferParams, 'signer' | 'fee'> & SignerSelection) {
+    return await this.withResolvedNames(params, ['toAddress'], (resolved) =>
+      this.withSigner(resolved, (signer, transfer) =>
+        this.transferTool.estimateTransferFee({ ...transfer, signer })
+      )
+    );
+  }
+
+  async validateTransfer(params: Omit<TransferParams, 'signer' | 'fee' | 'memo'> & SignerSelection) {
+    return await this.withResolvedNames(params, ['toAddress'], (resolved) =>
+      this.withSigner(resolved, (signer, transfer) =>
+        this.transferTool.validateTransfer({ ...transfer, signer })
+      )
+    );
+  }
+
+  // Token amounts are not STX, so the policy checks only the recipient,
+  // the token contract and the fee
+  async transferToken(params: Omit<TokenTransferParams, 'signer'> & SignerSelection) {
+    return await this.withResolvedNames(params, ['recipient'], (resolved) =>
+      this.withSigner(resolved, (signer, transfer) =>
+        this.enforceSpendingPolicy(
+          {
+            tool: 'transfer_token',
+            recipient: transfer.recipient,
+            contract: `${transfer.contractId}::transfer`,
+            fee: transfer.fee,
+          },
+          () => this.fungibleTokenTool.estimateTokenTransferFee({ ...transfer, signer }),
+          (fee) => this.fungibleTokenTool.transferToken({ ...transfer, signer, fee })
+        )
+      )
+    );
+  }
+
+  async getTokenBalances(address: string) {
+    return await this.withResolvedNames({ address }, ['address'], (resolved) =>
+      this.fungibleTokenTool.getTokenBalances(resolved.address)
+    );
+  }
+
+  async transferNFT(params: Omit<NFTTransferParams, 'signer'> & SignerSelection) {
+    return await this.withResolvedNames(params, ['recipient'], (resolved) =>
+      this.withSigner(resolved, (signer, transfer) =>
+        this.enforceSpendingPolicy(
+          {
+            tool: 'transfer_nft',
+            recipient: transfer.recipient,
+            contract: `${transfer.contractId}::transfer`,
+            fee: transfer.fee,
+          },
+          () => this.nftTool.estimateNFTTransferFee({ ...transfer, signer }),
+          (fee) => this.nftTool.transferNFT({ ...transfer, signer, fee })
+        )
+      )
+    );
+  }
+
+  async listNFTs(params: ListNFTsParams) {
+    return await this.withResolvedNames(params, ['address'], (resolved) => this.nftTool.listNFTs(resolved));
+  }
+
+  async getSwapQuote(params: SwapQuoteParams) {
+    return await this.swapTool.getSwapQuote(params);
+  }
+
+  // Nothing is signed. The spending policy is checked but nothing is
+  // recorded, since nothing is broadcast.
+  async dryRunSwap(params: Omit<SwapParams, 'signer'> & SignerSelection) {
+    return await this.withSigner(params, async (signer, swap) => {
+      const result = await this.swapTool.dryRunSwap({ ...swap, signer });
+      if (!result.success || !result.data) {
+        return result;
+      }
+
+      const { quote, fee } = result.data;
+      const violation = this.spendingPolicy?.evaluate({
+        tool: 'swap_tokens',
+        amount: quote.tokenIn === 'STX' ? quote.amountIn : undefined,
+        contract: quote.contract,
+        fee,
+      });
+      return violation ? policyViolationResult(violation) : result;
+    });
+  }
+
+  // The swap is quoted once, so the policy checks the contract that will
+  // actually be called and the fee estimate and swap use the same quote. Only
+  // STX input counts as STX spent.
+  async swapTokens(params: Omit<SwapParams, 'signer'> & SignerSelection) {
+    const plan = await this.swapTool.planSwap(params);
+    if (!plan.success || !plan.data) {
+      return { success: false, error: plan.error };
     }
-    
-    return await this.transferTool.validateTransfer(validateParams);
+    const planned = plan.data;
+    const { dex, contract, tokenIn, amountIn } = planned.quote;
+
+    return await this.withSigner({ ...params, dex }, (signer, swap) =>
+      this.enforceSpendingPolicy(
+        {
+          tool: 'swap_tokens',
+          amount: tokenIn === 'STX' ? amountIn : undefined,
+          contract,
+          fee: swap.fee,
+        },
+        () => this.swapTool.estimateSwapFee({ ...swap, signer }, planned),
+        (fee) => this.swapTool.swap({ ...swap, signer, fee }, planned)
+      )
+    );
   }
 
-  async getSwapQuote(params: SwapParams) {
-    const swapParams = {
-      ...params,
-      fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
-    };
+  // Replace a pending transaction at the same nonce. Only the fee is spent,
+  // so the spending policy checks it like any other fee.
+  async speedUpTransaction(params: Omit<ReplaceTransactionParams, 'signer'> & SignerSelection) {
+    return await this.withSigner(params, (signer, replacement) =>
+      this.enforceSpendingPolicy(
+        { tool: 'speed_up_transaction', fee: replacement.fee },
+        () => this.replaceByFeeTool.estimateReplacementFee({ ...replacement, signer }),
+        (fee) => this.replaceByFeeTool.speedUpTransaction({ ...replacement, signer, fee })
+      )
+    );
+  }
 
-    if (!swapParams.fromPrivateKey) {
-      return {
-        success: false,
-        error: 'No private key provided. Either initialize a private key in the agent config or provide one in the parameters.'
-      };
+  async cancelTransaction(params: Omit<ReplaceTransactionParams, 'signer'> & SignerSelection) {
+    return await this.withSigner(params, (signer, replacement) =>
+      this.enforceSpendingPolicy(
+        { tool: 'cancel_transaction', fee: replacement.fee },
+        () => this.replaceByFeeTool.estimateReplacementFee({ ...replacement, signer }),
+        (fee) => this.replaceByFeeTool.cancelTransaction({ ...replacement, signer, fee })
+      )
+    );
+  }
+
+  async getPoxInfo() {
+    return await this.stackingTool.getPoxInfo();
+  }
+
+  async checkStackingEligibility(params: { address?: string; account?: string; amount: string; mode?: StackingMode }) {
+    return await this.withAddressOrAccount(params, (address) =>
+      this.stackingTool.checkStackingEligibility({ address, amount: params.amount, mode: params.mode })
+    );
+  }
+
+  async getStackingStatus(params: { address?: string; account?: string } = {}) {
+    return await this.withAddressOrAccount(params, (address) => this.stackingTool.getStackingStatus(address));
+  }
+
+  // Delegating sends no STX, so the policy checks the pool as the recipient,
+  // the PoX contract and the fee
+  async delegateStx(params: Omit<DelegateStxParams, 'signer'> & SignerSelection) {
+    const pox = await this.stackingTool.getPoxInfo();
+    if (!pox.success || !pox.data) {
+      return { success: false, error: pox.error };
     }
+    const poxContract = pox.data.contractId;
 
-    return await this.swapTool.getSwapQuote(swapParams);
+    return await this.withResolvedNames(params, ['delegateTo'], (resolved) =>
+      this.withSigner(resolved, (signer, delegation) =>
+        this.enforceSpendingPolicy(
+          {
+            tool: 'delegate_stx',
+            recipient: delegation.delegateTo,
+            contract: `${poxContract}::delegate-stx`,
+            fee: delegation.fee,
+          },
+          () => this.stackingTool.estimateDelegateStxFee({ ...delegation, signer }),
+          (fee) => this.stackingTool.delegateStx({ ...delegation, signer, fee })
+        )
+      )
+    );
   }
 
-  async swapSTXForXBTC(params: SwapParams) {
-    const swapParams = {
-      ...params,
-      fromPrivateKey: params.fromPrivateKey || this.initializedKey?.privateKey || params.fromPrivateKey
-    };
+  async revokeDelegation(params: Omit<RevokeDelegationParams, 'signer'> & SignerSelection = {}) {
+    const pox = await this.stackingTool.getPoxInfo();
+    if (!pox.success || !pox.data) {
+      return { success: false, error: pox.error };
+    }
+    const poxContract = pox.data.contractId;
 
-    if (!swapParams.fromPrivateKey) {
-      return {
-        success: false,
-        error: 'No private key provided. Either initialize a private key in the agent config or provide one in the parameters.'
-      };
+    return await this.withSigner(params, (signer, revocation) =>
+      this.enforceSpendingPolicy(
+        { tool: 'revoke_delegation', contract: `${poxContract}::revoke-delegate-stx`, fee: revocation.fee },
+        () => this.stackingTool.estimateRevokeDelegationFee({ ...revocation, signer }),
+        (fee) => this.stackingTool.revokeDelegation({ ...revocation, signer, fee })
+      )
+    );
+  }
+
+  // HD wallets. The mnemonic stays with the agent; derived accounts are added
+  // as "<wallet>/<index>" and sign like any other account.
+  async createHDWallet(
+    name: string,
+    options: { wordCount?: 12 | 24; passphrase?: string; accounts?: number } = {}
+  ): Promise<ToolResult<{ wallet: string; mnemonic: string; accounts: HDAccountInfo[] }>> {
+    const generated = await this.keyManagementTool.generateMnemonic({ wordCount: options.wordCount });
+    if (!generated.success || !generated.data) {
+      return { success: false, error: generated.error };
+    }
+
+    const mnemonic = generated.data.mnemonic;
+    const imported = await this.importMnemonic(name, mnemonic, options);
+    if (!imported.success || !imported.data) {
+      return { success: false, error: imported.error };
+    }
+    return { success: true, data: { ...imported.data, mnemonic } };
+  }
+
+  // Import an existing wallet, e.g. one created in Leather or Xverse. With
+  // discover set, every account with on-chain activity is added.
+  async importMnemonic(
+    name: string,
+    mnemonic: string,
+    options: { passphrase?: string; accounts?: number; discover?: boolean } = {}
+  ): Promise<ToolResult<{ wallet: string; accounts: HDAccountInfo[] }>> {
+    try {
+      const valid = await this.keyManagementTool.validateMnemonic(mnemonic);
+      if (!valid.data) {
+        throw new Error('Invalid mnemonic phrase');
+      }
+      this.accounts.addWallet(name, mnemonic, options.passphrase);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to import mnemonic' };
     }
 
-    return await this.swapTool.swapSTXForXBTC(swapParams);
+    const derived = options.discover
+      ? await this.discoverHDAccounts(name)
+      : await this.deriveHDAccounts(name, { count: options.accounts ?? 1 });
+    if (!derived.success || !derived.data) {
+      this.accounts.removeWallet(name);
+      return { success: false, error: derived.error };
+    }
+    return { success: true, data: { wallet: name, accounts: derived.data } };
+  }
+
+  async deriveHDAccounts(
+    wallet: string,
+    options: { count?: number; startIndex?: number } = {}
+  ): Promise<ToolResult<HDAccountInfo[]>> {
+    try {
+      const derived = await this.keyManagementTool.deriveChildKeys({
+        ...this.accounts.getWallet(wallet),
+        network: StacksUtils.getNetworkName(this.network),
+        startIndex: options.startIndex ?? this.accounts.nextWalletIndex(wallet),
+        count: options.count ?? 1,
+      });
+      if (!derived.success || !derived.data) {
+        return { success: false, error: derived.error };
+      }
+      return { success: true, data: this.addHDAccounts(wallet, derived.data) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to derive accounts' };
+    }
+  }
+
+  // Adds the used accounts, or account 0 when the wallet has no activity yet
+  async discoverHDAccounts(wallet: string, gapLimit?: number): Promise<ToolResult<HDAccountInfo[]>> {
+    try {
+      const discovered = await this.keyManagementTool.discoverAccounts({
+        ...this.accounts.getWallet(wallet),
+        network: StacksUtils.getNetworkName(this.network),
+        gapLimit,
+      });
+      if (!discovered.success || !discovered.data) {
+        return { success: false, error: discovered.error };
+      }
+      if (discovered.data.accounts.length === 0) {
+        return await this.deriveHDAccounts(wallet, { startIndex: 0, count: 1 });
+      }
+      return { success: true, data: this.addHDAccounts(wallet, discovered.data.accounts) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to discover accounts' };
+    }
+  }
+
+  async exportXpub(wallet: string): Promise<ToolResult<{ xpub: string; path: string }>> {
+    try {
+      return await this.keyManagementTool.exportXpub(this.accounts.getWallet(wallet));
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to export xpub' };
+    }
+  }
+
+  // For backups only; never pass the result to the model
+  exportMnemonic(wallet: string): string {
+    return this.accounts.getWallet(wallet).mnemonic;
+  }
+
+  removeHDWallet(wallet: string): boolean {
+    return this.accounts.removeWallet(wallet);
+  }
+
+  private addHDAccounts(wallet: string, keys: HDKeyInfo[]): HDAccountInfo[] {
+    return keys.map((key) => {
+      const name = hdAccountName(wallet, key.index);
+      const existing = this.accounts.describe(name);
+      if (existing && existing.address !== key.address) {
+        throw new Error(`Account '${name}' already exists with a different key`);
+      }
+
+      const account = existing ?? this.accounts.add(name, key.privateKey);
+      return { ...account, wallet, index: key.index, path: key.path };
+    });
   }
 
   async executeWorkflow(workflow: string, params: any) {
@@ -683,23 +1642,25 @@ export class StacksWalletAgent extends StacksAgent {
         return await queryTool.execute(params);
       }
     } else if (workflow === 'simple_transfer') {
-      const validateTool = tools.find(t => t.name === 'validate_transfer');
-      const transferTool = tools.find(t => t.name === 'transfer_stx');
-      
-      if (validateTool && transferTool) {
-        const validation = await validateTool.execute(params);
-        if (validation.success && validation.data) {
-          return await transferTool.execute(params);
-        } else {
-          return { success: false, error: 'Transfer validation failed' };
-        }
+      // Workflows are called from code with a key, so use the direct methods
+      // rather than the account-based tools
+      const validation = await this.validateTransfer(params);
+      if (validation.success && validation.data) {
+        return await this.transferSTX(params);
+      } else {
+        return { success: false, error: 'Transfer validation failed' };
       }
     }
     
     return { success: false, error: 'Unknown workflow' };
   }
 
+  // Results often end up in a prompt, so secrets are stripped as in chat()
   async executePrompt(prompt: string): Promise<any> {
+    return this.accounts.redact(await this.runPrompt(prompt));
+  }
+
+  private async runPrompt(prompt: string): Promise<any> {
     try {
       // Match prompt to relevant tools and extract parameters
       const { tools: relevantTools, parameters, error } = await this.matchPromptToTools(prompt);
@@ -721,12 +1682,22 @@ export class StacksWalletAgent extends StacksAgent {
       // If only one tool is relevant, execute it with extracted parameters
       if (relevantTools.length === 1) {
         const tool = relevantTools[0];
-        
-        // Add initialized private key to parameters if available and needed
-        if (this.initializedKey && (tool.name === 'transfer_stx' || tool.name === 'estimate_transfer_fee' || tool.name === 'validate_transfer')) {
-          parameters.fromPrivateKey = parameters.fromPrivateKey || this.initializedKey.privateKey;
+
+        // There is no confirmation step here, so state-changing tools are only
+        // summarized; chat() runs them once approved
+        if (tool.stateChanging && this.requireConfirmation) {
+          return {
+            success: false,
+            error: `${tool.name} signs or broadcasts a transaction and needs confirmation. Use chat() to review and approve it.`,
+            data: {
+              tool: tool.name,
+              summary: await tool.summarize(parameters),
+              extractedParameters: parameters
+            }
+          };
         }
-        
+
+        // Signing tools fall back to the default account when none is named
         return await tool.execute(parameters);
       }
 
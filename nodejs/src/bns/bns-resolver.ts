@@ -0,0 +1,98 @@
+import { StacksNetwork } from '@stacks/network';
+import { validateStacksAddress } from '@stacks/transactions';
+
+export interface BnsResolverOptions {
+  cacheTtlMs?: number; // how long resolved names and addresses are reused (default 5 minutes)
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// name.namespace, optionally behind a subdomain (bob.alice.btc)
+const BNS_NAME = /^([a-z0-9_-]+\.){1,2}[a-z0-9_-]+$/;
+
+// True for a BNS name such as "alice.btc"; false for addresses and for
+// contract ids, whose first part is an address
+export function isBnsName(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  return BNS_NAME.test(normalized) && !validateStacksAddress(normalized.split('.')[0].toUpperCase());
+}
+
+// Resolves BNS names to the owner's address and addresses back to their
+// primary name, through the API's /v1/names and /v1/addresses endpoints.
+// Both directions are cached, including addresses that own no name.
+export class BnsResolver {
+  private network: StacksNetwork;
+  private cacheTtlMs: number;
+  private addresses = new Map<string, CacheEntry<string>>(); // by name
+  private names = new Map<string, CacheEntry<string | undefined>>(); // by address
+
+  constructor(network: StacksNetwork, options: BnsResolverOptions = {}) {
+    this.network = network;
+    this.cacheTtlMs = options.cacheTtlMs ?? 300_000;
+  }
+
+  // Address that owns a name
+  async resolveName(name: string): Promise<string> {
+    const normalized = name.trim().toLowerCase();
+    const cached = this.cached(this.addresses, normalized);
+    if (cached) {
+      return cached.value;
+    }
+
+    const response = await fetch(`${this.network.client.baseUrl}/v1/names/${encodeURIComponent(normalized)}`);
+    if (response.status === 404 || response.status === 400) {
+      throw new Error(`BNS name '${normalized}' is not registered`);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to resolve BNS name: ${response.statusText}`);
+    }
+
+    const { address } = await response.json();
+    if (!address) {
+      throw new Error(`BNS name '${normalized}' has no owner address`);
+    }
+    this.addresses.set(normalized, { value: address, expiresAt: Date.now() + this.cacheTtlMs });
+    return address;
+  }
+
+  // Primary name of an address, or undefined when it owns none
+  async lookupName(address: string): Promise<string | undefined> {
+    const cached = this.cached(this.names, address);
+    if (cached) {
+      return cached.value;
+    }
+
+    const response = await fetch(`${this.network.client.baseUrl}/v1/addresses/stacks/${address}`);
+    if (!response.ok) {
+      throw new Error(`Failed to look up BNS name: ${response.statusText}`);
+    }
+
+    const { names = [] } = await response.json();
+    const name: string | undefined = names[0];
+    this.names.set(address, { value: name, expiresAt: Date.now() + this.cacheTtlMs });
+    return name;
+  }
+
+  // For address parameters that accept either form: names become the owner's
+  // address, anything else is returned unchanged
+  async resolveAddress(value: string): Promise<string> {
+    return isBnsName(value) ? await this.resolveName(value) : value;
+  }
+
+  clearCache(): void {
+    this.addresses.clear();
+    this.names.clear();
+  }
+
+  private cached<T>(cache: Map<string, CacheEntry<T>>, key: string): CacheEntry<T> | undefined {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      cache.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
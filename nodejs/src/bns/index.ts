@@ -0,0 +1,3 @@
+// BNS exports
+export { BnsResolver, isBnsName } from './bns-resolver';
+export type { BnsResolverOptions } from './bns-resolver';
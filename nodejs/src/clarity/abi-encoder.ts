@@ -0,0 +1,259 @@
+import {
+  ClarityAbiFunction,
+  ClarityAbiType,
+  ClarityType,
+  ClarityValue,
+  bufferCV,
+  contractPrincipalCV,
+  getTypeString,
+  intCV,
+  isClarityAbiBuffer,
+  isClarityAbiList,
+  isClarityAbiOptional,
+  isClarityAbiResponse,
+  isClarityAbiStringAscii,
+  isClarityAbiStringUtf8,
+  isClarityAbiTuple,
+  listCV,
+  noneCV,
+  principalCV,
+  responseErrorCV,
+  responseOkCV,
+  someCV,
+  stringAsciiCV,
+  stringUtf8CV,
+  tupleCV,
+  uintCV,
+  boolCV,
+  validateStacksAddress,
+} from '@stacks/transactions';
+
+// Function arguments as plain JSON: in order, or by argument name
+export type FunctionArgsInput = unknown[] | Record<string, unknown>;
+
+const UINT_MAX = BigInt(2) ** BigInt(128) - BigInt(1);
+const INT_MIN = -(BigInt(2) ** BigInt(127));
+const INT_MAX = BigInt(2) ** BigInt(127) - BigInt(1);
+
+// A ClarityValue of @stacks/transactions: a known type with a value of the
+// right shape, nested values included. JSON tuples that merely have a "type"
+// field are not.
+export function isClarityValue(value: unknown): value is ClarityValue {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { type, value: inner, ...extra } = value as { type?: unknown; value?: unknown };
+  if (Object.keys(extra).length) {
+    return false;
+  }
+
+  switch (type) {
+    case ClarityType.BoolTrue:
+    case ClarityType.BoolFalse:
+    case ClarityType.OptionalNone:
+      return !('value' in value);
+    case ClarityType.Int:
+    case ClarityType.UInt:
+      return (
+        typeof inner === 'bigint' ||
+        (typeof inner === 'number' && Number.isSafeInteger(inner)) ||
+        (typeof inner === 'string' && /^-?\d+$/.test(inner))
+      );
+    case ClarityType.Buffer:
+      return typeof inner === 'string' && /^([0-9a-fA-F]{2})*$/.test(inner);
+    case ClarityType.PrincipalStandard:
+      return typeof inner === 'string' && validateStacksAddress(inner);
+    case ClarityType.PrincipalContract: {
+      if (typeof inner !== 'string') {
+        return false;
+      }
+      const [address, name, ...rest] = inner.split('.');
+      return validateStacksAddress(address) && !!name && !rest.length;
+    }
+    case ClarityType.StringASCII:
+    case ClarityType.StringUTF8:
+      return typeof inner === 'string';
+    case ClarityType.OptionalSome:
+    case ClarityType.ResponseOk:
+    case ClarityType.ResponseErr:
+      return isClarityValue(inner);
+    case ClarityType.List:
+      return Array.isArray(inner) && inner.every(isClarityValue);
+    case ClarityType.Tuple:
+      return (
+        typeof inner === 'object' && inner !== null && !Array.isArray(inner) && Object.values(inner).every(isClarityValue)
+      );
+    default:
+      return false;
+  }
+}
+
+// True when args need the ABI to become ClarityValues
+export function needsAbiEncoding(args: FunctionArgsInput): boolean {
+  return !Array.isArray(args) || !args.every(isClarityValue);
+}
+
+// The named function of an ABI, or an error listing the ones there are
+export function findAbiFunction(functions: ClarityAbiFunction[], functionName: string, contractId: string): ClarityAbiFunction {
+  const found = functions.find((candidate) => candidate.name === functionName);
+  if (!found) {
+    const available = functions.filter((candidate) => candidate.access !== 'private').map((candidate) => candidate.name);
+    throw new Error(`Contract ${contractId} has no function '${functionName}' (available: ${available.join(', ') || 'none'})`);
+  }
+  return found;
+}
+
+// Encodes JSON arguments for a function. Values that are already
+// ClarityValues are passed through.
+export function encodeFunctionArgs(fn: ClarityAbiFunction, args: FunctionArgsInput): ClarityValue[] {
+  const names = fn.args.map((arg) => arg.name);
+
+  if (Array.isArray(args)) {
+    if (args.length !== fn.args.length) {
+      throw new Error(
+        `Function '${fn.name}' takes ${fn.args.length} argument(s) (${names.join(', ') || 'none'}), got ${args.length}`
+      );
+    }
+    return fn.args.map((arg, i) => encodeAbiValue(args[i], arg.type, arg.name));
+  }
+
+  const unknown = Object.keys(args).filter((name) => !names.includes(name));
+  if (unknown.length) {
+    throw new Error(`Function '${fn.name}' has no argument(s) ${unknown.join(', ')} (takes ${names.join(', ') || 'none'})`);
+  }
+  return fn.args.map((arg) => {
+    if (!(arg.name in args) && !isClarityAbiOptional(arg.type)) {
+      throw new Error(`Missing argument '${arg.name}' (${getTypeString(arg.type)})`);
+    }
+    return encodeAbiValue(args[arg.name], arg.type, arg.name);
+  });
+}
+
+// Encodes one JSON value as the given ABI type. path names the value in
+// errors, e.g. "recipients[2].amount".
+export function encodeAbiValue(value: unknown, type: ClarityAbiType, path = 'value'): ClarityValue {
+  if (isClarityValue(value)) {
+    return value;
+  }
+  const fail = (expected: string): never => {
+    throw new Error(`Argument '${path}': expected ${getTypeString(type)} (${expected}), got ${describe(value)}`);
+  };
+
+  if (type === 'uint128' || type === 'int128') {
+    const integer = toBigInt(value) ?? fail('an integer, as a number or string');
+    const [min, max] = type === 'uint128' ? [BigInt(0), UINT_MAX] : [INT_MIN, INT_MAX];
+    if (integer < min || integer > max) {
+      fail(type === 'uint128' ? 'between 0 and 2^128 - 1' : 'between -2^127 and 2^127 - 1');
+    }
+    return type === 'uint128' ? uintCV(integer) : intCV(integer);
+  }
+  if (type === 'bool') {
+    if (value === true || value === 'true') return boolCV(true);
+    if (value === false || value === 'false') return boolCV(false);
+    return fail('true or false');
+  }
+  if (type === 'principal' || type === 'trait_reference') {
+    const principal = typeof value === 'string' ? value.trim() : fail('an address or contract id');
+    const [address, contractName, ...rest] = principal.split('.');
+    if (!validateStacksAddress(address) || rest.length || (type === 'trait_reference' && !contractName)) {
+      fail(type === 'trait_reference' ? 'a contract id "address.contract-name"' : 'an address or contract id');
+    }
+    return type === 'trait_reference' ? contractPrincipalCV(address, contractName) : principalCV(principal);
+  }
+  if (type === 'none') {
+    return value === null || value === undefined ? noneCV() : fail('null');
+  }
+  if (isClarityAbiBuffer(type)) {
+    const hex = typeof value === 'string' ? value.trim().replace(/^0x/i, '') : fail('hex bytes, e.g. "0x0102"');
+    if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+      fail('hex bytes, e.g. "0x0102"');
+    }
+    if (hex.length / 2 > type.buffer.length) {
+      fail(`at most ${type.buffer.length} bytes`);
+    }
+    return bufferCV(Buffer.from(hex, 'hex'));
+  }
+  if (isClarityAbiStringAscii(type)) {
+    const text = typeof value === 'string' ? value : fail('a string');
+    if (!/^[\x00-\x7F]*$/.test(text)) {
+      fail('ASCII characters only');
+    }
+    if (text.length > type['string-ascii'].length) {
+      fail(`at most ${type['string-ascii'].length} characters`);
+    }
+    return stringAsciiCV(text);
+  }
+  if (isClarityAbiStringUtf8(type)) {
+    const text = typeof value === 'string' ? value : fail('a string');
+    if (Buffer.byteLength(text, 'utf8') > type['string-utf8'].length) {
+      fail(`at most ${type['string-utf8'].length} UTF-8 bytes`);
+    }
+    return stringUtf8CV(text);
+  }
+  if (isClarityAbiOptional(type)) {
+    return value === null || value === undefined ? noneCV() : someCV(encodeAbiValue(value, type.optional, path));
+  }
+  if (isClarityAbiResponse(type)) {
+    const response = isRecord(value) ? value : fail('{"ok": …} or {"err": …}');
+    if ('ok' in response) {
+      return responseOkCV(encodeAbiValue(response.ok, type.response.ok, `${path}.ok`));
+    }
+    if ('err' in response) {
+      return responseErrorCV(encodeAbiValue(response.err, type.response.error, `${path}.err`));
+    }
+    return fail('{"ok": …} or {"err": …}');
+  }
+  if (isClarityAbiList(type)) {
+    const items = Array.isArray(value) ? value : fail('an array');
+    if (items.length > type.list.length) {
+      fail(`at most ${type.list.length} items`);
+    }
+    return listCV(items.map((item, i) => encodeAbiValue(item, type.list.type, `${path}[${i}]`)));
+  }
+  if (isClarityAbiTuple(type)) {
+    const fields = isRecord(value) ? value : fail('an object');
+    const names = type.tuple.map((field) => field.name);
+    const unknown = Object.keys(fields).filter((name) => !names.includes(name));
+    if (unknown.length) {
+      fail(`no field(s) ${unknown.join(', ')}`);
+    }
+    const encoded: Record<string, ClarityValue> = {};
+    for (const field of type.tuple) {
+      if (!(field.name in fields) && !isClarityAbiOptional(field.type)) {
+        fail(`missing field '${field.name}'`);
+      }
+      encoded[field.name] = encodeAbiValue(fields[field.name], field.type, `${path}.${field.name}`);
+    }
+    return tupleCV(encoded);
+  }
+
+  throw new Error(`Argument '${path}': unsupported type ${JSON.stringify(type)}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Integers from JSON: numbers, bigints and decimal strings (a Clarity "u"
+// prefix is accepted)
+function toBigInt(value: unknown): bigint | undefined {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? BigInt(value) : undefined;
+  }
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (/^(-?\d+|u\d+)$/.test(text)) {
+    return BigInt(text.replace(/^u/, ''));
+  }
+  return undefined;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  const json = JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+}
@@ -0,0 +1,52 @@
+import { ClarityType, ClarityValue, hexToCV } from '@stacks/transactions';
+
+// A Clarity value as plain JSON. It mirrors what the ABI encoder accepts, so
+// decoded values can be passed back as function arguments.
+export type ClarityJSON = null | boolean | number | string | ClarityJSON[] | { [key: string]: ClarityJSON };
+
+// Decodes any Clarity value:
+// - integers become numbers, or decimal strings beyond Number.MAX_SAFE_INTEGER
+// - buffers become "0x…" hex; principals and strings stay strings
+// - (some x) becomes x and none becomes null
+// - (ok x) / (err x) become { ok: x } / { err: x }
+// - lists become arrays and tuples objects
+export function decodeClarityValue(cv: ClarityValue): ClarityJSON {
+  switch (cv.type) {
+    case ClarityType.Int:
+    case ClarityType.UInt: {
+      const integer = BigInt(cv.value);
+      const safe = integer >= BigInt(Number.MIN_SAFE_INTEGER) && integer <= BigInt(Number.MAX_SAFE_INTEGER);
+      return safe ? Number(integer) : integer.toString();
+    }
+    case ClarityType.BoolTrue:
+      return true;
+    case ClarityType.BoolFalse:
+      return false;
+    case ClarityType.Buffer:
+      return `0x${cv.value}`;
+    case ClarityType.PrincipalStandard:
+    case ClarityType.PrincipalContract:
+    case ClarityType.StringASCII:
+    case ClarityType.StringUTF8:
+      return cv.value;
+    case ClarityType.OptionalNone:
+      return null;
+    case ClarityType.OptionalSome:
+      return decodeClarityValue(cv.value);
+    case ClarityType.ResponseOk:
+      return { ok: decodeClarityValue(cv.value) };
+    case ClarityType.ResponseErr:
+      return { err: decodeClarityValue(cv.value) };
+    case ClarityType.List:
+      return cv.value.map(decodeClarityValue);
+    case ClarityType.Tuple:
+      return Object.fromEntries(Object.entries(cv.value).map(([name, field]) => [name, decodeClarityValue(field)]));
+    default:
+      throw new Error(`Unknown Clarity type '${(cv as { type: string }).type}'`);
+  }
+}
+
+// Hex-serialized Clarity ("0x…", as the node returns it) to JSON
+export function decodeClarityHex(hex: string): ClarityJSON {
+  return decodeClarityValue(hexToCV(hex));
+}
@@ -0,0 +1,11 @@
+// Clarity exports
+export {
+  encodeAbiValue,
+  encodeFunctionArgs,
+  findAbiFunction,
+  isClarityValue,
+  needsAbiEncoding,
+} from './abi-encoder';
+export { decodeClarityHex, decodeClarityValue } from './cv-decoder';
+export type { FunctionArgsInput } from './abi-encoder';
+export type { ClarityJSON } from './cv-decoder';
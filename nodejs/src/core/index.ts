@@ -1,4 +1,9 @@
 import { StacksWalletAgent } from "../agents/wallet-agent";
+import { LLMProvider } from "../llm/index";
+import { LLMProviderConfig, SpendingPolicyConfig, KeystoreConfig, FeeEstimatorConfig } from "../types/index";
+import { Signer } from "../signers/index";
+import { DexAdapter } from "../swap/index";
+import { CallSimulator } from "../simulation/index";
 
 // Factory function for easy agent creation
 export async function createStacksWalletAgent(config: {
@@ -7,9 +12,19 @@ export async function createStacksWalletAgent(config: {
   broadcastApiUrl?: string;
   defaultFee?: string;
   privateKey?: string;
+  accounts?: Record<string, string>;
+  signers?: Record<string, Signer>;
+  keystore?: KeystoreConfig;
+  llm?: LLMProvider | LLMProviderConfig;
   model?: string;
   openAiApiKey?: string;
   anthropicApiKey?: string;
+  maxToolIterations?: number;
+  requireConfirmation?: boolean;
+  spendingPolicy?: SpendingPolicyConfig;
+  fees?: FeeEstimatorConfig;
+  dexAdapters?: DexAdapter[];
+  callSimulator?: CallSimulator;
 
   personalityPrompt?: string;
 }) {
@@ -21,9 +36,19 @@ export async function createStacksWalletAgent(config: {
     },
     defaultFee: config.defaultFee,
     privateKey: config.privateKey,
+    accounts: config.accounts,
+    signers: config.signers,
+    keystore: config.keystore,
+    llm: config.llm,
     model: config.model,
     openAiApiKey: config.openAiApiKey,
     anthropicApiKey: config.anthropicApiKey,
+    maxToolIterations: config.maxToolIterations,
+    requireConfirmation: config.requireConfirmation,
+    spendingPolicy: config.spendingPolicy,
+    fees: config.fees,
+    dexAdapters: config.dexAdapters,
+    callSimulator: config.callSimulator,
   });
 
   await agent.init();
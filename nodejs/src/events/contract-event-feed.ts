@@ -0,0 +1,176 @@
+import { StacksNetwork } from '@stacks/network';
+import {
+  ContractEvent,
+  ContractEventFilter,
+  ContractEventPage,
+  ContractEventType,
+  ContractEventsParams,
+} from '../types/index';
+import { ClarityJSON, decodeClarityHex } from '../clarity/index';
+import { StacksUtils } from '../utils/index';
+
+const API_PAGE_SIZE = 50; // the Extended API's maximum
+const DEFAULT_LIMIT = 20;
+const MAX_SCANNED = 500; // raw events one page request may look through
+
+// Where the next page starts, and the last event returned before it. Events
+// that arrive between pages shift offsets; the event key lets the next page
+// skip what was already returned.
+interface Cursor {
+  offset: number;
+  after?: string;
+}
+
+const EVENT_TYPES: Record<string, ContractEventType> = {
+  smart_contract_log: 'print',
+  stx_asset: 'stx',
+  fungible_token_asset: 'ft',
+  non_fungible_token_asset: 'nft',
+  stx_lock: 'stx_lock',
+};
+
+// Payload fields that name a print event, by common convention
+const TOPIC_FIELDS = ['topic', 'event', 'action'];
+
+// Map an Extended API contract event to a ContractEvent
+export function toContractEvent(event: any): ContractEvent {
+  const type = EVENT_TYPES[event.event_type];
+  if (!type) {
+    throw new Error(`Unknown contract event type '${event.event_type}'`);
+  }
+  const base = { txId: event.tx_id, eventIndex: event.event_index, type };
+
+  switch (type) {
+    case 'print': {
+      const { contract_id, value } = event.contract_log;
+      const payload = decodeClarityHex(value.hex);
+      return { ...base, contractId: contract_id, topic: payloadTopic(payload), value: payload, repr: value.repr };
+    }
+    case 'stx_lock':
+      return {
+        ...base,
+        asset: 'STX',
+        sender: event.stx_lock_event.locked_address,
+        amount: event.stx_lock_event.locked_amount,
+        unlockHeight: Number(event.stx_lock_event.unlock_height),
+      };
+    default: {
+      const asset = event.asset;
+      return {
+        ...base,
+        action: asset.asset_event_type,
+        asset: type === 'stx' ? 'STX' : asset.asset_id,
+        sender: asset.sender || undefined,
+        recipient: asset.recipient || undefined,
+        amount: asset.amount,
+        ...(type === 'nft' ? { value: decodeClarityHex(asset.value.hex), repr: asset.value.repr } : {}),
+      };
+    }
+  }
+}
+
+export function matchesFilter(event: ContractEvent, filter: ContractEventFilter): boolean {
+  const { eventType, asset, topic } = filter;
+  if (eventType && !([] as ContractEventType[]).concat(eventType).includes(event.type)) {
+    return false;
+  }
+  if (asset && (asset.toUpperCase() === 'STX' ? event.asset !== 'STX' : event.asset !== asset)) {
+    return false;
+  }
+  return !topic || event.topic === topic;
+}
+
+function payloadTopic(payload: ClarityJSON): string | undefined {
+  if (typeof payload === 'string') {
+    return payload;
+  }
+  if (typeof payload === 'object' && payload !== null && !Array.isArray(payload)) {
+    const field = TOPIC_FIELDS.find((name) => typeof payload[name] === 'string');
+    return field ? (payload[field] as string) : undefined;
+  }
+  return undefined;
+}
+
+// Identifies an event across pages
+export function eventKey(event: ContractEvent): string {
+  return `${event.txId}:${event.eventIndex}`;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Number.isSafeInteger(decoded.offset) && decoded.offset >= 0) {
+      return decoded;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor '${cursor}'`);
+}
+
+// Reads a contract's event history from the Extended API, newest first
+export class ContractEventFeed {
+  private network: StacksNetwork;
+
+  constructor(network: StacksNetwork) {
+    this.network = network;
+  }
+
+  // One page of decoded events, unfiltered
+  async fetchEvents(contractId: string, offset: number, limit: number = API_PAGE_SIZE): Promise<ContractEvent[]> {
+    StacksUtils.parseContractId(contractId);
+    const response = await fetch(
+      `${this.network.client.baseUrl}/extended/v1/contract/${contractId}/events?limit=${limit}&offset=${offset}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch contract events: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.results || []).map(toContractEvent);
+  }
+
+  // The matching events after the cursor. Looks through at most 500 events
+  // per call, so selective filters can return short pages.
+  async getEvents(params: ContractEventsParams): Promise<ContractEventPage> {
+    const { contractId, limit = DEFAULT_LIMIT, cursor } = params;
+    if (!Number.isInteger(limit) || limit < 1 || limit > API_PAGE_SIZE) {
+      throw new Error(`Limit must be between 1 and ${API_PAGE_SIZE}`);
+    }
+
+    let { offset, after } = cursor ? decodeCursor(cursor) : { offset: 0, after: undefined };
+    const events: ContractEvent[] = [];
+    let scanned = 0;
+
+    while (scanned < MAX_SCANNED) {
+      const page = await this.fetchEvents(contractId, offset);
+      // Newer events pushed already returned ones onto this page
+      const start = after ? page.findIndex((event) => eventKey(event) === after) + 1 : 0;
+      after = undefined;
+
+      for (let i = start; i < page.length; i++) {
+        if (!matchesFilter(page[i], params)) {
+          continue;
+        }
+        events.push(page[i]);
+        if (events.length === limit) {
+          return { events, nextCursor: encodeCursor({ offset: offset + i + 1, after: eventKey(page[i]) }) };
+        }
+      }
+
+      if (page.length < API_PAGE_SIZE) {
+        return { events };
+      }
+      offset += page.length;
+      scanned += page.length;
+      after = eventKey(page[page.length - 1]);
+    }
+
+    return { events, nextCursor: encodeCursor({ offset, after }) };
+  }
+}
@@ -0,0 +1,193 @@
+import { StacksNetwork } from '@stacks/network';
+import { ContractEvent, ContractEventFilter } from '../types/index';
+import { ContractEventFeed, eventKey, matchesFilter } from './contract-event-feed';
+
+export interface ContractEventWatcherOptions {
+  pollInterval?: number; // ms between checks for new events (default 10s)
+  // Extended API websocket endpoint, e.g. "wss://api.testnet.hiro.so/".
+  // Transactions touching a watched contract trigger an immediate check;
+  // polling continues as a fallback.
+  websocketUrl?: string;
+}
+
+export type ContractEventListener = (event: ContractEvent) => void;
+
+interface Subscription {
+  filter: ContractEventFilter;
+  listener: ContractEventListener;
+}
+
+interface Watch {
+  subscriptions: Set<Subscription>;
+  latest?: string; // key of the newest event seen
+  primed: boolean; // history before the first check is not delivered
+  checking: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const MAX_CATCH_UP_PAGES = 4; // events a single check delivers: 4 API pages
+
+// Delivers new contract events as they happen, e.g. to trigger agent actions.
+// Only events after the subscription starts are delivered, oldest first.
+// Polling keeps the process alive until every subscription has ended.
+export class ContractEventWatcher {
+  private pollInterval: number;
+  private websocketUrl?: string;
+  private socket?: WebSocket;
+  private feed: ContractEventFeed;
+  private watches = new Map<string, Watch>();
+
+  constructor(
+    network: StacksNetwork,
+    options: ContractEventWatcherOptions = {},
+    feed: ContractEventFeed = new ContractEventFeed(network)
+  ) {
+    this.pollInterval = options.pollInterval ?? 10_000;
+    this.websocketUrl = options.websocketUrl;
+    this.feed = feed;
+  }
+
+  // Calls listener with each new event of the contract that matches the
+  // filter. Returns a function that ends the subscription.
+  subscribe(contractId: string, filter: ContractEventFilter, listener: ContractEventListener): () => void {
+    const subscription: Subscription = { filter, listener };
+    let watch = this.watches.get(contractId);
+    if (!watch) {
+      watch = { subscriptions: new Set(), primed: false, checking: false };
+      this.watches.set(contractId, watch);
+      this.notifyOnTransactions(contractId);
+      void this.poll(contractId);
+    }
+    watch.subscriptions.add(subscription);
+
+    return () => {
+      const current = this.watches.get(contractId);
+      current?.subscriptions.delete(subscription);
+      if (current && current.subscriptions.size === 0) {
+        clearTimeout(current.timer);
+        this.watches.delete(contractId);
+      }
+    };
+  }
+
+  // End every subscription and close the websocket
+  stop(): void {
+    this.watches.forEach((watch) => clearTimeout(watch.timer));
+    this.watches.clear();
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private async poll(contractId: string): Promise<void> {
+    const watch = this.watches.get(contractId);
+    if (!watch || watch.checking) {
+      return;
+    }
+    clearTimeout(watch.timer);
+    watch.checking = true;
+
+    try {
+      const events = await this.newEvents(contractId, watch);
+      if (events.length) {
+        watch.latest = eventKey(events[0]);
+      }
+      if (watch.primed) {
+        // Oldest first; a throwing listener does not stop the others
+        events.reverse().forEach((event) => {
+          watch.subscriptions.forEach(({ filter, listener }) => {
+            if (matchesFilter(event, filter)) {
+              try {
+                listener(event);
+              } catch (error) {
+                console.error('Contract event listener failed:', error);
+              }
+            }
+          });
+        });
+      }
+      watch.primed = true;
+    } catch {
+      // Retried on the next poll
+    }
+    watch.checking = false;
+
+    if (this.watches.get(contractId) === watch) {
+      watch.timer = setTimeout(() => this.poll(contractId), this.pollInterval);
+    }
+  }
+
+  // Events newer than the last one seen, newest first. Before the first
+  // check only the newest event is needed to mark the starting point.
+  private async newEvents(contractId: string, watch: Watch): Promise<ContractEvent[]> {
+    if (!watch.primed) {
+      return await this.feed.fetchEvents(contractId, 0, 1);
+    }
+
+    const events: ContractEvent[] = [];
+    for (let page = 0; page < MAX_CATCH_UP_PAGES; page++) {
+      const fetched = await this.feed.fetchEvents(contractId, events.length);
+      const seen = fetched.findIndex((event) => eventKey(event) === watch.latest);
+      events.push(...(seen === -1 ? fetched : fetched.slice(0, seen)));
+      if (seen !== -1 || fetched.length === 0) {
+        break;
+      }
+    }
+    return events;
+  }
+
+  // Ask the websocket API for address_tx_update notifications on the
+  // contract; each one triggers an immediate check
+  private notifyOnTransactions(contractId: string): void {
+    const socket = this.connect();
+    if (!socket) {
+      return;
+    }
+
+    const send = () =>
+      socket.send(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: contractId,
+          method: 'subscribe',
+          params: { event: 'address_tx_update', address: contractId },
+        })
+      );
+    if (socket.readyState === WebSocket.OPEN) {
+      send();
+    } else {
+      socket.addEventListener('open', send, { once: true });
+    }
+  }
+
+  private connect(): WebSocket | undefined {
+    if (!this.websocketUrl || this.socket) {
+      return this.socket;
+    }
+    if (typeof WebSocket === 'undefined') {
+      console.warn('WebSocket is not available in this runtime; watching contract events by polling only');
+      this.websocketUrl = undefined;
+      return undefined;
+    }
+
+    const socket = new WebSocket(this.websocketUrl);
+    socket.addEventListener('message', (message) => {
+      try {
+        const notification = JSON.parse(String(message.data));
+        const contractId = notification.params?.address;
+        if (notification.method === 'address_tx_update' && this.watches.has(contractId)) {
+          void this.poll(contractId);
+        }
+      } catch {
+        // Ignore malformed notifications
+      }
+    });
+    socket.addEventListener('close', () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+
+    this.socket = socket;
+    return socket;
+  }
+}
@@ -0,0 +1,4 @@
+// Contract event exports
+export { ContractEventFeed, matchesFilter, toContractEvent } from './contract-event-feed';
+export { ContractEventWatcher } from './contract-event-watcher';
+export type { ContractEventListener, ContractEventWatcherOptions } from './contract-event-watcher';
@@ -0,0 +1,95 @@
+import {
+  StacksTransactionWire,
+  estimateTransactionByteLength,
+  serializePayload,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { FeeEstimate, FeeEstimatorConfig, FeePriority } from '../types/index';
+import { StacksUtils } from '../utils/index';
+
+// Estimates fees from the node's fee-rate endpoints. /v2/fees/transaction
+// prices the actual payload in low/medium/high tiers; when the node has no
+// estimate for it, the /v2/fees/transfer rate per byte is used for all tiers.
+// Every tier is scaled by the multiplier and clamped to the min/max caps.
+export class FeeEstimator {
+  private network: StacksNetwork;
+  private multiplier: number;
+  private minFee?: bigint;
+  private maxFee?: bigint;
+  private priority: FeePriority;
+
+  constructor(network: StacksNetwork, config: FeeEstimatorConfig = {}) {
+    if (config.multiplier !== undefined && !(config.multiplier > 0)) {
+      throw new Error('Fee multiplier must be a positive number');
+    }
+
+    this.network = network;
+    this.multiplier = config.multiplier ?? 1;
+    this.minFee = config.minFee !== undefined ? StacksUtils.toMicroSTX(config.minFee) : undefined;
+    this.maxFee = config.maxFee !== undefined ? StacksUtils.toMicroSTX(config.maxFee) : undefined;
+    this.priority = config.priority ?? 'medium';
+
+    if (this.minFee !== undefined && this.maxFee !== undefined && this.minFee > this.maxFee) {
+      throw new Error('minFee must not be higher than maxFee');
+    }
+  }
+
+  async estimate(transaction: StacksTransactionWire): Promise<FeeEstimate> {
+    const estimatedLength = estimateTransactionByteLength(transaction);
+
+    let tiers: bigint[];
+    let source: FeeEstimate['source'] = 'transaction';
+    try {
+      tiers = await this.fetchTransactionFees(serializePayload(transaction.payload), estimatedLength);
+    } catch {
+      const fee = await this.fetchTransferFee(estimatedLength);
+      tiers = [fee, fee, fee];
+      source = 'transfer';
+    }
+
+    const [low, medium, high] = tiers.map((fee) => this.adjust(fee));
+    return { low, medium, high, source };
+  }
+
+  // The fee of one tier, by default the configured priority
+  async estimateFee(transaction: StacksTransactionWire, priority: FeePriority = this.priority): Promise<bigint> {
+    return (await this.estimate(transaction))[priority];
+  }
+
+  private adjust(fee: bigint): bigint {
+    let adjusted = this.multiplier === 1 ? fee : BigInt(Math.ceil(Number(fee) * this.multiplier));
+    if (this.minFee !== undefined && adjusted < this.minFee) {
+      adjusted = this.minFee;
+    }
+    if (this.maxFee !== undefined && adjusted > this.maxFee) {
+      adjusted = this.maxFee;
+    }
+    return adjusted;
+  }
+
+  private async fetchTransactionFees(payload: string, estimatedLength: number): Promise<bigint[]> {
+    const response = await fetch(`${this.network.client.baseUrl}/v2/fees/transaction`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ transaction_payload: payload, estimated_len: estimatedLength }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to estimate transaction fee: ${await response.text().catch(() => response.statusText)}`);
+    }
+
+    const { estimations } = await response.json();
+    if (!Array.isArray(estimations) || estimations.length !== 3) {
+      throw new Error('Unexpected fee estimation response');
+    }
+    return estimations.map((estimation: { fee: number }) => BigInt(estimation.fee));
+  }
+
+  private async fetchTransferFee(estimatedLength: number): Promise<bigint> {
+    const response = await fetch(`${this.network.client.baseUrl}/v2/fees/transfer`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch fee rate: ${response.statusText}`);
+    }
+    const feeRate = BigInt(Math.ceil(Number(await response.text())));
+    return feeRate * BigInt(estimatedLength);
+  }
+}
@@ -0,0 +1,2 @@
+// Fee estimation exports
+export { FeeEstimator } from './fee-estimator';
@@ -1,10 +1,140 @@
 // Main exports for Stacks Agent Kit
 export { StacksAgent, StacksWalletAgent } from './agents/index';
-export { StacksQueryTool, StacksTransferTool } from './tools/index';
+export {
+  StacksQueryTool,
+  StacksTransferTool,
+  StacksFungibleTokenTool,
+  StacksNFTTool,
+  StacksStackingTool,
+  StacksSwapTool,
+} from './tools/index';
 
 // Factory function export
 export { createStacksWalletAgent } from './core/index';
 
+export type {
+  ConversationalState,
+  ConversationalConfig,
+  ChatResult,
+  PendingAction,
+  PendingToolAction,
+  ConfirmationDecision,
+} from './agents/agent';
+
+// Tool registry exports
+export { defineTool, ToolRegistry } from './registry/index';
+export type { AgentTool, ToolDefinition, ActionSummary } from './registry/index';
+
+// Account exports
+export { AccountManager, DEFAULT_ACCOUNT, hdAccountName } from './accounts/index';
+
+// Signer exports
+export {
+  LocalSigner,
+  KeystoreSigner,
+  RemoteSigner,
+  createRemoteSignerServer,
+  encryptPrivateKey,
+  decryptPrivateKey,
+  isSigner,
+} from './signers/index';
+export type {
+  Signer,
+  SignTransactionOptions,
+  KeystoreFile,
+  RemoteSignerOptions,
+  RemoteSignerServerOptions,
+} from './signers/index';
+
+// Keystore exports
+export { Keystore, FileKeystoreStorage, MemoryKeystoreStorage } from './keystore/index';
+export type { KeystoreStorage, KeystoreRecord } from './keystore/index';
+
+// Nonce management exports
+export { NonceManager } from './nonce/index';
+export type { NonceManagerOptions } from './nonce/index';
+
+// Fee estimation exports
+export { FeeEstimator } from './fees/index';
+
+// Transaction tracking exports
+export { TransactionTracker, toTransactionInfo } from './tracker/index';
+export type { TransactionTrackerOptions, WaitForConfirmationOptions } from './tracker/index';
+
+// BNS exports
+export { BnsResolver, isBnsName } from './bns/index';
+export type { BnsResolverOptions } from './bns/index';
+
+// Swap exports
+export {
+  SwapRouter,
+  applySlippage,
+  AlexAdapter,
+  VelarAdapter,
+  BitflowAdapter,
+  ALEX_CONTRACTS,
+  VELAR_CONTRACTS,
+  BITFLOW_CONTRACTS,
+} from './swap/index';
+export type {
+  DexAdapter,
+  DexQuote,
+  DexSwapCall,
+  SwapAsset,
+  RoutedQuote,
+  PreparedSwap,
+  AlexContracts,
+  VelarContracts,
+  BitflowContracts,
+  BitflowPool,
+} from './swap/index';
+export type { PlannedSwap } from './tools/index';
+
+// Clarity exports
+export {
+  decodeClarityHex,
+  decodeClarityValue,
+  encodeAbiValue,
+  encodeFunctionArgs,
+  findAbiFunction,
+  isClarityValue,
+  needsAbiEncoding,
+} from './clarity/index';
+export type { ClarityJSON, FunctionArgsInput } from './clarity/index';
+
+// Contract event exports
+export { ContractEventFeed, ContractEventWatcher, matchesFilter, toContractEvent } from './events/index';
+export type { ContractEventListener, ContractEventWatcherOptions } from './events/index';
+
+// Post-condition exports
+export {
+  buildPostCondition,
+  buildPostConditions,
+  describePostCondition,
+  maxStxSent,
+  parseAssetString,
+  toJsonPostCondition,
+} from './postconditions/index';
+export type { PostConditionSpec } from './postconditions/index';
+
+// Simulation exports
+export { SimnetSimulator, inferPostConditions } from './simulation/index';
+export type { CallSimulator, SimulatedCall, SimnetLike } from './simulation/index';
+
+// Spending policy exports
+export { SpendingPolicy, policyViolationResult, postConditionedAmount, transactionPolicyAction } from './policy/index';
+export type { PolicyReservation } from './policy/index';
+
+// LLM provider exports
+export {
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  ScriptedLLMProvider,
+  createLLMProvider,
+} from './llm/index';
+export type { LLMProvider, LLMChatOptions, LLMToolDefinition } from './llm/index';
+
 // Utility functions export
 export { StacksUtils } from './utils/index';
 
@@ -13,8 +143,50 @@ export type {
   WalletInfo,
   TransactionInfo,
   TransferParams,
+  TokenMetadata,
+  TokenBalance,
+  TokenTransferParams,
+  NFTHolding,
+  NFTTransferParams,
+  ReplaceTransactionParams,
+  BnsNameInfo,
+  PoxInfo,
+  PoxCycleInfo,
+  StackingMode,
+  StackingEligibility,
+  StackingDelegation,
+  StackingStatus,
+  DelegateStxParams,
+  RevokeDelegationParams,
+  SwapQuoteParams,
+  SwapParams,
+  SwapQuote,
+  SwapDryRun,
+  SimulatedTransfer,
+  CallSimulation,
+  ContractEvent,
+  ContractEventType,
+  ContractEventFilter,
+  ContractEventsParams,
+  ContractEventPage,
   QueryParams,
   StacksNetworkConfig,
   AgentConfig,
+  LLMProviderConfig,
   ToolResult,
+  SpendingPolicyConfig,
+  PolicyViolation,
+  PolicyViolationCode,
+  PolicyAction,
+  AccountInfo,
+  HDAccountInfo,
+  KeystoreAccount,
+  KeystoreConfig,
+  NonceInfo,
+  FeePriority,
+  FeeEstimate,
+  FeeEstimatorConfig,
+  TransactionStatus,
+  TransactionStatusEvent,
+  SignerSelection,
 } from './types/index';
\ No newline at end of file
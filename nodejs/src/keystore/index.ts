@@ -0,0 +1,4 @@
+// Keystore exports
+export { Keystore } from './keystore';
+export { FileKeystoreStorage, MemoryKeystoreStorage } from './storage';
+export type { KeystoreStorage, KeystoreRecord } from './storage';
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { getAddressFromPublicKey } from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { KeystoreSigner, encryptPrivateKey, decryptPrivateKey } from '../signers/index';
+import { KeystoreAccount } from '../types/index';
+import { StacksUtils } from '../utils/index';
+import { KeystoreRecord, KeystoreStorage } from './storage';
+
+// Encrypted, persistent store of signing accounts. Each account is a
+// password-encrypted key (scrypt + AES-256-GCM) addressed by a unique label.
+// Unlocked accounts are held as KeystoreSigners until they are locked again.
+export class Keystore {
+  private storage: KeystoreStorage;
+  private networkName: 'mainnet' | 'testnet';
+  private unlocked = new Map<string, KeystoreSigner>(); // by record id
+
+  constructor(storage: KeystoreStorage, network: StacksNetwork | 'mainnet' | 'testnet') {
+    this.storage = storage;
+    this.networkName = typeof network === 'string' ? network : StacksUtils.getNetworkName(network);
+  }
+
+  // Encrypt and store a key, generating a new one when none is given
+  async create(label: string, password: string, privateKey?: string): Promise<KeystoreAccount> {
+    await this.assertLabelAvailable(label);
+    if (!password) {
+      throw new Error('A password is required to encrypt the account');
+    }
+
+    const now = new Date().toISOString();
+    const record: KeystoreRecord = {
+      id: randomUUID(),
+      label,
+      createdAt: now,
+      updatedAt: now,
+      keystore: await encryptPrivateKey(privateKey ?? StacksUtils.generatePrivateKey(), password),
+    };
+
+    await this.storage.write(record);
+    return this.describe(record);
+  }
+
+  async list(): Promise<KeystoreAccount[]> {
+    const records = await this.storage.list();
+    return records
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((record) => this.describe(record));
+  }
+
+  async get(label: string): Promise<KeystoreAccount | undefined> {
+    const record = await this.findRecord(label);
+    return record && this.describe(record);
+  }
+
+  async setLabel(label: string, newLabel: string): Promise<KeystoreAccount> {
+    const record = await this.requireRecord(label);
+    if (newLabel !== record.label) {
+      await this.assertLabelAvailable(newLabel);
+    }
+
+    const updated = { ...record, label: newLabel, updatedAt: new Date().toISOString() };
+    await this.storage.write(updated);
+    return this.describe(updated);
+  }
+
+  // Decrypt an account and return its signer. Unlocking an account that is
+  // already unlocked still checks the password, then returns the same signer.
+  async unlock(label: string, password: string): Promise<KeystoreSigner> {
+    const record = await this.requireRecord(label);
+    const signer = new KeystoreSigner(record.keystore, this.networkName);
+    await signer.unlock(password);
+
+    const existing = this.unlocked.get(record.id);
+    if (existing && !existing.isLocked()) {
+      return existing;
+    }
+    this.unlocked.set(record.id, signer);
+    return signer;
+  }
+
+  // Drop the decrypted key; signers handed out for this account stop signing
+  async lock(label: string): Promise<boolean> {
+    const record = await this.requireRecord(label);
+    return this.lockId(record.id);
+  }
+
+  lockAll(): void {
+    Array.from(this.unlocked.keys()).forEach((id) => this.lockId(id));
+  }
+
+  async isUnlocked(label: string): Promise<boolean> {
+    const record = await this.requireRecord(label);
+    return this.unlocked.has(record.id);
+  }
+
+  // Re-encrypt an account under a new password, with a fresh salt and IV
+  async rotate(label: string, currentPassword: string, newPassword: string): Promise<KeystoreAccount> {
+    if (!newPassword) {
+      throw new Error('A new password is required');
+    }
+
+    const record = await this.requireRecord(label);
+    const privateKey = await decryptPrivateKey(record.keystore, currentPassword);
+
+    const updated = {
+      ...record,
+      keystore: await encryptPrivateKey(privateKey, newPassword),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.storage.write(updated);
+    return this.describe(updated);
+  }
+
+  // Permanently remove an account. The password is required so an account
+  // cannot be deleted by someone who could not have used it.
+  async delete(label: string, password: string): Promise<boolean> {
+    const record = await this.requireRecord(label);
+    await decryptPrivateKey(record.keystore, password);
+
+    this.lockId(record.id);
+    return await this.storage.delete(record.id);
+  }
+
+  private describe(record: KeystoreRecord): KeystoreAccount {
+    return {
+      id: record.id,
+      label: record.label,
+      address: getAddressFromPublicKey(record.keystore.publicKey, this.networkName),
+      publicKey: record.keystore.publicKey,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      locked: !this.unlocked.has(record.id),
+    };
+  }
+
+  private lockId(id: string): boolean {
+    const signer = this.unlocked.get(id);
+    signer?.lock();
+    return this.unlocked.delete(id);
+  }
+
+  // Accounts are looked up by label, or by id as a fallback
+  private async findRecord(label: string): Promise<KeystoreRecord | undefined> {
+    const records = await this.storage.list();
+    return records.find((record) => record.label === label) ?? records.find((record) => record.id === label);
+  }
+
+  private async requireRecord(label: string): Promise<KeystoreRecord> {
+    const record = await this.findRecord(label);
+    if (!record) {
+      throw new Error(`No keystore account labelled '${label}'`);
+    }
+    return record;
+  }
+
+  private async assertLabelAvailable(label: string): Promise<void> {
+    if (!label) {
+      throw new Error('Account label is required');
+    }
+    if (await this.findRecord(label)) {
+      throw new Error(`A keystore account labelled '${label}' already exists`);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { KeystoreFile } from '../signers/index';
+
+// One stored account: the encrypted key plus its public metadata
+export interface KeystoreRecord {
+  id: string;
+  label: string;
+  createdAt: string;
+  updatedAt: string;
+  keystore: KeystoreFile;
+}
+
+// Where keystore records live. Implement this to keep them in a database,
+// a secrets manager, etc.; records are already encrypted.
+export interface KeystoreStorage {
+  read(id: string): Promise<KeystoreRecord | undefined>;
+  write(record: KeystoreRecord): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<KeystoreRecord[]>;
+}
+
+// Stores each record as <id>.json in a directory only the owner can read
+export class FileKeystoreStorage implements KeystoreStorage {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async read(id: string): Promise<KeystoreRecord | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), 'utf8')) as KeystoreRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(record: KeystoreRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so a crash never leaves a torn record
+    const path = this.pathFor(record.id);
+    const temporaryPath = `${path}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(record, null, 2), { mode: 0o600 });
+    await fs.rename(temporaryPath, path);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<KeystoreRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => /^[A-Za-z0-9-]+\.json$/.test(file))
+        .map((file) => this.read(file.slice(0, -'.json'.length)))
+    );
+    return records.filter((record): record is KeystoreRecord => !!record);
+  }
+
+  private pathFor(id: string): string {
+    if (!/^[A-Za-z0-9-]+$/.test(id)) {
+      throw new Error(`Invalid keystore id '${id}'`);
+    }
+    return join(this.directory, `${id}.json`);
+  }
+}
+
+// Non-persistent storage, useful for tests and short-lived agents
+export class MemoryKeystoreStorage implements KeystoreStorage {
+  private records = new Map<string, KeystoreRecord>();
+
+  async read(id: string): Promise<KeystoreRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async write(record: KeystoreRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async list(): Promise<KeystoreRecord[]> {
+    return Array.from(this.records.values()).map((record) => structuredClone(record));
+  }
+}
@@ -0,0 +1,24 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatModelProvider } from './provider';
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export class AnthropicProvider extends ChatModelProvider {
+  readonly name = 'anthropic';
+  protected model: ChatAnthropic;
+
+  constructor(options: AnthropicProviderOptions) {
+    super();
+    this.model = new ChatAnthropic({
+      apiKey: options.apiKey,
+      model: options.model || 'claude-3-haiku-20240307',
+      temperature: options.temperature ?? 0.1,
+      maxTokens: options.maxTokens ?? 1000,
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { LLMProvider } from './provider';
+import { OpenAIProvider, OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { LLMProviderConfig } from '../types/index';
+
+// LLM provider exports
+export { ChatModelProvider, messageText } from './provider';
+export type { LLMProvider, LLMChatOptions, LLMToolDefinition } from './provider';
+export { OpenAIProvider, OpenAICompatibleProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { ScriptedLLMProvider } from './scripted';
+export type { ScriptedResponse } from './scripted';
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error('An OpenAI-compatible provider needs both baseUrl and model');
+      }
+      return new OpenAICompatibleProvider({ ...config, baseUrl: config.baseUrl, model: config.model });
+    default:
+      throw new Error(`Unknown LLM provider type: ${(config as any).type}`);
+  }
+}
@@ -0,0 +1,33 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatModelProvider } from './provider';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string; // any OpenAI-compatible endpoint, e.g. a local Ollama or vLLM server
+  temperature?: number;
+}
+
+export class OpenAIProvider extends ChatModelProvider {
+  readonly name: string = 'openai';
+  protected model: ChatOpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    super();
+    this.model = new ChatOpenAI({
+      apiKey: options.apiKey,
+      model: options.model || 'gpt-4',
+      temperature: options.temperature ?? 0.1,
+      configuration: options.baseUrl ? { baseURL: options.baseUrl } : undefined,
+    });
+  }
+}
+
+// Local servers usually ignore the API key, but the OpenAI client insists on one
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(options: OpenAIProviderOptions & { baseUrl: string; model: string }) {
+    super({ ...options, apiKey: options.apiKey || 'not-needed' });
+  }
+}
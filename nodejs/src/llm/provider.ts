@@ -0,0 +1,64 @@
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+
+// Function schema handed to the model for native tool calling
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema
+}
+
+export interface LLMChatOptions {
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+}
+
+// Every model the agent talks to (tool matching, the conversational graph,
+// Among Us chat) goes through this interface
+export interface LLMProvider {
+  readonly name: string;
+  chat(messages: BaseMessage[], options?: LLMChatOptions): Promise<AIMessage>;
+}
+
+// Shared implementation for providers backed by a LangChain chat model
+export abstract class ChatModelProvider implements LLMProvider {
+  abstract readonly name: string;
+  protected abstract model: BaseChatModel;
+
+  async chat(messages: BaseMessage[], options: LLMChatOptions = {}): Promise<AIMessage> {
+    const { tools = [], toolChoice = 'auto' } = options;
+
+    if (tools.length === 0) {
+      return (await this.model.invoke(messages)) as AIMessage;
+    }
+
+    if (!this.model.bindTools) {
+      throw new Error(`${this.name} provider does not support tool calling`);
+    }
+
+    const model = this.model.bindTools(
+      tools.map((tool) => ({
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+      { tool_choice: toolChoice } as any
+    );
+
+    return (await model.invoke(messages)) as AIMessage;
+  }
+}
+
+// Flatten a model reply into plain text (some providers return content blocks)
+export function messageText(message: BaseMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+
+  return message.content
+    .map((part: any) => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
@@ -0,0 +1,43 @@
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { LLMChatOptions, LLMProvider } from './provider';
+
+export type ScriptedResponse =
+  | string
+  | AIMessage
+  | ((messages: BaseMessage[], options: LLMChatOptions) => string | AIMessage);
+
+// Deterministic provider for tests and offline demos: replies are returned in
+// the order they were scripted and every request is recorded in `calls`
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly calls: { messages: BaseMessage[]; options: LLMChatOptions }[] = [];
+  private responses: ScriptedResponse[];
+
+  constructor(responses: ScriptedResponse[] = []) {
+    this.responses = [...responses];
+  }
+
+  // Build a reply that asks for a single tool call
+  static toolCall(name: string, args: Record<string, any>, id: string = `call_${name}`): AIMessage {
+    return new AIMessage({
+      content: '',
+      tool_calls: [{ id, name, args, type: 'tool_call' }],
+    });
+  }
+
+  enqueue(...responses: ScriptedResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  async chat(messages: BaseMessage[], options: LLMChatOptions = {}): Promise<AIMessage> {
+    this.calls.push({ messages, options });
+
+    const next = this.responses.shift();
+    if (next === undefined) {
+      throw new Error('ScriptedLLMProvider has no scripted responses left');
+    }
+
+    const response = typeof next === 'function' ? next(messages, options) : next;
+    return typeof response === 'string' ? new AIMessage(response) : response;
+  }
+}
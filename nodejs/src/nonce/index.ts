@@ -0,0 +1,3 @@
+// Nonce management exports
+export { NonceManager } from './nonce-manager';
+export type { NonceManagerOptions } from './nonce-manager';
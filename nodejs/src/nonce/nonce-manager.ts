@@ -0,0 +1,169 @@
+import { StacksNetwork } from '@stacks/network';
+import { NonceInfo } from '../types/index';
+
+export interface NonceManagerOptions {
+  // How long a broadcast nonce counts as pending before the API has to show
+  // it. After that it is assumed dropped from the mempool and reused.
+  pendingTimeoutMs?: number;
+}
+
+interface AddressState {
+  reserved: Set<number>; // handed to a tool, not broadcast yet
+  broadcast: Map<number, number>; // broadcast by us -> time, until the API reflects it
+  queue: Promise<unknown>; // serializes reservations for the address
+}
+
+interface ChainNonces {
+  possibleNextNonce: number;
+  lastExecutedNonce?: number;
+  lastMempoolNonce?: number;
+  missingNonces: number[];
+}
+
+// Broadcast errors meaning the nonce is already taken, so it must not be reused
+const NONCE_IN_USE = /ConflictingNonceInMempool|BadNonce/;
+
+// Hands out nonces per address for every signing tool of an agent. Nonces are
+// reserved locally, so transactions sent back to back do not collide before
+// the API has seen the first one, and are reconciled with the Extended API's
+// possible_next_nonce and missing-nonce detection on every reservation.
+export class NonceManager {
+  private network: StacksNetwork;
+  private pendingTimeoutMs: number;
+  private states = new Map<string, AddressState>();
+
+  constructor(network: StacksNetwork, options: NonceManagerOptions = {}) {
+    this.network = network;
+    this.pendingTimeoutMs = options.pendingTimeoutMs ?? 120_000;
+  }
+
+  // Run a signing and broadcast step with a reserved nonce. On success the
+  // nonce stays pending until the API reflects it; on failure it is released
+  // for reuse, unless the node reported it as already in use. An explicit
+  // nonce is tracked the same way.
+  async withNonce<T>(address: string, run: (nonce: number) => Promise<T>, nonce?: number): Promise<T> {
+    const reserved = nonce ?? (await this.reserve(address));
+    if (nonce !== undefined) {
+      this.state(address).reserved.add(nonce);
+    }
+
+    try {
+      const result = await run(reserved);
+      this.markBroadcast(address, reserved);
+      return result;
+    } catch (error) {
+      if (error instanceof Error && NONCE_IN_USE.test(error.message)) {
+        this.markBroadcast(address, reserved);
+      } else {
+        this.release(address, reserved);
+      }
+      throw error;
+    }
+  }
+
+  async reserve(address: string): Promise<number> {
+    const state = this.state(address);
+    const reservation = state.queue.then(async () => {
+      const nonce = this.nextAvailable(state, await this.fetchChainNonces(address));
+      state.reserved.add(nonce);
+      return nonce;
+    });
+    state.queue = reservation.catch(() => undefined);
+    return reservation;
+  }
+
+  // The nonce the next reservation would get, without reserving it
+  async peek(address: string): Promise<number> {
+    return this.nextAvailable(this.state(address), await this.fetchChainNonces(address));
+  }
+
+  release(address: string, nonce: number): void {
+    this.state(address).reserved.delete(nonce);
+  }
+
+  markBroadcast(address: string, nonce: number): void {
+    const state = this.state(address);
+    state.reserved.delete(nonce);
+    state.broadcast.set(nonce, Date.now());
+  }
+
+  async getNonceInfo(address: string): Promise<NonceInfo> {
+    const state = this.state(address);
+    const chain = await this.fetchChainNonces(address);
+    const nextNonce = this.nextAvailable(state, chain);
+
+    return {
+      address,
+      nextNonce,
+      ...chain,
+      reservedNonces: Array.from(state.reserved).sort((a, b) => a - b),
+      pendingNonces: Array.from(state.broadcast.keys()).sort((a, b) => a - b),
+    };
+  }
+
+  // Forget local state, e.g. after transactions were sent from another wallet
+  reset(address?: string): void {
+    if (address) {
+      this.states.delete(address);
+    } else {
+      this.states.clear();
+    }
+  }
+
+  private state(address: string): AddressState {
+    let state = this.states.get(address);
+    if (!state) {
+      state = { reserved: new Set(), broadcast: new Map(), queue: Promise.resolve() };
+      this.states.set(address, state);
+    }
+    return state;
+  }
+
+  private nextAvailable(state: AddressState, chain: ChainNonces): number {
+    const now = Date.now();
+    const missing = new Set(chain.missingNonces);
+
+    // Stop tracking broadcasts the API now reflects, and ones it never showed
+    // in time (dropped from the mempool)
+    state.broadcast.forEach((broadcastAt, nonce) => {
+      const reflected = nonce < chain.possibleNextNonce && !missing.has(nonce);
+      if (reflected || now - broadcastAt > this.pendingTimeoutMs) {
+        state.broadcast.delete(nonce);
+      }
+    });
+
+    const used = new Set([...state.reserved, ...state.broadcast.keys()]);
+    const highestUsed = Math.max(chain.possibleNextNonce - 1, ...used);
+
+    // Fill gaps first: nonces the API reports missing below queued mempool
+    // transactions, then holes left locally by failed broadcasts
+    const candidates = [...chain.missingNonces];
+    for (let nonce = chain.possibleNextNonce; nonce <= highestUsed; nonce++) {
+      candidates.push(nonce);
+    }
+    const gaps = candidates.filter((nonce) => !used.has(nonce)).sort((a, b) => a - b);
+
+    return gaps.length ? gaps[0] : highestUsed + 1;
+  }
+
+  private async fetchChainNonces(address: string): Promise<ChainNonces> {
+    const response = await fetch(`${this.network.client.baseUrl}/extended/v1/address/${address}/nonces`);
+    if (response.ok) {
+      const nonces = await response.json();
+      return {
+        possibleNextNonce: nonces.possible_next_nonce,
+        lastExecutedNonce: nonces.last_executed_tx_nonce ?? undefined,
+        lastMempoolNonce: nonces.last_mempool_tx_nonce ?? undefined,
+        missingNonces: nonces.detected_missing_nonces || [],
+      };
+    }
+
+    // Nodes without the Extended API only report the confirmed nonce
+    const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${address}?proof=0`);
+    if (!accountResponse.ok) {
+      throw new Error(`Failed to fetch account nonce: ${accountResponse.statusText}`);
+    }
+    const accountInfo = await accountResponse.json();
+    return { possibleNextNonce: parseInt(accountInfo.nonce || '0'), missingNonces: [] };
+  }
+}
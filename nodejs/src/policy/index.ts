@@ -0,0 +1,3 @@
+// Spending policy exports
+export { SpendingPolicy, policyViolationResult, postConditionedAmount, transactionPolicyAction } from './spending-policy';
+export type { PolicyReservation } from './spending-policy';
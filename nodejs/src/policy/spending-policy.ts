@@ -0,0 +1,242 @@
+import { StacksNetwork } from '@stacks/network';
+import {
+  PayloadType,
+  PostConditionMode,
+  StacksTransactionWire,
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  addressToString,
+  wireToPostCondition,
+} from '@stacks/transactions';
+import {
+  SpendingPolicyConfig,
+  PolicyAction,
+  PolicyViolation,
+  PolicyViolationCode,
+  ToolResult,
+} from '../types/index';
+import { PostConditionSpec, maxStxSent } from '../postconditions/index';
+import { StacksUtils } from '../utils/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SpendRecord {
+  timestamp: number;
+  microSTX: bigint;
+}
+
+// Held against the daily limit from the check until released
+export interface PolicyReservation {
+  violation?: PolicyViolation;
+  release(): void; // the action failed: stop counting it
+}
+
+// Declarative limits on what an agent-controlled wallet may sign. Actions are
+// checked with evaluate() before signing and recorded after a successful
+// broadcast so the rolling daily limit can be enforced. reserve() does both
+// at once, so concurrent actions cannot pass against the same total.
+export class SpendingPolicy {
+  private config: SpendingPolicyConfig;
+  private network: 'mainnet' | 'testnet';
+  private ledger: SpendRecord[] = [];
+
+  constructor(config: SpendingPolicyConfig, network: 'mainnet' | 'testnet') {
+    this.config = { ...config };
+    this.network = network;
+  }
+
+  getConfig(): SpendingPolicyConfig {
+    return { ...this.config };
+  }
+
+  // Flip the mainnet kill switch at runtime, e.g. from an operator endpoint
+  setMainnetKillSwitch(enabled: boolean): void {
+    this.config.mainnetKillSwitch = enabled;
+  }
+
+  // Whether the fee has to be known up front to evaluate an action
+  get limitsFees(): boolean {
+    return this.config.maxFee !== undefined;
+  }
+
+  evaluate(action: PolicyAction, now: number = Date.now()): PolicyViolation | undefined {
+    const { config } = this;
+
+    if (config.mainnetKillSwitch && this.network === 'mainnet') {
+      return violation('MAINNET_DISABLED', 'Signing on mainnet is disabled by the mainnet kill switch');
+    }
+
+    if (action.recipient) {
+      if (config.deniedRecipients?.includes(action.recipient)) {
+        return violation('RECIPIENT_DENIED', `Recipient ${action.recipient} is on the deny list`);
+      }
+      if (config.allowedRecipients && !config.allowedRecipients.includes(action.recipient)) {
+        return violation('RECIPIENT_NOT_ALLOWED', `Recipient ${action.recipient} is not on the allow list`);
+      }
+    }
+
+    if (action.contract && config.allowedContractCalls && !this.isContractCallAllowed(action.contract)) {
+      return violation('CONTRACT_NOT_ALLOWED', `Contract call ${action.contract} is not on the allow list`);
+    }
+
+    if (config.maxFee !== undefined) {
+      if (action.fee === undefined) {
+        return violation('FEE_UNKNOWN', 'The transaction fee could not be determined, so it cannot be checked against the fee limit');
+      }
+      if (StacksUtils.toMicroSTX(action.fee) > StacksUtils.toMicroSTX(config.maxFee)) {
+        return violation(
+          'FEE_LIMIT_EXCEEDED',
+          `Fee of ${action.fee} STX exceeds the limit of ${config.maxFee} STX`,
+          config.maxFee,
+          action.fee
+        );
+      }
+    }
+
+    if (action.amountUnbounded && (config.maxPerTransaction !== undefined || config.dailyLimit !== undefined)) {
+      return violation(
+        'AMOUNT_UNBOUNDED',
+        'Nothing caps the STX this transaction can send (allow mode without an STX post-condition on the sender), so it cannot be checked against the STX limits'
+      );
+    }
+
+    if (action.amount !== undefined) {
+      const amount = StacksUtils.toMicroSTX(action.amount);
+
+      if (config.maxPerTransaction !== undefined && amount > StacksUtils.toMicroSTX(config.maxPerTransaction)) {
+        return violation(
+          'TRANSACTION_LIMIT_EXCEEDED',
+          `Amount of ${action.amount} STX exceeds the per-transaction limit of ${config.maxPerTransaction} STX`,
+          config.maxPerTransaction,
+          action.amount
+        );
+      }
+
+      if (config.dailyLimit !== undefined) {
+        const spent = this.spentInWindow(now);
+        if (spent + amount > StacksUtils.toMicroSTX(config.dailyLimit)) {
+          return violation(
+            'DAILY_LIMIT_EXCEEDED',
+            `Amount of ${action.amount} STX would exceed the daily limit of ${config.dailyLimit} STX ` +
+              `(${StacksUtils.formatSTX(spent.toString())} STX already spent in the last 24 hours)`,
+            config.dailyLimit,
+            action.amount
+          );
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  // Count a successfully broadcast action towards the daily limit
+  record(action: PolicyAction, now: number = Date.now()): void {
+    if (action.amount === undefined) {
+      return;
+    }
+    this.ledger.push({ timestamp: now, microSTX: StacksUtils.toMicroSTX(action.amount) });
+  }
+
+  // Evaluate the action and, when it passes, count it right away. Release
+  // the reservation if the action then fails.
+  reserve(action: PolicyAction, now: number = Date.now()): PolicyReservation {
+    const violation = this.evaluate(action, now);
+    if (violation || action.amount === undefined) {
+      return { violation, release: () => {} };
+    }
+
+    const entry: SpendRecord = { timestamp: now, microSTX: StacksUtils.toMicroSTX(action.amount) };
+    this.ledger.push(entry);
+    return {
+      release: () => {
+        this.ledger = this.ledger.filter((recorded) => recorded !== entry);
+      },
+    };
+  }
+
+  // STX spent in the rolling 24 hour window
+  getDailySpent(now: number = Date.now()): string {
+    return StacksUtils.formatSTX(this.spentInWindow(now).toString());
+  }
+
+  private spentInWindow(now: number): bigint {
+    this.ledger = this.ledger.filter((entry) => now - entry.timestamp < DAY_MS);
+    return this.ledger.reduce((total, entry) => total + entry.microSTX, BigInt(0));
+  }
+
+  private isContractCallAllowed(contract: string): boolean {
+    const [contractId] = contract.split('::');
+    return this.config.allowedContractCalls!.some(
+      (entry) => entry === contract || entry === `${contractId}::*`
+    );
+  }
+}
+
+// The amount fields of a PolicyAction for a transaction whose STX transfers
+// are bounded by post-conditions; see maxStxSent
+export function postConditionedAmount(
+  postConditions: PostConditionSpec[],
+  sender: string,
+  mode: 'allow' | 'deny'
+): Pick<PolicyAction, 'amount' | 'amountUnbounded'> {
+  const max = maxStxSent(postConditions, sender, mode);
+  if (max === undefined) {
+    return { amountUnbounded: true };
+  }
+  return max > BigInt(0) ? { amount: StacksUtils.formatSTX(max.toString()) } : {};
+}
+
+// A transaction built elsewhere, e.g. a multi-sig transaction the agent
+// co-signs, as the spending policy sees it. Only transfers and contract calls
+// have an amount that can be bounded.
+export function transactionPolicyAction(
+  tool: string,
+  transaction: StacksTransactionWire,
+  network: StacksNetwork
+): PolicyAction {
+  const { spendingCondition } = transaction.auth;
+  const fee = StacksUtils.formatSTX(spendingCondition.fee.toString());
+  const { payload } = transaction;
+
+  switch (payload.payloadType) {
+    case PayloadType.TokenTransfer:
+      return { tool, amount: StacksUtils.formatSTX(payload.amount.toString()), recipient: payload.recipient.value, fee };
+    case PayloadType.ContractCall: {
+      const origin = addressToString(
+        addressFromVersionHash(addressHashModeToVersion(spendingCondition.hashMode, network), spendingCondition.signer)
+      );
+      const postConditions = transaction.postConditions.values
+        .map(wireToPostCondition)
+        .flatMap((postCondition): PostConditionSpec[] =>
+          postCondition.type === 'stx-postcondition' ? [{ ...postCondition, amount: BigInt(postCondition.amount) }] : []
+        );
+      const mode = transaction.postConditionMode === PostConditionMode.Deny ? 'deny' : 'allow';
+      return {
+        tool,
+        ...postConditionedAmount(postConditions, origin, mode),
+        contract: `${addressToString(payload.contractAddress)}.${payload.contractName.content}::${payload.functionName.content}`,
+        fee,
+      };
+    }
+    default:
+      return { tool, amountUnbounded: true, fee };
+  }
+}
+
+// ToolResult returned in place of the tool's own result when the policy blocks it
+export function policyViolationResult(policyViolation: PolicyViolation): ToolResult {
+  return {
+    success: false,
+    error: `Spending policy violation (${policyViolation.code}): ${policyViolation.message}`,
+    policyViolation,
+  };
+}
+
+function violation(
+  code: PolicyViolationCode,
+  message: string,
+  limit?: string,
+  attempted?: string
+): PolicyViolation {
+  return { code, message, limit, attempted };
+}
@@ -0,0 +1,10 @@
+// Post-condition exports
+export {
+  buildPostCondition,
+  buildPostConditions,
+  describePostCondition,
+  maxStxSent,
+  parseAssetString,
+  toJsonPostCondition,
+} from './post-condition-builder';
+export type { PostConditionSpec } from './post-condition-builder';
@@ -0,0 +1,212 @@
+import {
+  ClarityType,
+  ClarityValue,
+  PostCondition,
+  AssetString,
+  cvToHex,
+  cvToString,
+  hexToCV,
+  uintCV,
+  validateStacksAddress,
+} from '@stacks/transactions';
+import { StacksUtils } from '../utils/index';
+
+const FUNGIBLE_CONDITIONS = ['eq', 'gt', 'gte', 'lt', 'lte'] as const;
+const NON_FUNGIBLE_CONDITIONS = ['sent', 'not-sent'] as const;
+
+// A post-condition as tools, HTTP callers and LLMs write it. STX amounts are
+// in STX ("1.5") unless given as a bigint of microSTX; FT amounts are in the
+// token's base units. Assets are "address.contract-name::asset-name".
+export interface PostConditionSpec {
+  type: 'stx-postcondition' | 'ft-postcondition' | 'nft-postcondition';
+  address: string; // principal whose assets are covered: an address or contract id
+  condition: (typeof FUNGIBLE_CONDITIONS)[number] | (typeof NON_FUNGIBLE_CONDITIONS)[number];
+  amount?: string | bigint | number;
+  asset?: string;
+  assetId?: ClarityValue | string | number | bigint; // NFT id: a ClarityValue, a uint or hex-serialized Clarity
+}
+
+// "address.contract-name::asset-name" -> contract id and asset name
+export function parseAssetString(asset: string): { contractId: string; assetName: string } {
+  const [contractId, assetName, ...rest] = asset.split('::');
+  if (!contractId || !assetName || rest.length) {
+    throw new Error(`Invalid asset '${asset}', expected "address.contract-name::asset-name"`);
+  }
+  validatePrincipal(contractId);
+  if (!contractId.includes('.')) {
+    throw new Error(`Invalid asset '${asset}', expected "address.contract-name::asset-name"`);
+  }
+  return { contractId, assetName };
+}
+
+// Turns a spec into a @stacks/transactions post-condition, or throws with
+// what is wrong with it
+export function buildPostCondition(spec: PostConditionSpec): PostCondition {
+  validatePrincipal(spec.address);
+
+  switch (spec.type) {
+    case 'stx-postcondition':
+      return {
+        type: 'stx-postcondition',
+        address: spec.address,
+        condition: fungibleCondition(spec),
+        amount: microSTX(spec.amount),
+      };
+    case 'ft-postcondition':
+      return {
+        type: 'ft-postcondition',
+        address: spec.address,
+        condition: fungibleCondition(spec),
+        asset: assetString(spec),
+        amount: baseUnits(spec.amount),
+      };
+    case 'nft-postcondition':
+      if (!(NON_FUNGIBLE_CONDITIONS as readonly string[]).includes(spec.condition)) {
+        throw new Error(`NFT post-conditions take 'sent' or 'not-sent', not '${spec.condition}'`);
+      }
+      return {
+        type: 'nft-postcondition',
+        address: spec.address,
+        condition: spec.condition as (typeof NON_FUNGIBLE_CONDITIONS)[number],
+        asset: assetString(spec),
+        assetId: nftId(spec.assetId),
+      };
+    default:
+      throw new Error(`Unknown post-condition type '${(spec as PostConditionSpec).type}'`);
+  }
+}
+
+// Errors name the offending entry, e.g. "Invalid post-condition #2: ..."
+export function buildPostConditions(specs: PostConditionSpec[]): PostCondition[] {
+  return specs.map((spec, i) => {
+    try {
+      return buildPostCondition(spec);
+    } catch (error) {
+      throw new Error(`Invalid post-condition #${i + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+// The same spec with plain JSON values only, e.g. to keep it in state that
+// must serialize: STX amounts in STX, token amounts as strings and NFT ids
+// as hex-serialized Clarity
+export function toJsonPostCondition(spec: PostConditionSpec): PostConditionSpec {
+  const json = { ...spec };
+  if (typeof spec.amount === 'bigint') {
+    json.amount = spec.type === 'stx-postcondition' ? StacksUtils.formatSTX(spec.amount.toString()) : spec.amount.toString();
+  }
+  if (spec.assetId !== undefined && typeof spec.assetId !== 'string' && typeof spec.assetId !== 'number') {
+    json.assetId = cvToHex(nftId(spec.assetId));
+  }
+  return json;
+}
+
+// The most STX sender can send in a transaction with these post-conditions,
+// or undefined when nothing caps it. The sender's eq, lt and lte conditions
+// cap it; in deny mode a sender without an STX post-condition sends none.
+export function maxStxSent(specs: PostConditionSpec[], sender: string, mode: 'allow' | 'deny'): bigint | undefined {
+  const senderStx = specs.filter((spec) => spec.type === 'stx-postcondition' && spec.address === sender);
+  const caps = senderStx.filter((spec) => ['eq', 'lt', 'lte'].includes(spec.condition));
+  if (caps.length) {
+    return caps.reduce((total, spec) => total + microSTX(spec.amount), BigInt(0));
+  }
+  return mode === 'deny' && !senderStx.length ? BigInt(0) : undefined;
+}
+
+const COMPARISONS: Record<(typeof FUNGIBLE_CONDITIONS)[number], string> = {
+  eq: 'exactly',
+  gt: 'more than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+};
+
+// One line for confirmation summaries, e.g. "ST1… sends at least 1.5 STX"
+export function describePostCondition(spec: PostConditionSpec): string {
+  if (spec.type === 'nft-postcondition') {
+    const verb = spec.condition === 'sent' ? 'sends' : 'does not send';
+    return `${spec.address} ${verb} ${spec.asset} ${nftIdLabel(spec.assetId)}`;
+  }
+
+  const comparison = COMPARISONS[spec.condition as (typeof FUNGIBLE_CONDITIONS)[number]] ?? spec.condition;
+  const amount =
+    spec.type === 'stx-postcondition'
+      ? `${typeof spec.amount === 'bigint' ? StacksUtils.formatSTX(spec.amount.toString()) : spec.amount} STX`
+      : `${spec.amount} (base units) of ${spec.asset}`;
+  return `${spec.address} sends ${comparison} ${amount}`;
+}
+
+function validatePrincipal(principal: string): void {
+  const [address, contractName, ...rest] = principal.split('.');
+  const validName = contractName === undefined || /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/.test(contractName);
+  if (!validateStacksAddress(address) || !validName || rest.length) {
+    throw new Error(`Invalid principal '${principal}'`);
+  }
+}
+
+function fungibleCondition(spec: PostConditionSpec): (typeof FUNGIBLE_CONDITIONS)[number] {
+  if (!(FUNGIBLE_CONDITIONS as readonly string[]).includes(spec.condition)) {
+    throw new Error(`${spec.type} takes eq, gt, gte, lt or lte, not '${spec.condition}'`);
+  }
+  return spec.condition as (typeof FUNGIBLE_CONDITIONS)[number];
+}
+
+function assetString(spec: PostConditionSpec): AssetString {
+  if (!spec.asset) {
+    throw new Error(`${spec.type} requires an asset ("address.contract-name::asset-name")`);
+  }
+  const { contractId, assetName } = parseAssetString(spec.asset);
+  return `${contractId}::${assetName}` as AssetString;
+}
+
+function microSTX(amount: PostConditionSpec['amount']): bigint {
+  if (amount === undefined) {
+    throw new Error('STX post-conditions need an amount');
+  }
+  return StacksUtils.toMicroSTX(amount);
+}
+
+function baseUnits(amount: PostConditionSpec['amount']): bigint {
+  if (typeof amount === 'bigint') {
+    return nonNegative(amount);
+  }
+  const units = typeof amount === 'number' ? String(amount) : amount?.trim();
+  if (!units || !/^\d+$/.test(units)) {
+    throw new Error(`Invalid token amount '${amount}', expected a whole number of base units`);
+  }
+  return BigInt(units);
+}
+
+function nonNegative(amount: bigint): bigint {
+  if (amount < BigInt(0)) {
+    throw new Error('Amounts cannot be negative');
+  }
+  return amount;
+}
+
+function nftId(assetId: PostConditionSpec['assetId']): ClarityValue {
+  if (typeof assetId === 'object' && assetId !== null && 'type' in assetId) {
+    return assetId;
+  }
+  if (typeof assetId === 'bigint') {
+    return uintCV(nonNegative(assetId));
+  }
+  const id = typeof assetId === 'number' ? String(assetId) : assetId?.trim();
+  if (id && /^u?\d+$/.test(id)) {
+    return uintCV(id.replace(/^u/, ''));
+  }
+  if (id && /^0x([0-9a-fA-F]{2})+$/.test(id)) {
+    return hexToCV(id);
+  }
+  throw new Error(`Invalid NFT id '${assetId}', expected a uint (e.g. "5") or hex-serialized Clarity value`);
+}
+
+// "#5" for uint ids, Clarity notation otherwise
+function nftIdLabel(assetId: PostConditionSpec['assetId']): string {
+  try {
+    const id = nftId(assetId);
+    return id.type === ClarityType.UInt ? `#${id.value}` : cvToString(id);
+  } catch {
+    return String(assetId);
+  }
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ToolResult } from '../types/index';
+
+// Human-readable description of what a state-changing tool call will do
+export interface ActionSummary {
+  description: string;
+  amount?: string;
+  recipient?: string;
+  fee?: string;
+  postConditions?: string[];
+  // Arguments to run with once approved, when the review pinned values that
+  // must not be recomputed at execute time (e.g. simulated post-conditions)
+  params?: Record<string, any>;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny, R = any> {
+  name: string;
+  description: string;
+  schema: S;
+  // Tools that sign or broadcast transactions must be confirmed by a human
+  // before the conversational agent runs them
+  stateChanging?: boolean;
+  summarize?: (params: z.output<S>) => ActionSummary | Promise<ActionSummary>;
+  execute: (params: z.output<S>) => Promise<ToolResult<R>>;
+}
+
+export interface AgentTool<S extends z.ZodTypeAny = z.ZodTypeAny, R = any> {
+  name: string;
+  description: string;
+  schema: S;
+  parameters: Record<string, any>; // JSON Schema generated from `schema`
+  stateChanging: boolean;
+  summarize(params: z.input<S>): Promise<ActionSummary>;
+  execute(params: z.input<S>): Promise<ToolResult<R>>;
+}
+
+// Define an agent tool from a zod schema. The schema drives the TypeScript
+// type of `execute`, the JSON Schema handed to the LLM, and the runtime
+// validation that runs before `execute` sees the arguments.
+export function defineTool<S extends z.ZodTypeAny, R = any>(
+  definition: ToolDefinition<S, R>
+): AgentTool<S, R> {
+  const { name, description, schema } = definition;
+  const { $schema, ...parameters } = toJsonSchema(schema);
+
+  return {
+    name,
+    description,
+    schema,
+    parameters,
+    stateChanging: definition.stateChanging ?? false,
+    summarize: async (params) => {
+      const parsed = schema.safeParse(params ?? {});
+      if (!parsed.success || !definition.summarize) {
+        return { description: `Run ${name} with ${JSON.stringify(params ?? {})}` };
+      }
+
+      return await definition.summarize(parsed.data);
+    },
+    execute: async (params) => {
+      const parsed = schema.safeParse(params ?? {});
+      if (!parsed.success) {
+        return {
+          success: false,
+          error: `Invalid arguments for ${name}: ${formatIssues(parsed.error)}`,
+        };
+      }
+
+      return await definition.execute(parsed.data);
+    },
+  };
+}
+
+// zodToJsonSchema's generic signature trips "excessively deep" instantiation
+// errors with some zod versions, so call it through a plain signature
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const convert = zodToJsonSchema as (schema: unknown, options: object) => Record<string, any>;
+  return convert(schema, { $refStrategy: 'none' });
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
@@ -0,0 +1,4 @@
+// Tool registry exports
+export { defineTool } from './define-tool';
+export type { AgentTool, ToolDefinition, ActionSummary } from './define-tool';
+export { ToolRegistry } from './tool-registry';
@@ -0,0 +1,59 @@
+import { AgentTool } from './define-tool';
+import { ToolResult } from '../types/index';
+
+// Named collection of agent tools. Agents compose a registry instead of
+// hardcoding their tool list, so callers can add, remove or override tools
+// without subclassing.
+export class ToolRegistry {
+  private tools = new Map<string, AgentTool>();
+
+  constructor(tools: AgentTool[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  register(tool: AgentTool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool '${tool.name}' is already registered. Use override() to replace it.`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  // Replace an existing tool (or add it if missing)
+  override(tool: AgentTool): this {
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): AgentTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): AgentTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  async execute(name: string, params: unknown): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return {
+        success: false,
+        error: `Unknown tool: ${name}`,
+      };
+    }
+
+    return await tool.execute(params as any);
+  }
+}
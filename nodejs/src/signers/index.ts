@@ -0,0 +1,10 @@
+// Signer exports
+export { isSigner, signWithPrivateKey } from './signer';
+export type { Signer, SignTransactionOptions } from './signer';
+export { LocalSigner } from './local-signer';
+export { KeystoreSigner, encryptPrivateKey, decryptPrivateKey } from './keystore-signer';
+export type { KeystoreFile } from './keystore-signer';
+export { RemoteSigner } from './remote-signer';
+export type { RemoteSignerOptions } from './remote-signer';
+export { createRemoteSignerServer } from './remote-signer-server';
+export type { RemoteSignerServerOptions } from './remote-signer-server';
@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import { randomBytes, scrypt, createCipheriv, createDecipheriv } from 'crypto';
+import {
+  StacksTransactionWire,
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  publicKeyToHex,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { Signer, SignTransactionOptions, signWithPrivateKey } from './signer';
+import { StacksUtils } from '../utils/index';
+
+// Password-encrypted private key as stored on disk. The public key is kept in
+// the clear so the address is available while the keystore is locked.
+export interface KeystoreFile {
+  version: 1;
+  publicKey: string;
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: { n: number; r: number; p: number; dklen: number; salt: string };
+    cipher: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+    ciphertext: string;
+  };
+}
+
+const SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1, dklen: 32 };
+
+// What a keystore file may ask scrypt for. The file is read before the
+// password is checked, so a tampered one must not be able to demand hours of
+// work or gigabytes of memory, or a trivially cheap key.
+const SCRYPT_LIMITS = { n: [2 ** 14, 2 ** 20], r: [1, 16], p: [1, 4] };
+const SCRYPT_MAX_MEMORY = 256 * 1024 * 1024; // bytes, 128 * n * r
+
+function assertKdfParams(params: KeystoreFile['crypto']['kdfparams']): void {
+  const { n, r, p, dklen, salt } = params ?? {};
+  const inRange = (value: unknown, [min, max]: number[]) =>
+    Number.isSafeInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  if (!inRange(n, SCRYPT_LIMITS.n) || (n & (n - 1)) !== 0) {
+    throw new Error(`Unsupported keystore scrypt parameter n=${n}: expected a power of 2 from 2^14 to 2^20`);
+  }
+  if (!inRange(r, SCRYPT_LIMITS.r) || !inRange(p, SCRYPT_LIMITS.p)) {
+    throw new Error(`Unsupported keystore scrypt parameters r=${r}, p=${p}: expected r from 1 to 16 and p from 1 to 4`);
+  }
+  if (128 * n * r > SCRYPT_MAX_MEMORY) {
+    throw new Error(`Unsupported keystore scrypt parameters n=${n}, r=${r}: they need more than 256 MiB`);
+  }
+  if (dklen !== 32) {
+    throw new Error(`Unsupported keystore scrypt key length ${dklen}: aes-256-gcm needs 32 bytes`);
+  }
+  if (typeof salt !== 'string' || !/^([0-9a-fA-F]{2}){16,}$/.test(salt)) {
+    throw new Error('Invalid keystore scrypt salt: expected at least 16 bytes of hex');
+  }
+}
+
+function deriveKey(
+  password: string,
+  params: KeystoreFile['crypto']['kdfparams']
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      Buffer.from(params.salt, 'hex'),
+      params.dklen,
+      { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+export async function encryptPrivateKey(privateKey: string, password: string): Promise<KeystoreFile> {
+  if (!StacksUtils.validatePrivateKey(privateKey)) {
+    throw new Error('Invalid private key format');
+  }
+
+  const kdfparams = { ...SCRYPT_PARAMS, salt: randomBytes(32).toString('hex') };
+  const key = await deriveKey(password, kdfparams);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    publicKey: publicKeyToHex(privateKeyToPublic(privateKey)),
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams,
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    },
+  };
+}
+
+export async function decryptPrivateKey(keystore: KeystoreFile, password: string): Promise<string> {
+  if (keystore.version !== 1 || keystore.crypto.kdf !== 'scrypt' || keystore.crypto.cipher !== 'aes-256-gcm') {
+    throw new Error('Unsupported keystore format');
+  }
+  assertKdfParams(keystore.crypto.kdfparams);
+
+  const key = await deriveKey(password, keystore.crypto.kdfparams);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.crypto.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(keystore.crypto.tag, 'hex'));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(keystore.crypto.ciphertext, 'hex')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Incorrect keystore password');
+  }
+}
+
+// Signer backed by a password-encrypted keystore file. It starts locked;
+// unlock() decrypts the key into memory and lock() drops it again.
+export class KeystoreSigner implements Signer {
+  private keystore: KeystoreFile;
+  private networkName: 'mainnet' | 'testnet';
+  private privateKey?: string;
+
+  constructor(keystore: KeystoreFile, network: StacksNetwork | 'mainnet' | 'testnet') {
+    this.keystore = keystore;
+    this.networkName = typeof network === 'string' ? network : StacksUtils.getNetworkName(network);
+  }
+
+  // Encrypt a key and write it to a new keystore file
+  static async create(
+    path: string,
+    privateKey: string,
+    password: string,
+    network: StacksNetwork | 'mainnet' | 'testnet'
+  ): Promise<KeystoreSigner> {
+    const keystore = await encryptPrivateKey(privateKey, password);
+    await fs.writeFile(path, JSON.stringify(keystore, null, 2), { mode: 0o600, flag: 'wx' });
+    return new KeystoreSigner(keystore, network);
+  }
+
+  static async load(path: string, network: StacksNetwork | 'mainnet' | 'testnet'): Promise<KeystoreSigner> {
+    const keystore = JSON.parse(await fs.readFile(path, 'utf8')) as KeystoreFile;
+    return new KeystoreSigner(keystore, network);
+  }
+
+  async unlock(password: string): Promise<void> {
+    const privateKey = await decryptPrivateKey(this.keystore, password);
+    if (publicKeyToHex(privateKeyToPublic(privateKey)) !== this.keystore.publicKey) {
+      throw new Error('Keystore public key does not match the decrypted private key');
+    }
+    this.privateKey = privateKey;
+  }
+
+  lock(): void {
+    this.privateKey = undefined;
+  }
+
+  isLocked(): boolean {
+    return this.privateKey === undefined;
+  }
+
+  async getAddress(): Promise<string> {
+    return getAddressFromPublicKey(this.keystore.publicKey, this.networkName);
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.keystore.publicKey;
+  }
+
+  async signTransaction(
+    transaction: StacksTransactionWire,
+    options?: SignTransactionOptions
+  ): Promise<StacksTransactionWire> {
+    if (!this.privateKey) {
+      throw new Error('Keystore is locked. Call unlock() with the keystore password first.');
+    }
+    return signWithPrivateKey(transaction, this.privateKey, options);
+  }
+}
@@ -0,0 +1,38 @@
+import { StacksTransactionWire } from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { Signer, SignTransactionOptions, signWithPrivateKey } from './signer';
+import { StacksUtils } from '../utils/index';
+
+// Signer backed by a private key held in memory
+export class LocalSigner implements Signer {
+  private privateKey: string;
+  private publicKey: string;
+  private address: string;
+
+  constructor(privateKey: string, network: StacksNetwork | 'mainnet' | 'testnet') {
+    if (!StacksUtils.validatePrivateKey(privateKey)) {
+      throw new Error('Invalid private key format');
+    }
+
+    const networkName = typeof network === 'string' ? network : StacksUtils.getNetworkName(network);
+    const keyInfo = StacksUtils.initializePrivateKey({ privateKey, network: networkName });
+    this.privateKey = keyInfo.privateKey;
+    this.publicKey = keyInfo.publicKey;
+    this.address = keyInfo.address;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.publicKey;
+  }
+
+  async signTransaction(
+    transaction: StacksTransactionWire,
+    options?: SignTransactionOptions
+  ): Promise<StacksTransactionWire> {
+    return signWithPrivateKey(transaction, this.privateKey, options);
+  }
+}
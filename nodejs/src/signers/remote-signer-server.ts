@@ -0,0 +1,88 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { deserializeTransaction } from '@stacks/transactions';
+import { Signer } from './signer';
+
+export interface RemoteSignerServerOptions {
+  signer: Signer; // usually a LocalSigner or an unlocked KeystoreSigner
+  token: string; // bearer token every request must carry
+  maxBodyBytes?: number;
+}
+
+// Reference implementation of the remote signer protocol served by
+// RemoteSigner. Run it in a separate process (or host) that holds the key:
+//
+//   const server = createRemoteSignerServer({ signer, token });
+//   server.listen(8787, '127.0.0.1');
+export function createRemoteSignerServer(options: RemoteSignerServerOptions): Server {
+  const { signer, token, maxBodyBytes = 1024 * 1024 } = options;
+  // Without a token anyone who can reach the port could sign with the key
+  if (typeof token !== 'string' || token.length === 0) {
+    throw new Error('createRemoteSignerServer requires a token');
+  }
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const isAuthorized = (req: IncomingMessage): boolean => {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const received = Buffer.from(req.headers.authorization || '');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  };
+
+  const readBody = (req: IncomingMessage): Promise<any> =>
+    new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodyBytes) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch {
+          reject(new Error('Invalid JSON body'));
+        }
+      });
+      req.on('error', reject);
+    });
+
+  return createServer(async (req, res) => {
+    if (!isAuthorized(req)) {
+      send(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      if (req.method === 'GET' && req.url === '/public-key') {
+        send(res, 200, { publicKey: await signer.getPublicKey(), address: await signer.getAddress() });
+        return;
+      }
+
+      if (req.method === 'POST' && req.url === '/sign') {
+        const body = await readBody(req);
+        if (typeof body.transaction !== 'string') {
+          send(res, 400, { error: 'Missing transaction hex' });
+          return;
+        }
+
+        const transaction = deserializeTransaction(body.transaction);
+        const signed = await signer.signTransaction(transaction, { sponsor: body.sponsor === true });
+        send(res, 200, { transaction: signed.serialize() });
+        return;
+      }
+
+      send(res, 404, { error: 'Not found' });
+    } catch (error) {
+      send(res, 400, { error: error instanceof Error ? error.message : 'Signing failed' });
+    }
+  });
+}
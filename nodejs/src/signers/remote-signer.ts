@@ -0,0 +1,140 @@
+import {
+  AuthType,
+  SpendingCondition,
+  SponsoredAuthorization,
+  StacksTransactionWire,
+  deserializeTransaction,
+  getAddressFromPublicKey,
+  isSingleSig,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { Signer, SignTransactionOptions } from './signer';
+import { StacksUtils } from '../utils/index';
+
+// Remote signer protocol (JSON over HTTP):
+//   GET  /public-key  -> { publicKey, address }
+//   POST /sign        { transaction: hex, sponsor?: boolean } -> { transaction: hex }
+// Errors are returned as a non-2xx status with { error }. When a token is
+// configured it is sent as "Authorization: Bearer <token>"; the reference
+// server (createRemoteSignerServer) requires one.
+export interface RemoteSignerOptions {
+  url: string;
+  network: StacksNetwork | 'mainnet' | 'testnet';
+  token?: string;
+  timeoutMs?: number;
+}
+
+// Signer that forwards signing requests to a separate signing service, so
+// the private key never enters this process
+export class RemoteSigner implements Signer {
+  private url: string;
+  private networkName: 'mainnet' | 'testnet';
+  private token?: string;
+  private timeoutMs: number;
+  private publicKey?: string;
+
+  constructor(options: RemoteSignerOptions) {
+    this.url = options.url.replace(/\/+$/, '');
+    this.networkName =
+      typeof options.network === 'string' ? options.network : StacksUtils.getNetworkName(options.network);
+    this.token = options.token;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  async getAddress(): Promise<string> {
+    // Derived locally so a misconfigured server cannot redirect funds
+    return getAddressFromPublicKey(await this.getPublicKey(), this.networkName);
+  }
+
+  async getPublicKey(): Promise<string> {
+    if (!this.publicKey) {
+      const response = await this.request<{ publicKey: string }>('GET', '/public-key');
+      this.publicKey = response.publicKey;
+    }
+    return this.publicKey;
+  }
+
+  async signTransaction(
+    transaction: StacksTransactionWire,
+    options: SignTransactionOptions = {}
+  ): Promise<StacksTransactionWire> {
+    const response = await this.request<{ transaction: string }>('POST', '/sign', {
+      transaction: transaction.serialize(),
+      sponsor: options.sponsor ?? false,
+    });
+    const signed = deserializeTransaction(response.transaction);
+    assertOnlySigned(transaction, signed, options.sponsor ?? false);
+    return signed;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.url}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Remote signer error (${response.status}): ${payload.error || response.statusText}`);
+    }
+    return payload as T;
+  }
+}
+
+// The service may only add signatures, never change what is being signed.
+// signBegin() covers the payload and post-conditions but clears the spending
+// conditions, so their fee, nonce, signer and hash mode are compared too.
+function assertOnlySigned(sent: StacksTransactionWire, signed: StacksTransactionWire, sponsor: boolean): void {
+  const fail = (what: string) => {
+    throw new Error(`Remote signer returned a transaction with a different ${what} than the one sent for signing`);
+  };
+
+  if (signed.signBegin() !== sent.signBegin()) {
+    fail('payload');
+  }
+  if (signed.auth.authType !== sent.auth.authType) {
+    fail('authorization type');
+  }
+
+  // The condition being signed keeps its terms; the other one stays as it was
+  const sponsorOf = (transaction: StacksTransactionWire) =>
+    transaction.auth.authType === AuthType.Sponsored
+      ? (transaction.auth as SponsoredAuthorization).sponsorSpendingCondition
+      : undefined;
+  const origin = [sent.auth.spendingCondition, signed.auth.spendingCondition];
+  const sponsors = [sponsorOf(sent), sponsorOf(signed)];
+  const [sentSigning, signedSigning] = sponsor ? sponsors : origin;
+  const [sentOther, signedOther] = sponsor ? origin : sponsors;
+
+  if (!sentSigning || !signedSigning || conditionTerms(sentSigning) !== conditionTerms(signedSigning)) {
+    fail(sponsor ? 'sponsor fee, nonce or signer' : 'fee, nonce or signer');
+  }
+  if (snapshot(sentOther) !== snapshot(signedOther)) {
+    fail(sponsor ? 'origin authorization' : 'sponsor authorization');
+  }
+
+  // A single-sig origin signature must recover to the signer checked above
+  if (!sponsor && isSingleSig(signed.auth.spendingCondition)) {
+    try {
+      signed.verifyOrigin();
+    } catch {
+      throw new Error('Remote signer returned an invalid signature');
+    }
+  }
+}
+
+function conditionTerms(condition: SpendingCondition): string {
+  const required = isSingleSig(condition) ? 1 : condition.signaturesRequired;
+  return `${condition.hashMode}:${condition.signer}:${condition.nonce}:${condition.fee}:${required}`;
+}
+
+function snapshot(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+}
@@ -0,0 +1,53 @@
+import {
+  StacksTransactionWire,
+  SponsoredAuthorization,
+  TransactionSigner,
+  AuthType,
+} from '@stacks/transactions';
+
+export interface SignTransactionOptions {
+  sponsor?: boolean; // sign as the sponsor of a sponsored transaction
+}
+
+// Anything that can sign Stacks transactions for a single account. Tools
+// build the unsigned transaction and hand it over, so they never need the
+// private key itself.
+export interface Signer {
+  getAddress(): Promise<string>;
+  getPublicKey(): Promise<string>;
+  signTransaction(
+    transaction: StacksTransactionWire,
+    options?: SignTransactionOptions
+  ): Promise<StacksTransactionWire>;
+}
+
+export function isSigner(value: unknown): value is Signer {
+  return (
+    !!value &&
+    typeof (value as Signer).getAddress === 'function' &&
+    typeof (value as Signer).getPublicKey === 'function' &&
+    typeof (value as Signer).signTransaction === 'function'
+  );
+}
+
+// Sign with a raw key. Shared by the signers that hold a key in memory.
+// Origin signing also covers multi-sig, where each call adds one signature.
+export function signWithPrivateKey(
+  transaction: StacksTransactionWire,
+  privateKey: string,
+  options: SignTransactionOptions = {}
+): StacksTransactionWire {
+  if (options.sponsor) {
+    if (transaction.auth.authType !== AuthType.Sponsored) {
+      throw new Error('Cannot sign as sponsor: the transaction is not sponsored');
+    }
+    const { sponsorSpendingCondition } = transaction.auth as SponsoredAuthorization;
+    const signer = TransactionSigner.createSponsorSigner(transaction, sponsorSpendingCondition);
+    signer.signSponsor(privateKey);
+    return signer.transaction;
+  }
+
+  const signer = new TransactionSigner(transaction);
+  signer.signOrigin(privateKey);
+  return signer.transaction;
+}
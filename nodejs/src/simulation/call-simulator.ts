@@ -0,0 +1,53 @@
+import { ClarityValue } from '@stacks/transactions';
+import { CallSimulation, SimulatedTransfer } from '../types/index';
+import { PostConditionSpec } from '../postconditions/index';
+
+export interface SimulatedCall {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  sender: string;
+}
+
+// Runs a public function without broadcasting it and reports the assets it
+// moves. Implementations wrap a local simnet or a simulation service.
+export interface CallSimulator {
+  simulate(call: SimulatedCall): Promise<CallSimulation>;
+}
+
+// Deny-mode post-conditions that allow exactly the simulated transfers. The
+// sender must send exactly what it sent in the simulation; other principals
+// (e.g. a pool paying out) must send at least that much. Every NFT that moved
+// must move again.
+export function inferPostConditions(transfers: SimulatedTransfer[], senderAddress: string): PostConditionSpec[] {
+  const totals = new Map<string, { address: string; assetIdentifier?: string; amount: bigint }>();
+  const nfts = new Map<string, PostConditionSpec>();
+
+  for (const transfer of transfers) {
+    if (transfer.asset === 'nft') {
+      nfts.set(`${transfer.sender}|${transfer.assetIdentifier}|${transfer.assetId}`, {
+        type: 'nft-postcondition',
+        address: transfer.sender,
+        condition: 'sent',
+        asset: transfer.assetIdentifier,
+        assetId: transfer.assetId,
+      });
+      continue;
+    }
+
+    const key = `${transfer.sender}|${transfer.assetIdentifier ?? 'STX'}`;
+    const total = totals.get(key) ?? { address: transfer.sender, assetIdentifier: transfer.assetIdentifier, amount: BigInt(0) };
+    total.amount += BigInt(transfer.amount ?? 0);
+    totals.set(key, total);
+  }
+
+  const fungible = [...totals.values()].map(({ address, assetIdentifier, amount }): PostConditionSpec => {
+    const condition = address === senderAddress ? 'eq' : 'gte';
+    // bigint amounts are base units for STX and FT alike
+    return assetIdentifier
+      ? { type: 'ft-postcondition', address, condition, amount, asset: assetIdentifier }
+      : { type: 'stx-postcondition', address, condition, amount };
+  });
+  return [...fungible, ...nfts.values()];
+}
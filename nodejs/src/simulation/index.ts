@@ -0,0 +1,5 @@
+// Simulation exports
+export { inferPostConditions } from './call-simulator';
+export type { CallSimulator, SimulatedCall } from './call-simulator';
+export { SimnetSimulator } from './simnet-simulator';
+export type { SimnetLike } from './simnet-simulator';
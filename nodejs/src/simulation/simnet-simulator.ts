@@ -0,0 +1,69 @@
+import { ClarityType, ClarityValue, cvToHex, cvToString } from '@stacks/transactions';
+import { CallSimulation, SimulatedTransfer } from '../types/index';
+import { CallSimulator, SimulatedCall } from './call-simulator';
+
+// The part of a Clarinet SDK simnet (initSimnet from @hirosystems/clarinet-sdk)
+// the simulator uses
+export interface SimnetLike {
+  callPublicFn(
+    contract: string,
+    method: string,
+    args: ClarityValue[],
+    sender: string
+  ): { result: ClarityValue; events: { event: string; data: Record<string, any> }[] };
+}
+
+// Simulates calls on a local simnet. The call is really executed there, so it
+// changes the simnet's state; the simnet needs the contract deployed (or the
+// chain state forked) for the results to match the network.
+export class SimnetSimulator implements CallSimulator {
+  private simnet: SimnetLike;
+
+  constructor(simnet: SimnetLike) {
+    this.simnet = simnet;
+  }
+
+  async simulate(call: SimulatedCall): Promise<CallSimulation> {
+    const { result, events } = this.simnet.callPublicFn(
+      `${call.contractAddress}.${call.contractName}`,
+      call.functionName,
+      call.functionArgs,
+      call.sender
+    );
+
+    return {
+      success: result.type === ClarityType.ResponseOk,
+      result: cvToString(result),
+      transfers: events.flatMap(({ event, data }) => toTransfer(event, data) ?? []),
+    };
+  }
+}
+
+// Mints move nothing out of a principal, so post-conditions ignore them
+function toTransfer(event: string, data: Record<string, any>): SimulatedTransfer | undefined {
+  switch (event) {
+    case 'stx_transfer_event':
+    case 'stx_burn_event':
+      return { asset: 'stx', sender: data.sender, recipient: data.recipient, amount: String(data.amount) };
+    case 'ft_transfer_event':
+    case 'ft_burn_event':
+      return {
+        asset: 'ft',
+        sender: data.sender,
+        recipient: data.recipient,
+        amount: String(data.amount),
+        assetIdentifier: data.asset_identifier,
+      };
+    case 'nft_transfer_event':
+    case 'nft_burn_event':
+      return {
+        asset: 'nft',
+        sender: data.sender,
+        recipient: data.recipient,
+        assetIdentifier: data.asset_identifier,
+        assetId: data.value ? cvToHex(data.value) : `0x${String(data.raw_value).replace(/^0x/, '')}`,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,155 @@
+import { uintCV, someCV, principalCV } from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { StacksUtils } from '../utils/index';
+import {
+  DexAdapter,
+  DexQuote,
+  SwapAsset,
+  callReadOnly,
+  contractCV,
+  expectTuple,
+  expectUint,
+  isSTX,
+  priceImpact,
+  uintField,
+} from './dex-adapter';
+
+export interface AlexContracts {
+  pool: string; // AMM pool with get-helper / swap-helper
+  vault: string; // holds the pool balances and pays out swaps
+  wrappedStx: string; // stands in for STX in pools
+  factors: bigint[]; // pool factors to try for a pair
+}
+
+const ONE_8 = BigInt(100_000_000);
+
+export const ALEX_CONTRACTS: Partial<Record<'mainnet' | 'testnet', AlexContracts>> = {
+  mainnet: {
+    pool: 'SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.amm-pool-v2-01',
+    vault: 'SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.amm-vault-v2-01',
+    wrappedStx: 'SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.token-wstx-v2',
+    factors: [ONE_8, BigInt(5_000_000)],
+  },
+};
+
+// ALEX AMM pools. Pool math is in 8-decimal fixed point whatever the token's
+// decimals, so amounts are scaled on the way in and out.
+export class AlexAdapter implements DexAdapter {
+  readonly name = 'alex';
+  private network: StacksNetwork;
+  private contracts?: AlexContracts;
+
+  constructor(network: StacksNetwork, contracts: AlexContracts | undefined = ALEX_CONTRACTS[StacksUtils.getNetworkName(network)]) {
+    this.network = network;
+    this.contracts = contracts;
+  }
+
+  get available(): boolean {
+    return this.contracts !== undefined;
+  }
+
+  async quote(tokenIn: SwapAsset, tokenOut: SwapAsset, amountIn: bigint): Promise<DexQuote | undefined> {
+    const contracts = this.contracts;
+    if (!contracts || tokenIn.decimals > 8 || tokenOut.decimals > 8) {
+      return undefined;
+    }
+
+    const tokenX = isSTX(tokenIn) ? contracts.wrappedStx : tokenIn.contractId;
+    const tokenY = isSTX(tokenOut) ? contracts.wrappedStx : tokenOut.contractId;
+    const dx = toFixed8(amountIn, tokenIn.decimals);
+
+    // A pair can have pools with different factors; take the best one
+    let best: { factor: bigint; dy: bigint } | undefined;
+    for (const factor of contracts.factors) {
+      const dy = await callReadOnly(this.network, contracts.pool, 'get-helper', [
+        principalCV(tokenX),
+        principalCV(tokenY),
+        uintCV(factor),
+        uintCV(dx),
+      ])
+        .then((result) => expectUint(result, 'get-helper'))
+        .catch(() => undefined);
+
+      if (dy !== undefined && (!best || dy > best.dy)) {
+        best = { factor, dy };
+      }
+    }
+    if (!best) {
+      return undefined;
+    }
+
+    const { factor, dy } = best;
+    const reserves = await this.readReserves(contracts.pool, tokenX, tokenY, factor).catch(() => undefined);
+
+    // The fee is taken from the input; the spot price of a pool with factor t
+    // is (balanceOut / balanceIn) ^ t
+    let fee: bigint | undefined;
+    let impact: number | undefined;
+    if (reserves) {
+      const feeFixed8 = (dx * reserves.feeRate) / ONE_8;
+      const spotPrice = (Number(reserves.balanceOut) / Number(reserves.balanceIn)) ** (Number(factor) / Number(ONE_8));
+      fee = fromFixed8(feeFixed8, tokenIn.decimals);
+      impact = priceImpact(dx - feeFixed8, dy, spotPrice);
+    }
+
+    return {
+      dex: this.name,
+      amountIn,
+      amountOut: fromFixed8(dy, tokenOut.decimals),
+      fee,
+      priceImpact: impact,
+      buildCall: (minimumOut) => ({
+        contractId: contracts.pool,
+        functionName: 'swap-helper',
+        functionArgs: [
+          contractCV(tokenX),
+          contractCV(tokenY),
+          uintCV(factor),
+          uintCV(dx),
+          someCV(uintCV(toFixed8(minimumOut, tokenOut.decimals))),
+        ],
+        outputSender: contracts.vault,
+      }),
+    };
+  }
+
+  // Pool balances (8-decimal fixed point) and the input side's fee rate. A
+  // pool is stored under one token order, so the reverse order is tried too.
+  private async readReserves(
+    pool: string,
+    tokenX: string,
+    tokenY: string,
+    factor: bigint
+  ): Promise<{ balanceIn: bigint; balanceOut: bigint; feeRate: bigint }> {
+    const details = (x: string, y: string) =>
+      callReadOnly(this.network, pool, 'get-pool-details', [
+        principalCV(x),
+        principalCV(y),
+        uintCV(factor),
+      ]).then((result) => expectTuple(result, 'get-pool-details'));
+
+    try {
+      const forward = await details(tokenX, tokenY);
+      return {
+        balanceIn: uintField(forward, 'balance-x'),
+        balanceOut: uintField(forward, 'balance-y'),
+        feeRate: uintField(forward, 'fee-rate-x'),
+      };
+    } catch {
+      const reverse = await details(tokenY, tokenX);
+      return {
+        balanceIn: uintField(reverse, 'balance-y'),
+        balanceOut: uintField(reverse, 'balance-x'),
+        feeRate: uintField(reverse, 'fee-rate-y'),
+      };
+    }
+  }
+}
+
+function toFixed8(amount: bigint, decimals: number): bigint {
+  return amount * BigInt(10) ** BigInt(8 - decimals);
+}
+
+function fromFixed8(amount: bigint, decimals: number): bigint {
+  return amount / BigInt(10) ** BigInt(8 - decimals);
+}
@@ -0,0 +1,130 @@
+import { uintCV } from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { StacksUtils } from '../utils/index';
+import {
+  DexAdapter,
+  DexQuote,
+  SwapAsset,
+  callReadOnly,
+  contractCV,
+  expectTuple,
+  expectUint,
+  isSTX,
+  priceImpact,
+  uintField,
+} from './dex-adapter';
+
+// A pool and its x/y tokens, as contract ids or "STX"
+export interface BitflowPool {
+  pool: string;
+  tokenX: string;
+  tokenY: string;
+}
+
+export interface BitflowContracts {
+  core: string; // XYK core with get-dy / get-dx and the swap functions
+  wrappedStx: string; // stands in for STX in pools
+  pools: BitflowPool[];
+}
+
+export const BITFLOW_CONTRACTS: Partial<Record<'mainnet' | 'testnet', BitflowContracts>> = {
+  mainnet: {
+    core: 'SM1793C4R5PZ4NS4VQ4WMP7SKKYVH8JZEWSZ9HCCR.xyk-core-v-1-2',
+    wrappedStx: 'SM1793C4R5PZ4NS4VQ4WMP7SKKYVH8JZEWSZ9HCCR.token-stx-v-1-2',
+    pools: [
+      {
+        pool: 'SM1793C4R5PZ4NS4VQ4WMP7SKKYVH8JZEWSZ9HCCR.xyk-pool-sbtc-stx-v-1-1',
+        tokenX: 'SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token',
+        tokenY: 'STX',
+      },
+    ],
+  },
+};
+
+const BPS = BigInt(10_000);
+
+// Bitflow XYK pools. Bitflow has no on-chain pool lookup, so pools are listed
+// in the contracts config; each pool pays out its own swaps.
+export class BitflowAdapter implements DexAdapter {
+  readonly name = 'bitflow';
+  private network: StacksNetwork;
+  private contracts?: BitflowContracts;
+
+  constructor(network: StacksNetwork, contracts: BitflowContracts | undefined = BITFLOW_CONTRACTS[StacksUtils.getNetworkName(network)]) {
+    this.network = network;
+    this.contracts = contracts;
+  }
+
+  get available(): boolean {
+    return this.contracts !== undefined;
+  }
+
+  async quote(tokenIn: SwapAsset, tokenOut: SwapAsset, amountIn: bigint): Promise<DexQuote | undefined> {
+    const contracts = this.contracts;
+    if (!contracts) {
+      return undefined;
+    }
+
+    const matches = (token: string, asset: SwapAsset) =>
+      isSTX(token) ? isSTX(asset) : token === asset.contractId;
+    const pool = contracts.pools.find(
+      (candidate) =>
+        (matches(candidate.tokenX, tokenIn) && matches(candidate.tokenY, tokenOut)) ||
+        (matches(candidate.tokenY, tokenIn) && matches(candidate.tokenX, tokenOut))
+    );
+    if (!pool) {
+      return undefined;
+    }
+
+    // Selling x calls get-dy / swap-x-for-y; selling y calls get-dx / swap-y-for-x
+    const xForY = matches(pool.tokenX, tokenIn);
+    const tokenArgs = [
+      contractCV(pool.pool),
+      contractCV(isSTX(pool.tokenX) ? contracts.wrappedStx : pool.tokenX),
+      contractCV(isSTX(pool.tokenY) ? contracts.wrappedStx : pool.tokenY),
+    ];
+
+    const quoteFunction = xForY ? 'get-dy' : 'get-dx';
+    const [result, reserves] = await Promise.all([
+      callReadOnly(this.network, contracts.core, quoteFunction, [...tokenArgs, uintCV(amountIn)]),
+      this.readReserves(pool.pool, xForY).catch(() => undefined),
+    ]);
+    const amountOut = expectUint(result, quoteFunction);
+
+    // Fees are taken from the input before the constant-product math
+    let fee: bigint | undefined;
+    let impact: number | undefined;
+    if (reserves) {
+      fee = (amountIn * reserves.feeBps) / BPS;
+      impact = priceImpact(amountIn - fee, amountOut, Number(reserves.reserveOut) / Number(reserves.reserveIn));
+    }
+
+    return {
+      dex: this.name,
+      amountIn,
+      amountOut,
+      fee,
+      priceImpact: impact,
+      buildCall: (minimumOut) => ({
+        contractId: contracts.core,
+        functionName: xForY ? 'swap-x-for-y' : 'swap-y-for-x',
+        functionArgs: [...tokenArgs, uintCV(amountIn), uintCV(minimumOut)],
+        outputSender: pool.pool,
+      }),
+    };
+  }
+
+  // Balances and total fee (protocol plus provider) on the input side
+  private async readReserves(
+    pool: string,
+    xForY: boolean
+  ): Promise<{ reserveIn: bigint; reserveOut: bigint; feeBps: bigint }> {
+    const details = expectTuple(await callReadOnly(this.network, pool, 'get-pool', []), 'get-pool');
+    const side = xForY ? 'x' : 'y';
+    return {
+      reserveIn: uintField(details, xForY ? 'x-balance' : 'y-balance'),
+      reserveOut: uintField(details, xForY ? 'y-balance' : 'x-balance'),
+      feeBps: uintField(details, `${side}-protocol-fee`) + uintField(details, `${side}-provider-fee`),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  fetchCallReadOnlyFunction,
+  ClarityType,
+  ClarityValue,
+  TupleCV,
+  contractPrincipalCV,
+  ContractPrincipalCV,
+  cvToString,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { StacksUtils } from '../utils/index';
+
+// A token as the router sees it. STX has contractId "STX" and no asset name.
+export interface SwapAsset {
+  contractId: string;
+  symbol: string;
+  decimals: number;
+  assetName?: string; // define-fungible-token name, for post-conditions
+}
+
+// The contract call that performs a swap
+export interface DexSwapCall {
+  contractId: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  outputSender: string; // principal that pays out the output token
+}
+
+// What one DEX offers for an exact input amount. Amounts are base units.
+export interface DexQuote {
+  dex: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  fee?: bigint; // liquidity provider fee, in tokenIn
+  priceImpact?: number; // in percentage, from the pool reserves
+  buildCall: (minimumOut: bigint) => DexSwapCall;
+}
+
+// One DEX. Adapters hold the DEX's contracts for the network they were built
+// for; without contracts for that network, available is false and the router
+// skips them.
+export interface DexAdapter {
+  readonly name: string;
+  readonly available: boolean;
+  // undefined when the DEX has no pool for the pair
+  quote(tokenIn: SwapAsset, tokenOut: SwapAsset, amountIn: bigint): Promise<DexQuote | undefined>;
+}
+
+export const STX = 'STX';
+
+export function isSTX(asset: SwapAsset | string): boolean {
+  return (typeof asset === 'string' ? asset : asset.contractId).toUpperCase() === STX;
+}
+
+export function contractCV(contractId: string): ContractPrincipalCV {
+  const [address, name] = StacksUtils.parseContractId(contractId);
+  return contractPrincipalCV(address, name);
+}
+
+export async function callReadOnly(
+  network: StacksNetwork,
+  contractId: string,
+  functionName: string,
+  functionArgs: ClarityValue[]
+): Promise<ClarityValue> {
+  const [contractAddress, contractName] = StacksUtils.parseContractId(contractId);
+  return await fetchCallReadOnlyFunction({
+    contractAddress,
+    contractName,
+    functionName,
+    functionArgs,
+    network,
+    senderAddress: contractAddress,
+  });
+}
+
+// Unwraps an (ok uint) result, e.g. a DEX's quote function
+export function expectUint(result: ClarityValue, functionName: string): bigint {
+  if (result.type !== ClarityType.ResponseOk || result.value.type !== ClarityType.UInt) {
+    throw new Error(`${functionName} returned ${cvToString(result)}`);
+  }
+  return BigInt(result.value.value);
+}
+
+// Unwraps an (ok tuple) result, e.g. a pool's details
+export function expectTuple(result: ClarityValue, functionName: string): TupleCV {
+  const value = result.type === ClarityType.ResponseOk ? result.value : result;
+  if (value.type !== ClarityType.Tuple) {
+    throw new Error(`${functionName} returned ${cvToString(result)}`);
+  }
+  return value;
+}
+
+export function uintField(tuple: TupleCV, name: string): bigint {
+  const value = tuple.value[name];
+  if (value?.type !== ClarityType.UInt) {
+    throw new Error(`Expected uint field '${name}'`);
+  }
+  return BigInt(value.value);
+}
+
+// How far a trade's price falls short of the pool's spot price, in
+// percentage. amountIn is what reaches the pool after fees, so the fee is not
+// counted as impact; spotPrice is tokenOut per tokenIn in the same units.
+export function priceImpact(amountIn: bigint, amountOut: bigint, spotPrice: number): number {
+  const atSpot = Number(amountIn) * spotPrice;
+  if (!(atSpot > 0)) {
+    return 0;
+  }
+  return Math.max(0, (1 - Number(amountOut) / atSpot) * 100);
+}
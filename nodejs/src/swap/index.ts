@@ -0,0 +1,11 @@
+// Swap exports
+export { SwapRouter, applySlippage } from './swap-router';
+export type { RoutedQuote, PreparedSwap } from './swap-router';
+export { STX, isSTX } from './dex-adapter';
+export type { DexAdapter, DexQuote, DexSwapCall, SwapAsset } from './dex-adapter';
+export { AlexAdapter, ALEX_CONTRACTS } from './alex';
+export type { AlexContracts } from './alex';
+export { VelarAdapter, VELAR_CONTRACTS } from './velar';
+export type { VelarContracts } from './velar';
+export { BitflowAdapter, BITFLOW_CONTRACTS } from './bitflow';
+export type { BitflowContracts, BitflowPool } from './bitflow';
@@ -0,0 +1,148 @@
+import { PostCondition } from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { StacksUtils } from '../utils/index';
+import { StacksFungibleTokenTool, parseUnits } from '../tools/fungible-token';
+import { PostConditionSpec, buildPostConditions } from '../postconditions/index';
+import { DexAdapter, DexQuote, DexSwapCall, SwapAsset, STX, isSTX } from './dex-adapter';
+import { AlexAdapter } from './alex';
+import { VelarAdapter } from './velar';
+import { BitflowAdapter } from './bitflow';
+
+// Quotes from every DEX that has a pool for the pair, best output first
+export interface RoutedQuote {
+  tokenIn: SwapAsset;
+  tokenOut: SwapAsset;
+  quotes: DexQuote[];
+}
+
+// A swap ready to sign: the call, its minimum output and the post-conditions
+// on both legs
+export interface PreparedSwap {
+  call: DexSwapCall;
+  minimumOut: bigint;
+  postConditions: PostCondition[];
+}
+
+const BASIS_POINTS = BigInt(10_000);
+
+// The least output a swap may accept. Tolerance is a percentage with
+// basis-point precision (0.5 = 50 bps); the result rounds down.
+export function applySlippage(amountOut: bigint, slippageTolerance: number): bigint {
+  if (!(slippageTolerance >= 0 && slippageTolerance < 100)) {
+    throw new Error('Slippage tolerance must be at least 0% and below 100%');
+  }
+  const bps = BigInt(Math.round(slippageTolerance * 100));
+  return (amountOut * (BASIS_POINTS - bps)) / BASIS_POINTS;
+}
+
+// Routes a swap to the DEX with the best output. Tokens are "STX" or SIP-010
+// contract ids; each adapter maps STX to its own wrapped-STX contract.
+export class SwapRouter {
+  private network: StacksNetwork;
+  private adapters: DexAdapter[];
+  private tokens: StacksFungibleTokenTool;
+
+  constructor(
+    network: StacksNetwork,
+    adapters: DexAdapter[] = [new AlexAdapter(network), new VelarAdapter(network), new BitflowAdapter(network)]
+  ) {
+    this.network = network;
+    this.adapters = adapters;
+    this.tokens = new StacksFungibleTokenTool(network);
+  }
+
+  getAdapters(): DexAdapter[] {
+    return this.adapters;
+  }
+
+  async resolveAsset(token: string): Promise<SwapAsset> {
+    if (isSTX(token)) {
+      return { contractId: STX, symbol: STX, decimals: 6 };
+    }
+
+    const metadata = await this.tokens.getTokenMetadata(token);
+    if (!metadata.success || !metadata.data) {
+      throw new Error(`Unknown token ${token}: ${metadata.error}`);
+    }
+    const { symbol, decimals, assetName } = metadata.data;
+    return { contractId: token, symbol, decimals, assetName };
+  }
+
+  // The adapters that can swap on this network, or an error saying the
+  // network (or the requested DEX) is unsupported. The built-in adapters only
+  // know mainnet contracts.
+  supportedAdapters(dex?: string): DexAdapter[] {
+    const adapters = this.adapters.filter((adapter) => adapter.available && (!dex || adapter.name === dex));
+    if (adapters.length === 0) {
+      const networkName = StacksUtils.getNetworkName(this.network);
+      throw new Error(
+        dex
+          ? `DEX '${dex}' is not available on ${networkName}`
+          : `Token swaps are not supported on ${networkName}: no DEX contracts are configured for it (pass dexAdapters with ${networkName} contracts)`
+      );
+    }
+    return adapters;
+  }
+
+  // Quote an amount of tokenIn (in whole tokens, e.g. "12.5") on every
+  // available DEX, or only on the given one
+  async quote(tokenIn: string, tokenOut: string, amount: string, dex?: string): Promise<RoutedQuote> {
+    const adapters = this.supportedAdapters(dex);
+
+    const [assetIn, assetOut] = await Promise.all([this.resolveAsset(tokenIn), this.resolveAsset(tokenOut)]);
+    if (assetIn.contractId === assetOut.contractId) {
+      throw new Error('Cannot swap a token for itself');
+    }
+    const amountIn = parseUnits(amount, assetIn.decimals);
+    if (amountIn <= BigInt(0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    // One DEX failing or lacking the pool does not stop the others
+    const results = await Promise.allSettled(adapters.map((adapter) => adapter.quote(assetIn, assetOut, amountIn)));
+    const quotes: DexQuote[] = [];
+    const failures: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled' && result.value) {
+        quotes.push(result.value);
+      } else {
+        const reason = result.status === 'rejected' && result.reason instanceof Error ? result.reason.message : 'no pool';
+        failures.push(`${adapters[i].name}: ${reason}`);
+      }
+    });
+
+    if (quotes.length === 0) {
+      throw new Error(`No DEX could quote ${assetIn.symbol} -> ${assetOut.symbol} (${failures.join('; ')})`);
+    }
+    quotes.sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0));
+
+    return { tokenIn: assetIn, tokenOut: assetOut, quotes };
+  }
+
+  // The sender sends exactly the input; the DEX sends at least the minimum
+  // output. Together they make a Deny-mode swap fail on any other outcome.
+  prepare(routed: RoutedQuote, quote: DexQuote, minimumOut: bigint, senderAddress: string): PreparedSwap {
+    const call = quote.buildCall(minimumOut);
+
+    return {
+      call,
+      minimumOut,
+      postConditions: buildPostConditions([
+        transferSpec(senderAddress, 'eq', quote.amountIn, routed.tokenIn),
+        transferSpec(call.outputSender, 'gte', minimumOut, routed.tokenOut),
+      ]),
+    };
+  }
+}
+
+// Amounts are base units, which the builder takes as bigints for STX too
+function transferSpec(
+  address: string,
+  condition: 'eq' | 'gte',
+  amount: bigint,
+  asset: SwapAsset
+): PostConditionSpec {
+  return isSTX(asset)
+    ? { type: 'stx-postcondition', address, condition, amount }
+    : { type: 'ft-postcondition', address, condition, amount, asset: `${asset.contractId}::${asset.assetName}` };
+}
@@ -0,0 +1,103 @@
+import { ClarityType, TupleCV, cvToValue, uintCV, principalCV } from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { StacksUtils } from '../utils/index';
+import {
+  DexAdapter,
+  DexQuote,
+  SwapAsset,
+  callReadOnly,
+  contractCV,
+  isSTX,
+  priceImpact,
+  uintField,
+} from './dex-adapter';
+
+export interface VelarContracts {
+  core: string; // pool registry and reserves; pays out swaps
+  router: string;
+  wrappedStx: string; // stands in for STX in pools
+  shareFeeTo: string; // fee-sharing contract the router requires
+}
+
+export const VELAR_CONTRACTS: Partial<Record<'mainnet' | 'testnet', VelarContracts>> = {
+  mainnet: {
+    core: 'SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.univ2-core',
+    router: 'SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.univ2-router',
+    wrappedStx: 'SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.wstx',
+    shareFeeTo: 'SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.univ2-share-fee-to',
+  },
+};
+
+// Velar constant-product pools. The output is computed from the pool's
+// reserves and swap fee exactly as the univ2 library does on-chain.
+export class VelarAdapter implements DexAdapter {
+  readonly name = 'velar';
+  private network: StacksNetwork;
+  private contracts?: VelarContracts;
+
+  constructor(network: StacksNetwork, contracts: VelarContracts | undefined = VELAR_CONTRACTS[StacksUtils.getNetworkName(network)]) {
+    this.network = network;
+    this.contracts = contracts;
+  }
+
+  get available(): boolean {
+    return this.contracts !== undefined;
+  }
+
+  async quote(tokenIn: SwapAsset, tokenOut: SwapAsset, amountIn: bigint): Promise<DexQuote | undefined> {
+    const contracts = this.contracts;
+    if (!contracts) {
+      return undefined;
+    }
+
+    const tokenInId = isSTX(tokenIn) ? contracts.wrappedStx : tokenIn.contractId;
+    const tokenOutId = isSTX(tokenOut) ? contracts.wrappedStx : tokenOut.contractId;
+
+    // (lookup-pool token0 token1) -> (optional { pool, flipped })
+    const lookup = await callReadOnly(this.network, contracts.core, 'lookup-pool', [
+      principalCV(tokenInId),
+      principalCV(tokenOutId),
+    ]);
+    if (lookup.type !== ClarityType.OptionalSome || lookup.value.type !== ClarityType.Tuple) {
+      return undefined;
+    }
+    const pool = lookup.value.value.pool as TupleCV;
+    const swapFee = pool.value['swap-fee'] as TupleCV;
+
+    const token0 = String(cvToValue(pool.value.token0));
+    const token1 = String(cvToValue(pool.value.token1));
+    const inIsToken0 = token0 === tokenInId;
+    const reserveIn = uintField(pool, inIsToken0 ? 'reserve0' : 'reserve1');
+    const reserveOut = uintField(pool, inIsToken0 ? 'reserve1' : 'reserve0');
+
+    // univ2-library get-amount-out
+    const amountInAfterFee = (amountIn * uintField(swapFee, 'num')) / uintField(swapFee, 'den');
+    const amountOut = (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee);
+    if (amountOut <= BigInt(0)) {
+      return undefined;
+    }
+
+    return {
+      dex: this.name,
+      amountIn,
+      amountOut,
+      fee: amountIn - amountInAfterFee,
+      priceImpact: priceImpact(amountInAfterFee, amountOut, Number(reserveOut) / Number(reserveIn)),
+      buildCall: (minimumOut) => ({
+        contractId: contracts.router,
+        functionName: 'swap-exact-tokens-for-tokens',
+        functionArgs: [
+          uintCV(uintField(pool, 'id')),
+          contractCV(token0),
+          contractCV(token1),
+          contractCV(tokenInId),
+          contractCV(tokenOutId),
+          contractCV(contracts.shareFeeTo),
+          uintCV(amountIn),
+          uintCV(minimumOut),
+        ],
+        outputSender: contracts.core,
+      }),
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import { STACKS_TESTNET } from "@stacks/network";
+import { Cl, ClarityAbiFunction, ClarityAbiType, ClarityValue, cvToHex } from "@stacks/transactions";
+import { encodeAbiValue, encodeFunctionArgs, findAbiFunction, isClarityValue, needsAbiEncoding } from "../index";
+import { StacksReadOnlyTool } from "../tools/index";
+import { OTHER_ADDRESS, TEST_ADDRESS, check, json, mockFetch, summarize } from "./harness";
+
+const CONTRACT = `${TEST_ADDRESS}.market`;
+
+const ITEM: ClarityAbiType = {
+  tuple: [
+    { name: "id", type: "uint128" },
+    { name: "note", type: { optional: { "string-utf8": { length: 8 } } } },
+  ],
+};
+
+const BUY: ClarityAbiFunction = {
+  name: "buy",
+  access: "public",
+  args: [
+    { name: "amount", type: "uint128" },
+    { name: "recipient", type: "principal" },
+    { name: "items", type: { list: { type: ITEM, length: 2 } } },
+    { name: "memo", type: { optional: { "string-ascii": { length: 10 } } } },
+  ],
+  outputs: { type: { response: { ok: "bool", error: "uint128" } } },
+};
+
+const GET_PRICE: ClarityAbiFunction = {
+  name: "get-price",
+  access: "read_only",
+  args: [{ name: "id", type: "uint128" }],
+  outputs: { type: "uint128" },
+};
+
+// Compared serialized, so that bigint and string integers count as equal
+function assertSame(actual: ClarityValue, expected: ClarityValue, message?: string) {
+  assert.equal(cvToHex(actual), cvToHex(expected), message);
+}
+
+// JSON function arguments encoded with the contract's ABI, and the errors
+// that name the offending argument
+async function abiTest() {
+  console.log("🧪 ABI argument encoding\n");
+
+  await check("positional and named arguments encode the same", () => {
+    const expected = [
+      Cl.uint(100),
+      Cl.principal(OTHER_ADDRESS),
+      Cl.list([Cl.tuple({ id: Cl.uint(1), note: Cl.some(Cl.stringUtf8("hé")) }), Cl.tuple({ id: Cl.uint(2), note: Cl.none() })]),
+      Cl.none(),
+    ];
+    const items = [{ id: 1, note: "hé" }, { id: "u2" }];
+    const positional = encodeFunctionArgs(BUY, ["100", OTHER_ADDRESS, items, null]);
+    const named = encodeFunctionArgs(BUY, { items, recipient: OTHER_ADDRESS, amount: 100 });
+    positional.forEach((arg, i) => assertSame(arg, expected[i], BUY.args[i].name));
+    named.forEach((arg, i) => assertSame(arg, expected[i], BUY.args[i].name));
+  });
+
+  await check("every ABI type from its JSON form", () => {
+    const cases: [unknown, ClarityAbiType, ClarityValue][] = [
+      [BigInt(2) ** BigInt(128) - BigInt(1), "uint128", Cl.uint(BigInt(2) ** BigInt(128) - BigInt(1))],
+      ["-7", "int128", Cl.int(-7)],
+      ["true", "bool", Cl.bool(true)],
+      [false, "bool", Cl.bool(false)],
+      [TEST_ADDRESS, "principal", Cl.principal(TEST_ADDRESS)],
+      [CONTRACT, "principal", Cl.contractPrincipal(TEST_ADDRESS, "market")],
+      [CONTRACT, "trait_reference", Cl.contractPrincipal(TEST_ADDRESS, "market")],
+      [null, "none", Cl.none()],
+      ["0x0102", { buffer: { length: 2 } }, Cl.bufferFromHex("0102")],
+      ["ABcd", { buffer: { length: 2 } }, Cl.bufferFromHex("abcd")],
+      ["hi", { "string-ascii": { length: 2 } }, Cl.stringAscii("hi")],
+      ["€", { "string-utf8": { length: 3 } }, Cl.stringUtf8("€")],
+      [5, { optional: "uint128" }, Cl.some(Cl.uint(5))],
+      [{ ok: 1 }, { response: { ok: "int128", error: "uint128" } }, Cl.ok(Cl.int(1))],
+      [{ err: "u3" }, { response: { ok: "int128", error: "uint128" } }, Cl.error(Cl.uint(3))],
+      [[], { list: { type: "bool", length: 0 } }, Cl.list([])],
+    ];
+    for (const [value, type, expected] of cases) {
+      assertSame(encodeAbiValue(value, type), expected, JSON.stringify(type));
+    }
+  });
+
+  await check("ClarityValues pass through, JSON with a \"type\" field does not", () => {
+    const uint = Cl.uint(5);
+    const cv = Cl.tuple({ type: Cl.stringAscii("swap") });
+    assert.equal(encodeAbiValue(uint, "uint128"), uint);
+    assert.equal(isClarityValue(uint), true);
+    assert.equal(isClarityValue(cv), true);
+    assert.equal(isClarityValue({ type: "uint", value: "x" }), false);
+    assert.equal(isClarityValue({ type: "uint", value: "5", extra: true }), false);
+
+    const tuple: ClarityAbiType = { tuple: [{ name: "type", type: { "string-ascii": { length: 8 } } }] };
+    assertSame(encodeAbiValue({ type: "swap" }, tuple), cv);
+  });
+
+  await check("only JSON arguments need the ABI", () => {
+    assert.equal(needsAbiEncoding([Cl.uint(1), Cl.principal(TEST_ADDRESS)]), false);
+    assert.equal(needsAbiEncoding([]), false);
+    assert.equal(needsAbiEncoding([Cl.uint(1), 2]), true);
+    assert.equal(needsAbiEncoding({ id: Cl.uint(1) }), true);
+  });
+
+  await check("values that do not fit say where and why", () => {
+    const cases: [unknown, RegExp][] = [
+      [{ amount: -1, recipient: OTHER_ADDRESS, items: [] }, /^Argument 'amount': expected uint \(between 0 and 2\^128 - 1\), got -1$/],
+      [{ amount: 1.5, recipient: OTHER_ADDRESS, items: [] }, /^Argument 'amount': expected uint \(an integer/],
+      [{ amount: 1, recipient: "alice", items: [] }, /^Argument 'recipient': expected principal/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [{ id: 1 }, { id: 2 }, { id: 3 }] }, /^Argument 'items': .*at most 2 items/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [{ id: 1 }, { id: "x" }] }, /^Argument 'items\[1\]\.id': expected uint/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [{ id: 1, price: 2 }] }, /^Argument 'items\[0\]': .*no field\(s\) price/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [{ note: "a" }] }, /^Argument 'items\[0\]': .*missing field 'id'/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [{ id: 1, note: "123456789" }] }, /'items\[0\]\.note': .*at most 8 UTF-8 bytes/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [], memo: "ünïcode" }, /^Argument 'memo': .*ASCII characters only/],
+      [{ amount: 1, recipient: OTHER_ADDRESS }, /^Missing argument 'items' \(\(list 2/],
+      [{ amount: 1, recipient: OTHER_ADDRESS, items: [], price: 2 }, /^Function 'buy' has no argument\(s\) price \(takes amount, recipient, items, memo\)$/],
+      [[1, OTHER_ADDRESS], /^Function 'buy' takes 4 argument\(s\) \(amount, recipient, items, memo\), got 2$/],
+    ];
+    for (const [args, error] of cases) {
+      assert.throws(() => encodeFunctionArgs(BUY, args as any), { message: error }, JSON.stringify(args));
+    }
+    assert.throws(() => encodeAbiValue("0x010203", { buffer: { length: 2 } }), /at most 2 bytes/);
+    assert.throws(() => encodeAbiValue({ maybe: 1 }, { response: { ok: "bool", error: "bool" } }), /\{"ok": …\} or \{"err": …\}/);
+  });
+
+  await check("unknown functions list the ones there are", () => {
+    assert.equal(findAbiFunction([BUY, GET_PRICE], "get-price", CONTRACT), GET_PRICE);
+    assert.throws(
+      () => findAbiFunction([BUY, GET_PRICE, { ...GET_PRICE, name: "helper", access: "private" }], "sell", CONTRACT),
+      { message: `Contract ${CONTRACT} has no function 'sell' (available: buy, get-price)` }
+    );
+  });
+
+  await check("read-only calls encode JSON arguments with the fetched ABI", async () => {
+    const bodies: string[] = [];
+    const { requests } = mockFetch((url, init) => {
+      if (url.includes("/v2/contracts/interface/")) {
+        return json({ functions: [BUY, GET_PRICE], variables: [], maps: [], fungible_tokens: [], non_fungible_tokens: [] });
+      }
+      if (url.includes("/v2/contracts/call-read/")) {
+        bodies.push(String(init?.body));
+        return json({ okay: true, result: cvToHex(Cl.uint(42)) });
+      }
+      return undefined;
+    });
+    const tool = new StacksReadOnlyTool(STACKS_TESTNET);
+    const call = { contractAddress: TEST_ADDRESS, contractName: "market" };
+
+    const result = await tool.callReadOnlyFunction({ ...call, functionName: "get-price", functionArgs: { id: "7" } });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data?.resultString, "u42");
+    assert.deepEqual(JSON.parse(bodies[0]).arguments, [cvToHex(Cl.uint(7))]);
+
+    await tool.callReadOnlyFunction({ ...call, functionName: "get-price", functionArgs: [9] });
+    assert.equal(requests.filter((url) => url.includes("/interface/")).length, 1, "the ABI is fetched once");
+
+    const publicCall = await tool.callReadOnlyFunction({ ...call, functionName: "buy", functionArgs: {} });
+    assert.match(publicCall.error ?? "", /'buy' is public and needs a transaction/);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  abiTest().catch(console.error);
+}
+
+export { abiTest };
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { ToolMessage } from "@langchain/core/messages";
+import { createStacksWalletAgent, defineTool, ScriptedLLMProvider } from "../index";
+import { OTHER_ADDRESS, TEST_PRIVATE_KEY, TXID, check, mockNode, summarize } from "./harness";
+
+function createAgent(llm: ScriptedLLMProvider, requireConfirmation: boolean = true) {
+  return createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY, llm, requireConfirmation });
+}
+
+// What the model was told each tool returned
+function toolReplies(llm: ScriptedLLMProvider): string[] {
+  return llm.calls.flatMap(({ messages }) => messages)
+    .filter((message): message is ToolMessage => message instanceof ToolMessage)
+    .map((message) => String(message.content));
+}
+
+const transfer = () => ScriptedLLMProvider.toolCall("transfer_stx", { toAddress: OTHER_ADDRESS, amount: "1.5", fee: "0.001" });
+
+// The confirm step of chat(): state-changing tools pause on an interrupt with
+// a summary and only run once approved through continueChat
+async function confirmationTest() {
+  console.log("🧪 Confirmation flow (scripted LLM, mocked node)\n");
+
+  await check("read-only tools run without asking", async () => {
+    mockNode();
+    const llm = new ScriptedLLMProvider([
+      ScriptedLLMProvider.toolCall("get_balance", { address: OTHER_ADDRESS }),
+      "The balance is 2.5 STX.",
+    ]);
+    const agent = await createAgent(llm);
+
+    const turn = await agent.chat("What is the balance?");
+    assert.equal(turn.pendingAction, undefined);
+    assert.equal(turn.response, "The balance is 2.5 STX.");
+  });
+
+  await check("a transfer pauses with a summary and is not broadcast", async () => {
+    const broadcasts = mockNode();
+    const agent = await createAgent(new ScriptedLLMProvider([transfer()]));
+
+    const turn = await agent.chat(`Send 1.5 STX to ${OTHER_ADDRESS}`);
+    assert.ok(turn.pendingAction, "expected a pending action");
+    assert.equal(turn.pendingAction.actions.length, 1);
+    const [action] = turn.pendingAction.actions;
+    assert.equal(action.tool, "transfer_stx");
+    assert.equal(action.amount, "1.5 STX");
+    assert.equal(action.recipient, OTHER_ADDRESS);
+    assert.match(turn.response, /1\.5 STX/);
+    assert.equal(broadcasts.length, 0);
+  });
+
+  await check("approving broadcasts exactly once", async () => {
+    const broadcasts = mockNode();
+    const llm = new ScriptedLLMProvider([transfer(), "Sent."]);
+    const agent = await createAgent(llm);
+
+    const turn = await agent.chat(`Send 1.5 STX to ${OTHER_ADDRESS}`);
+    const result = await agent.continueChat({ approve: true }, turn.state);
+    assert.equal(result.pendingAction, undefined);
+    assert.equal(result.response, "Sent.");
+    assert.equal(broadcasts.length, 1);
+    assert.ok(toolReplies(llm).some((reply) => reply.includes(TXID)), "the model should see the txid");
+  });
+
+  await check("a plain \"yes\" approves", async () => {
+    const broadcasts = mockNode();
+    const agent = await createAgent(new ScriptedLLMProvider([transfer(), "Sent."]));
+
+    const turn = await agent.chat(`Send 1.5 STX to ${OTHER_ADDRESS}`);
+    await agent.continueChat("yes", turn.state);
+    assert.equal(broadcasts.length, 1);
+  });
+
+  await check("rejecting signs nothing and tells the model why", async () => {
+    const broadcasts = mockNode();
+    const llm = new ScriptedLLMProvider([transfer(), "Okay, I will not send it."]);
+    const agent = await createAgent(llm);
+
+    const turn = await agent.chat(`Send 1.5 STX to ${OTHER_ADDRESS}`);
+    const result = await agent.continueChat({ approve: false, reason: "Wrong recipient" }, turn.state);
+    assert.equal(result.response, "Okay, I will not send it.");
+    assert.equal(broadcasts.length, 0);
+    assert.ok(
+      toolReplies(llm).some((reply) => reply.includes("The user rejected this action: Wrong recipient")),
+      "the model should see the rejection"
+    );
+  });
+
+  await check("requireConfirmation: false runs state-changing tools directly", async () => {
+    const broadcasts = mockNode();
+    const agent = await createAgent(new ScriptedLLMProvider([transfer(), "Sent."]), false);
+
+    const turn = await agent.chat(`Send 1.5 STX to ${OTHER_ADDRESS}`);
+    assert.equal(turn.pendingAction, undefined);
+    assert.equal(broadcasts.length, 1);
+  });
+
+  await check("executePrompt only summarizes state-changing tools", async () => {
+    const broadcasts = mockNode();
+    const match = JSON.stringify({ tools: ["transfer_stx"], parameters: { toAddress: OTHER_ADDRESS, amount: "1.5" } });
+    const agent = await createAgent(new ScriptedLLMProvider([match]));
+
+    const result = await agent.executePrompt(`Send 1.5 STX to ${OTHER_ADDRESS}`);
+    assert.equal(result.success, false);
+    assert.equal(result.data.summary.amount, "1.5 STX");
+    assert.equal(broadcasts.length, 0);
+  });
+
+  await check("executePrompt strips secrets from tool results", async () => {
+    const match = JSON.stringify({ tools: ["echo_key"], parameters: {} });
+    const agent = await createAgent(new ScriptedLLMProvider([match]));
+    agent.getToolRegistry().register(
+      defineTool({
+        name: "echo_key",
+        description: "Leaks the key",
+        schema: z.object({}),
+        execute: async () => ({ success: true, data: { note: `key ${TEST_PRIVATE_KEY}`, privateKey: TEST_PRIVATE_KEY } }),
+      })
+    );
+
+    const result = await agent.executePrompt("Show the key");
+    assert.equal(result.success, true);
+    assert.ok(!JSON.stringify(result).includes(TEST_PRIVATE_KEY.slice(0, 64)), "the key should be redacted");
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  confirmationTest().catch(console.error);
+}
+
+export { confirmationTest };
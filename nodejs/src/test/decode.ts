@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { STACKS_TESTNET } from "@stacks/network";
+import { Cl, ClarityAbiType, ClarityValue, cvToHex } from "@stacks/transactions";
+import { decodeClarityHex, decodeClarityValue, encodeAbiValue } from "../index";
+import { StacksReadOnlyTool } from "../tools/index";
+import { TEST_ADDRESS, check, json, mockFetch, summarize } from "./harness";
+
+const CONTRACT = `${TEST_ADDRESS}.market`;
+
+// A value of every kind, with the ABI type it was declared as
+const ORDER_TYPE: ClarityAbiType = {
+  tuple: [
+    { name: "id", type: "uint128" },
+    { name: "delta", type: "int128" },
+    { name: "total", type: "uint128" },
+    { name: "open", type: "bool" },
+    { name: "owner", type: "principal" },
+    { name: "market", type: "principal" },
+    { name: "hash", type: { buffer: { length: 4 } } },
+    { name: "label", type: { "string-ascii": { length: 10 } } },
+    { name: "note", type: { "string-utf8": { length: 10 } } },
+    { name: "buyer", type: { optional: "principal" } },
+    { name: "seller", type: { optional: "principal" } },
+    { name: "fills", type: { list: { type: { response: { ok: "uint128", error: "int128" } }, length: 4 } } },
+  ],
+};
+
+const ORDER: ClarityValue = Cl.tuple({
+  id: Cl.uint(7),
+  delta: Cl.int(-3),
+  total: Cl.uint(BigInt(2) ** BigInt(64)),
+  open: Cl.bool(true),
+  owner: Cl.principal(TEST_ADDRESS),
+  market: Cl.principal(CONTRACT),
+  hash: Cl.bufferFromHex("deadbeef"),
+  label: Cl.stringAscii("spot"),
+  note: Cl.stringUtf8("ünï"),
+  buyer: Cl.some(Cl.principal(TEST_ADDRESS)),
+  seller: Cl.none(),
+  fills: Cl.list([Cl.ok(Cl.uint(1)), Cl.error(Cl.int(-1))]),
+});
+
+const ORDER_JSON = {
+  id: 7,
+  delta: -3,
+  total: "18446744073709551616",
+  open: true,
+  owner: TEST_ADDRESS,
+  market: CONTRACT,
+  hash: "0xdeadbeef",
+  label: "spot",
+  note: "ünï",
+  buyer: TEST_ADDRESS,
+  seller: null,
+  fills: [{ ok: 1 }, { err: -1 }],
+};
+
+// Clarity values decoded to plain JSON, and that the JSON encodes back to the
+// same value with the ABI type
+async function decodeTest() {
+  console.log("🧪 Clarity value decoding\n");
+
+  await check("every Clarity type decodes to plain JSON", () => {
+    assert.deepEqual(decodeClarityValue(ORDER), ORDER_JSON);
+    assert.deepEqual(decodeClarityHex(cvToHex(ORDER)), ORDER_JSON);
+    assert.equal(decodeClarityValue(Cl.bool(false)), false);
+    assert.deepEqual(decodeClarityValue(Cl.list([])), []);
+    assert.equal(decodeClarityValue(Cl.bufferFromHex("")), "0x");
+  });
+
+  await check("integers beyond the safe range stay exact as strings", () => {
+    const max = BigInt(Number.MAX_SAFE_INTEGER);
+    assert.equal(decodeClarityValue(Cl.uint(max)), Number.MAX_SAFE_INTEGER);
+    assert.equal(decodeClarityValue(Cl.uint(max + BigInt(1))), "9007199254740992");
+    assert.equal(decodeClarityValue(Cl.int(-max)), Number.MIN_SAFE_INTEGER);
+    assert.equal(decodeClarityValue(Cl.int(-max - BigInt(1))), "-9007199254740992");
+    const uintMax = BigInt(2) ** BigInt(128) - BigInt(1);
+    assert.equal(decodeClarityValue(Cl.uint(uintMax)), uintMax.toString());
+  });
+
+  await check("decoded JSON encodes back to the same value", () => {
+    assert.equal(cvToHex(encodeAbiValue(ORDER_JSON, ORDER_TYPE)), cvToHex(ORDER));
+    const cases: [ClarityValue, ClarityAbiType][] = [
+      [Cl.int(BigInt(-2) ** BigInt(127)), "int128"],
+      [Cl.contractPrincipal(TEST_ADDRESS, "market"), "trait_reference"],
+      [Cl.none(), { optional: { list: { type: "bool", length: 1 } } }],
+      [Cl.some(Cl.list([Cl.bool(false)])), { optional: { list: { type: "bool", length: 1 } } }],
+      [Cl.ok(Cl.tuple({ a: Cl.none() })), { response: { ok: { tuple: [{ name: "a", type: { optional: "bool" } }] }, error: "none" } }],
+    ];
+    for (const [cv, type] of cases) {
+      const decoded = JSON.parse(JSON.stringify(decodeClarityValue(cv)));
+      assert.equal(cvToHex(encodeAbiValue(decoded, type)), cvToHex(cv), JSON.stringify(type));
+    }
+  });
+
+  await check("JSON encoded then decoded comes back unchanged", () => {
+    const hex = cvToHex(encodeAbiValue({ ...ORDER_JSON, hash: "DEADBEEF", id: "u7" }, ORDER_TYPE));
+    assert.deepEqual(decodeClarityHex(hex), ORDER_JSON);
+  });
+
+  await check("(some none) and none both decode to null", () => {
+    // The JSON form cannot tell them apart; null encodes as the outer none
+    const type: ClarityAbiType = { optional: { optional: "bool" } };
+    assert.equal(decodeClarityValue(Cl.some(Cl.none())), null);
+    assert.equal(cvToHex(encodeAbiValue(null, type)), cvToHex(Cl.none()));
+  });
+
+  await check("read-only results come with their JSON form", async () => {
+    mockFetch((url) => (url.includes("/v2/contracts/call-read/") ? json({ okay: true, result: cvToHex(Cl.ok(ORDER)) }) : undefined));
+    const tool = new StacksReadOnlyTool(STACKS_TESTNET);
+    const result = await tool.callReadOnlyFunction({
+      contractAddress: TEST_ADDRESS,
+      contractName: "market",
+      functionName: "get-order",
+      functionArgs: [Cl.uint(7)],
+    });
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data?.resultJSON, { ok: ORDER_JSON });
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  decodeTest().catch(console.error);
+}
+
+export { decodeTest };
@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import { STACKS_TESTNET } from "@stacks/network";
+import { Cl, cvToHex } from "@stacks/transactions";
+import { ContractEvent, ContractEventFeed, ContractEventWatcher, toContractEvent } from "../index";
+import { StacksReadOnlyTool } from "../tools/index";
+import { OTHER_ADDRESS, TEST_ADDRESS, check, json, mockFetch, summarize } from "./harness";
+
+const CONTRACT = `${TEST_ADDRESS}.market`;
+const TOKEN = `${TEST_ADDRESS}.token::token`;
+const NFT = `${TEST_ADDRESS}.collection::item`;
+
+const txId = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+// Extended API events, in turn a print with topic "buy" or "sell", an STX
+// transfer and a token transfer
+function apiEvent(n: number): any {
+  const base = { tx_id: txId(n), event_index: 0 };
+  switch (n % 4) {
+    case 0:
+    case 1: {
+      const payload = Cl.tuple({ topic: Cl.stringAscii(n % 4 ? "sell" : "buy"), id: Cl.uint(n) });
+      return {
+        ...base,
+        event_type: "smart_contract_log",
+        contract_log: { contract_id: CONTRACT, topic: "print", value: { hex: cvToHex(payload), repr: `(tuple (id u${n}))` } },
+      };
+    }
+    case 2:
+      return {
+        ...base,
+        event_type: "stx_asset",
+        asset: { asset_event_type: "transfer", sender: TEST_ADDRESS, recipient: OTHER_ADDRESS, amount: String(n) },
+      };
+    default:
+      return {
+        ...base,
+        event_type: "fungible_token_asset",
+        asset: { asset_event_type: "transfer", asset_id: TOKEN, sender: TEST_ADDRESS, recipient: OTHER_ADDRESS, amount: String(n) },
+      };
+  }
+}
+
+// A contract's event history, newest first, served with the API's limit and
+// offset. Returns the list so that checks can add newer events to it.
+function mockEvents(count: number): any[] {
+  const events = Array.from({ length: count }, (_, i) => apiEvent(count - 1 - i));
+  mockFetch((url) => {
+    if (!url.includes(`/extended/v1/contract/${CONTRACT}/events`)) {
+      return undefined;
+    }
+    const query = new URL(url).searchParams;
+    const offset = Number(query.get("offset"));
+    const limit = Math.min(Number(query.get("limit")), 50);
+    return json({ limit, offset, total: events.length, results: events.slice(offset, offset + limit) });
+  });
+  return events;
+}
+
+// Newer events, as they would be added on top of the history
+function addEvents(events: any[], count: number): void {
+  const next = events.length;
+  events.unshift(...Array.from({ length: count }, (_, i) => apiEvent(next + count - 1 - i)));
+}
+
+const keys = (events: ContractEvent[]) => events.map((event) => `${event.txId}:${event.eventIndex}`);
+
+// Every page of a getEvents query, following nextCursor
+async function readAll(feed: ContractEventFeed, params: object, between: () => void = () => {}): Promise<ContractEvent[][]> {
+  const pages: ContractEvent[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await feed.getEvents({ contractId: CONTRACT, limit: 20, ...params, cursor });
+    pages.push(page.events);
+    cursor = page.nextCursor;
+    between();
+  } while (cursor);
+  return pages;
+}
+
+// Contract event history read through cursors, and the watcher that delivers
+// new events
+async function eventsTest() {
+  console.log("🧪 Contract events (mocked Extended API)\n");
+
+  await check("Extended API events map to ContractEvents", () => {
+    assert.deepEqual(toContractEvent(apiEvent(4)), {
+      txId: txId(4),
+      eventIndex: 0,
+      type: "print",
+      contractId: CONTRACT,
+      topic: "buy",
+      value: { topic: "buy", id: 4 },
+      repr: "(tuple (id u4))",
+    });
+    assert.equal(toContractEvent(apiEvent(6)).asset, "STX");
+    assert.equal(toContractEvent(apiEvent(7)).asset, TOKEN);
+
+    const nft = toContractEvent({
+      tx_id: txId(1),
+      event_index: 2,
+      event_type: "non_fungible_token_asset",
+      asset: { asset_event_type: "mint", asset_id: NFT, recipient: OTHER_ADDRESS, value: { hex: cvToHex(Cl.uint(9)), repr: "u9" } },
+    });
+    assert.equal(nft.type, "nft");
+    assert.equal(nft.action, "mint");
+    assert.equal(nft.sender, undefined);
+    assert.equal(nft.value, 9);
+
+    const lock = toContractEvent({
+      tx_id: txId(1),
+      event_index: 3,
+      event_type: "stx_lock",
+      stx_lock_event: { locked_address: TEST_ADDRESS, locked_amount: "1000", unlock_height: "210" },
+    });
+    assert.equal(lock.unlockHeight, 210);
+    assert.throws(() => toContractEvent({ ...apiEvent(1), event_type: "burnchain_op" }), /Unknown contract event type 'burnchain_op'/);
+  });
+
+  await check("cursors page through the whole history once", async () => {
+    const history = mockEvents(130);
+    const pages = await readAll(new ContractEventFeed(STACKS_TESTNET), {});
+    assert.deepEqual(pages.map((page) => page.length), [20, 20, 20, 20, 20, 20, 10]);
+    assert.deepEqual(keys(pages.flat()), history.map((event) => `${event.tx_id}:0`));
+  });
+
+  await check("events added between pages are neither repeated nor skipped", async () => {
+    const history = mockEvents(130);
+    const expected = history.map((event) => `${event.tx_id}:0`);
+    const pages = await readAll(new ContractEventFeed(STACKS_TESTNET), {}, () => addEvents(history, 7));
+    assert.deepEqual(keys(pages.flat()), expected);
+  });
+
+  await check("filters by event type, asset and topic", async () => {
+    mockEvents(130);
+    const feed = new ContractEventFeed(STACKS_TESTNET);
+    const ids = async (params: object) => (await readAll(feed, params)).flat().map((event) => Number(BigInt(event.txId)));
+    const expected = (rest: number[]) => Array.from({ length: 130 }, (_, i) => 129 - i).filter((n) => rest.includes(n % 4));
+
+    assert.deepEqual(await ids({ eventType: "ft" }), expected([3]));
+    assert.deepEqual(await ids({ eventType: ["print", "stx"] }), expected([0, 1, 2]));
+    assert.deepEqual(await ids({ asset: "stx" }), expected([2]));
+    assert.deepEqual(await ids({ asset: TOKEN }), expected([3]));
+    assert.deepEqual(await ids({ topic: "sell" }), expected([1]));
+    assert.deepEqual(await ids({ eventType: "nft" }), []);
+  });
+
+  await check("a selective filter returns a short page that continues later", async () => {
+    // The one match is the oldest event, past the 500 a call looks through
+    const other = `${TEST_ADDRESS}.token::other`;
+    const history = mockEvents(600);
+    const oldest = apiEvent(1003);
+    history.push({ ...oldest, asset: { ...oldest.asset, asset_id: other } });
+    const feed = new ContractEventFeed(STACKS_TESTNET);
+
+    const first = await feed.getEvents({ contractId: CONTRACT, asset: other });
+    assert.deepEqual(first.events, []);
+    assert.ok(first.nextCursor, "expected a cursor to continue from");
+    const second = await feed.getEvents({ contractId: CONTRACT, asset: other, cursor: first.nextCursor });
+    assert.deepEqual(keys(second.events), [`${txId(1003)}:0`]);
+    assert.equal(second.nextCursor, undefined);
+  });
+
+  await check("invalid cursors and limits are rejected", async () => {
+    mockEvents(10);
+    const feed = new ContractEventFeed(STACKS_TESTNET);
+    await assert.rejects(feed.getEvents({ contractId: CONTRACT, cursor: "nope" }), { message: "Invalid cursor 'nope'" });
+    const negative = Buffer.from(JSON.stringify({ offset: -1 })).toString("base64url");
+    await assert.rejects(feed.getEvents({ contractId: CONTRACT, cursor: negative }), /Invalid cursor/);
+    for (const limit of [0, 51, 1.5]) {
+      await assert.rejects(feed.getEvents({ contractId: CONTRACT, limit }), { message: "Limit must be between 1 and 50" });
+    }
+    await assert.rejects(feed.getEvents({ contractId: "market" }), /contract/i);
+  });
+
+  await check("getContractEvents takes a query, or an address, name, limit and offset", async () => {
+    const history = mockEvents(30);
+    const tool = new StacksReadOnlyTool(STACKS_TESTNET);
+
+    const page = await tool.getContractEvents({ contractId: CONTRACT, eventType: "stx", limit: 2 });
+    assert.equal(page.success, true, page.error);
+    assert.deepEqual(keys(page.data!.events), [`${txId(26)}:0`, `${txId(22)}:0`]);
+    assert.ok(page.data!.nextCursor);
+
+    const raw = await tool.getContractEvents(TEST_ADDRESS, "market", 5, 10);
+    assert.equal(raw.success, true, raw.error);
+    assert.deepEqual(raw.data, history.slice(10, 15));
+  });
+
+  await check("the watcher delivers only events after it starts, oldest first", async () => {
+    const history = mockEvents(10);
+    const watcher = new ContractEventWatcher(STACKS_TESTNET, { pollInterval: 5 });
+    const delivered: ContractEvent[] = [];
+    const printed: ContractEvent[] = [];
+    const unsubscribe = watcher.subscribe(CONTRACT, {}, (event) => delivered.push(event));
+    watcher.subscribe(CONTRACT, { eventType: "print" }, (event) => printed.push(event));
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.deepEqual(delivered, []);
+    addEvents(history, 3);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    addEvents(history, 60);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    watcher.stop();
+
+    const added = Array.from({ length: 63 }, (_, i) => `${txId(10 + i)}:0`);
+    assert.deepEqual(keys(delivered), added);
+    assert.deepEqual(keys(printed), added.filter((_, i) => (10 + i) % 4 < 2));
+    unsubscribe();
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  eventsTest().catch(console.error);
+}
+
+export { eventsTest };
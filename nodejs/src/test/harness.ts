@@ -0,0 +1,80 @@
+// Helpers for the offline test scripts. They need no network, keys or LLM:
+// HTTP goes to a mocked fetch and the model is a ScriptedLLMProvider.
+
+export type FetchHandler = (url: string, init?: RequestInit) => Response | undefined | Promise<Response | undefined>;
+
+// A throwaway testnet account for scripted conversations
+export const TEST_PRIVATE_KEY = "753b7cc01a1a2e86221266a154af739463fce51219d97e4f856cd7200c3bd2a601";
+export const TEST_ADDRESS = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+export const OTHER_ADDRESS = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+export function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+// Route every fetch through handler and record the URLs. Requests the handler
+// does not answer fail the check that made them.
+export function mockFetch(handler: FetchHandler): { requests: string[] } {
+  const requests: string[] = [];
+  globalThis.fetch = (async (input: any, init?: RequestInit) => {
+    const url = String(input?.url ?? input);
+    requests.push(url);
+    const response = await handler(url, init);
+    if (!response) {
+      throw new Error(`Unexpected request: ${url}`);
+    }
+    return response;
+  }) as typeof fetch;
+  return { requests };
+}
+
+export const TXID = "a".repeat(64);
+
+// A testnet node that knows the test account and accepts every broadcast.
+// Returns the broadcast request bodies; other requests go to handler.
+export function mockNode(handler: FetchHandler = () => undefined): string[] {
+  const broadcasts: string[] = [];
+  mockFetch((url, init) => {
+    if (url.includes("/nonces")) {
+      return json({ possible_next_nonce: 3, detected_missing_nonces: [], last_executed_tx_nonce: 2, last_mempool_tx_nonce: null });
+    }
+    if (url.includes("/v2/accounts/")) {
+      return json({ nonce: 3, balance: "0x2625a0", locked: "0x0" });
+    }
+    if (url.includes("/v2/fees/")) {
+      return new Response("1");
+    }
+    if (url.includes("/v2/transactions")) {
+      broadcasts.push(String(init?.body));
+      return json(TXID);
+    }
+    if (url.includes("/balances")) {
+      return json({ stx: { balance: "2500000", locked: "0" } });
+    }
+    return handler(url, init);
+  });
+  return broadcasts;
+}
+
+let failures = 0;
+
+export async function check(name: string, run: () => void | Promise<void>): Promise<void> {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`❌ ${name}`);
+    console.log(`   ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Print the outcome and fail the process if any check failed
+export function summarize(): void {
+  if (failures) {
+    console.log(`\n❌ ${failures} check(s) failed`);
+    process.exitCode = 1;
+  } else {
+    console.log("\n✅ All checks passed");
+  }
+}
@@ -26,11 +26,11 @@ async function demonstrateMoreTools() {
   // Generate a new key
   const generateKeyTool = tools.find((t: any) => t.name === 'generate_key');
   if (generateKeyTool) {
-    const keyResult = await generateKeyTool.execute({ network: 'testnet' });
-    console.log('✅ Generated new key:', keyResult);
+    const keyResult = await generateKeyTool.execute({ name: 'demo' });
+    console.log('✅ Generated new account:', keyResult);
     
     if (keyResult.success && keyResult.data) {
-      const { privateKey, publicKey, address } = keyResult.data;
+      const { address } = keyResult.data;
       
       // Validate the generated address
       const validateTool = tools.find((t: any) => t.name === 'validate_address');
@@ -141,7 +141,7 @@ async function demonstrateMoreTools() {
     console.log('  - sponsor_transaction: Sponsor an existing transaction');
     
     const exampleSponsoredParams = {
-      originPrivateKey: 'origin-private-key-here',
+      account: 'default', // origin account held by the agent
       recipient: 'ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE',
       amount: '1.0',
       memo: 'Sponsored transaction example'
@@ -159,7 +159,7 @@ async function demonstrateMoreTools() {
     
     // Example of calling a contract function
     const exampleCallParams = {
-      fromPrivateKey: 'caller-private-key-here',
+      account: 'default', // caller account held by the agent
       contractAddress: 'ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE',
       contractName: 'counter-contract',
       functionName: 'set-counter',
@@ -174,15 +174,21 @@ async function demonstrateMoreTools() {
   console.log('='.repeat(50));
   
   const toolCategories = {
-    'Query & Balance': ['query_wallet', 'get_balance'],
+    'Query & Balance': ['query_wallet', 'get_balance', 'get_transaction_status'],
     'STX Transfers': ['transfer_stx', 'estimate_transfer_fee', 'validate_transfer'],
-    'Token Swaps': ['swap_stx', 'get_swap_quote'],
+    'Token Swaps': ['get_swap_quote', 'dry_run_swap', 'swap_tokens'],
     'Contract Deployment': ['deploy_contract', 'estimate_deploy_fee'],
     'Contract Calls': ['call_contract', 'get_contract_abi', 'get_contract_source'],
-    'Read-Only Calls': ['call_readonly_function'],
-    'Key Management': ['generate_key', 'import_key', 'validate_address'],
+    'Read-Only Calls': ['call_readonly_function', 'get_data_var', 'get_map_entry', 'get_contract_events'],
+    'Key Management': ['generate_key', 'list_accounts', 'validate_address'],
+    'HD Wallets': ['create_hd_wallet', 'derive_hd_accounts', 'discover_hd_accounts', 'export_xpub', 'derive_watch_only_addresses'],
     'Multi-Signature': ['create_multisig_stx_transfer', 'sign_multisig_transaction'],
-    'Sponsored Transactions': ['create_sponsored_stx_transfer', 'sponsor_transaction']
+    'Sponsored Transactions': ['create_sponsored_stx_transfer', 'sponsor_transaction'],
+    'Stuck Transactions': ['speed_up_transaction', 'cancel_transaction'],
+    'Fungible Tokens': ['get_token_balances', 'transfer_token'],
+    'NFTs': ['list_nfts', 'transfer_nft'],
+    'BNS': ['resolve_name', 'lookup_name'],
+    'Stacking': ['get_pox_info', 'check_stacking_eligibility', 'get_stacking_status', 'delegate_stx', 'revoke_delegation']
   };
 
   for (const [category, toolNames] of Object.entries(toolCategories)) {
@@ -200,15 +206,15 @@ export function getUsageExamples() {
     // Key management
     generateKey: {
       tool: 'generate_key',
-      params: { network: 'testnet' },
-      description: 'Generate a new random key pair'
+      params: { name: 'savings' },
+      description: 'Generate a new account held by the agent'
     },
     
     // Contract deployment
     deployContract: {
       tool: 'deploy_contract',
       params: {
-        fromPrivateKey: 'your-private-key',
+        account: 'default',
         contractName: 'my-contract',
         codeBody: '(define-constant CONTRACT_OWNER tx-sender)'
       },
@@ -231,7 +237,7 @@ export function getUsageExamples() {
     contractCall: {
       tool: 'call_contract',
       params: {
-        fromPrivateKey: 'your-private-key',
+        account: 'default',
         contractAddress: 'ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE',
         contractName: 'counter',
         functionName: 'increment',
@@ -256,7 +262,7 @@ export function getUsageExamples() {
     sponsoredTransfer: {
       tool: 'create_sponsored_stx_transfer',
       params: {
-        originPrivateKey: 'origin-private-key',
+        account: 'default',
         recipient: 'ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE',
         amount: '0.5',
         memo: 'Sponsored by someone else'
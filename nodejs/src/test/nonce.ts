@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { STACKS_TESTNET } from "@stacks/network";
+import { NonceManager } from "../index";
+import { TEST_ADDRESS, check, json, mockFetch, summarize } from "./harness";
+
+interface Chain {
+  next: number;
+  missing?: number[];
+  extendedApi?: boolean; // false: only /v2/accounts answers
+}
+
+// Serve the account's nonces as the Extended API (or a bare node) would
+function mockChain(chain: Chain) {
+  return mockFetch((url) => {
+    if (url.includes("/nonces")) {
+      return chain.extendedApi === false
+        ? new Response("", { status: 404 })
+        : json({
+            possible_next_nonce: chain.next,
+            detected_missing_nonces: chain.missing ?? [],
+            last_executed_tx_nonce: chain.next - 1,
+            last_mempool_tx_nonce: null,
+          });
+    }
+    if (url.includes("/v2/accounts/")) {
+      return json({ nonce: chain.next });
+    }
+    return undefined;
+  });
+}
+
+const broadcast = (nonce: number) => Promise.resolve(nonce);
+
+// The nonce manager's local reservations and their reconciliation with the API
+async function nonceTest() {
+  console.log("🧪 Nonce manager\n");
+
+  await check("concurrent transactions get distinct nonces", async () => {
+    mockChain({ next: 5 });
+    const manager = new NonceManager(STACKS_TESTNET);
+    const nonces = await Promise.all([1, 2, 3].map(() => manager.withNonce(TEST_ADDRESS, broadcast)));
+    assert.deepEqual(nonces.sort((a, b) => a - b), [5, 6, 7]);
+    assert.equal(await manager.peek(TEST_ADDRESS), 8);
+  });
+
+  await check("a failed broadcast releases its nonce", async () => {
+    mockChain({ next: 5 });
+    const manager = new NonceManager(STACKS_TESTNET);
+    await assert.rejects(
+      manager.withNonce(TEST_ADDRESS, async () => {
+        throw new Error("Transaction failed: NotEnoughFunds");
+      })
+    );
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 5);
+  });
+
+  await check("a nonce the node reports in use is not reused", async () => {
+    mockChain({ next: 5 });
+    const manager = new NonceManager(STACKS_TESTNET);
+    await assert.rejects(
+      manager.withNonce(TEST_ADDRESS, async () => {
+        throw new Error("Transaction failed: ConflictingNonceInMempool");
+      })
+    );
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 6);
+  });
+
+  await check("missing nonces are filled first", async () => {
+    mockChain({ next: 9, missing: [6, 7] });
+    const manager = new NonceManager(STACKS_TESTNET);
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 6);
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 7);
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 9);
+  });
+
+  await check("pending nonces are dropped once the API reflects them", async () => {
+    const chain: Chain = { next: 5 };
+    mockChain(chain);
+    const manager = new NonceManager(STACKS_TESTNET);
+    await manager.withNonce(TEST_ADDRESS, broadcast);
+    await manager.withNonce(TEST_ADDRESS, broadcast);
+    assert.deepEqual((await manager.getNonceInfo(TEST_ADDRESS)).pendingNonces, [5, 6]);
+
+    chain.next = 6;
+    const info = await manager.getNonceInfo(TEST_ADDRESS);
+    assert.deepEqual(info.pendingNonces, [6]);
+    assert.equal(info.nextNonce, 7);
+  });
+
+  await check("a broadcast the API never shows is reused after the pending timeout", async () => {
+    mockChain({ next: 5 });
+    const manager = new NonceManager(STACKS_TESTNET, { pendingTimeoutMs: 0 });
+    await manager.withNonce(TEST_ADDRESS, broadcast);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal(await manager.peek(TEST_ADDRESS), 5);
+  });
+
+  await check("reserved and pending nonces are reported separately", async () => {
+    mockChain({ next: 5 });
+    const manager = new NonceManager(STACKS_TESTNET);
+    await manager.withNonce(TEST_ADDRESS, broadcast);
+    await manager.reserve(TEST_ADDRESS);
+    const info = await manager.getNonceInfo(TEST_ADDRESS);
+    assert.deepEqual(info.pendingNonces, [5]);
+    assert.deepEqual(info.reservedNonces, [6]);
+
+    manager.reset(TEST_ADDRESS);
+    assert.equal(await manager.peek(TEST_ADDRESS), 5);
+  });
+
+  await check("nodes without the Extended API fall back to the account nonce", async () => {
+    mockChain({ next: 3, extendedApi: false });
+    const manager = new NonceManager(STACKS_TESTNET);
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 3);
+    assert.equal(await manager.withNonce(TEST_ADDRESS, broadcast), 4);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  nonceTest().catch(console.error);
+}
+
+export { nonceTest };
@@ -0,0 +1,234 @@
+import assert from "node:assert/strict";
+import {
+  Cl,
+  TokenTransferPayloadWire,
+  deserializeTransaction,
+  makeRandomPrivKey,
+  makeUnsignedSTXTokenTransfer,
+  privateKeyToPublic,
+} from "@stacks/transactions";
+import { createStacksWalletAgent, SpendingPolicy, StacksUtils } from "../index";
+import { OTHER_ADDRESS, TEST_ADDRESS, TEST_PRIVATE_KEY, check, mockNode, summarize } from "./harness";
+
+const HOUR_MS = 60 * 60 * 1000;
+const CONTRACT = `${TEST_ADDRESS}.market`;
+
+// The spending policy's limits, and that the policy and the signed
+// transaction read an amount the same way
+async function policyTest() {
+  console.log("🧪 Spending policy\n");
+
+  await check("STX amounts: strings and numbers are STX, bigints microSTX", () => {
+    assert.equal(StacksUtils.toMicroSTX("5"), BigInt(5_000_000));
+    assert.equal(StacksUtils.toMicroSTX("5.0"), BigInt(5_000_000));
+    assert.equal(StacksUtils.toMicroSTX(1.5), BigInt(1_500_000));
+    assert.equal(StacksUtils.toMicroSTX("0.000001"), BigInt(1));
+    assert.equal(StacksUtils.toMicroSTX(BigInt(5)), BigInt(5));
+    for (const invalid of ["abc", "-1", "1.1234567", "", "1e6"]) {
+      assert.throws(() => StacksUtils.toMicroSTX(invalid), /Invalid STX amount/, invalid);
+    }
+    assert.throws(() => StacksUtils.toMicroSTX(BigInt(-1)), /negative/);
+  });
+
+  await check("per-transaction limit", () => {
+    const policy = new SpendingPolicy({ maxPerTransaction: "5" }, "testnet");
+    assert.equal(policy.evaluate({ tool: "transfer_stx", amount: "5" }), undefined);
+    assert.equal(policy.evaluate({ tool: "transfer_stx", amount: "5.000001" })?.code, "TRANSACTION_LIMIT_EXCEEDED");
+  });
+
+  await check("daily limit over a rolling 24 hours", () => {
+    const policy = new SpendingPolicy({ dailyLimit: "10" }, "testnet");
+    const start = Date.now();
+    policy.record({ tool: "transfer_stx", amount: "6" }, start);
+    assert.equal(policy.getDailySpent(start), "6.000000");
+    assert.equal(policy.evaluate({ tool: "transfer_stx", amount: "4" }, start), undefined);
+
+    const violation = policy.evaluate({ tool: "transfer_stx", amount: "4.5" }, start + HOUR_MS);
+    assert.equal(violation?.code, "DAILY_LIMIT_EXCEEDED");
+    assert.equal(violation?.limit, "10");
+    assert.equal(violation?.attempted, "4.5");
+
+    assert.equal(policy.evaluate({ tool: "transfer_stx", amount: "4.5" }, start + 24 * HOUR_MS), undefined);
+    assert.equal(policy.getDailySpent(start + 24 * HOUR_MS), "0.000000");
+  });
+
+  await check("actions without an amount do not count toward the limits", () => {
+    const policy = new SpendingPolicy({ dailyLimit: "1" }, "testnet");
+    policy.record({ tool: "call_contract", contract: `${CONTRACT}::buy` });
+    assert.equal(policy.getDailySpent(), "0.000000");
+  });
+
+  await check("fee limit, and unknown fees when there is one", () => {
+    const policy = new SpendingPolicy({ maxFee: "0.01" }, "testnet");
+    assert.equal(policy.limitsFees, true);
+    assert.equal(policy.evaluate({ tool: "transfer_stx", fee: "0.01" }), undefined);
+    assert.equal(policy.evaluate({ tool: "transfer_stx", fee: "0.010001" })?.code, "FEE_LIMIT_EXCEEDED");
+    assert.equal(policy.evaluate({ tool: "transfer_stx" })?.code, "FEE_UNKNOWN");
+    assert.equal(new SpendingPolicy({}, "testnet").limitsFees, false);
+  });
+
+  await check("recipient allow and deny lists", () => {
+    const denied = new SpendingPolicy({ deniedRecipients: [OTHER_ADDRESS] }, "testnet");
+    assert.equal(denied.evaluate({ tool: "transfer_stx", recipient: OTHER_ADDRESS })?.code, "RECIPIENT_DENIED");
+    assert.equal(denied.evaluate({ tool: "transfer_stx", recipient: TEST_ADDRESS }), undefined);
+
+    const allowed = new SpendingPolicy({ allowedRecipients: [TEST_ADDRESS] }, "testnet");
+    assert.equal(allowed.evaluate({ tool: "transfer_stx", recipient: OTHER_ADDRESS })?.code, "RECIPIENT_NOT_ALLOWED");
+    assert.equal(allowed.evaluate({ tool: "transfer_stx", recipient: TEST_ADDRESS }), undefined);
+  });
+
+  await check("contract call allow list, with ::* wildcards", () => {
+    const policy = new SpendingPolicy({ allowedContractCalls: [`${CONTRACT}::buy`, `${TEST_ADDRESS}.pool::*`] }, "testnet");
+    assert.equal(policy.evaluate({ tool: "call_contract", contract: `${CONTRACT}::buy` }), undefined);
+    assert.equal(policy.evaluate({ tool: "call_contract", contract: `${TEST_ADDRESS}.pool::deposit` }), undefined);
+    assert.equal(policy.evaluate({ tool: "call_contract", contract: `${CONTRACT}::sell` })?.code, "CONTRACT_NOT_ALLOWED");
+  });
+
+  await check("mainnet kill switch", () => {
+    const policy = new SpendingPolicy({ mainnetKillSwitch: true }, "mainnet");
+    assert.equal(policy.evaluate({ tool: "transfer_stx" })?.code, "MAINNET_DISABLED");
+    assert.equal(new SpendingPolicy({ mainnetKillSwitch: true }, "testnet").evaluate({ tool: "transfer_stx" }), undefined);
+    policy.setMainnetKillSwitch(false);
+    assert.equal(policy.evaluate({ tool: "transfer_stx" }), undefined);
+  });
+
+  await check("a bare \"5\" is 5 STX to both the policy and the signed transfer", async () => {
+    const broadcasts = mockNode();
+    const agent = await createStacksWalletAgent({
+      network: "testnet",
+      privateKey: TEST_PRIVATE_KEY,
+      spendingPolicy: { maxPerTransaction: "5" },
+    });
+
+    const sent = await agent.transferSTX({ toAddress: OTHER_ADDRESS, amount: "5" });
+    assert.equal(sent.success, true, sent.error);
+    const { tx } = JSON.parse(broadcasts[0]);
+    const payload = deserializeTransaction(tx).payload as TokenTransferPayloadWire;
+    assert.equal(BigInt(payload.amount), BigInt(5_000_000));
+
+    const blocked = await agent.transferSTX({ toAddress: OTHER_ADDRESS, amount: "6" });
+    assert.equal(blocked.policyViolation?.code, "TRANSACTION_LIMIT_EXCEEDED");
+    assert.equal(broadcasts.length, 1);
+  });
+
+  await check("sent transfers add up toward the daily limit", async () => {
+    mockNode();
+    const agent = await createStacksWalletAgent({
+      network: "testnet",
+      privateKey: TEST_PRIVATE_KEY,
+      spendingPolicy: { dailyLimit: "2" },
+    });
+
+    const sent = await agent.transferSTX({ toAddress: OTHER_ADDRESS, amount: "1.5" });
+    assert.equal(sent.success, true, sent.error);
+    assert.equal(agent.getSpendingPolicy()?.getDailySpent(), "1.500000");
+    const blocked = await agent.transferSTX({ toAddress: OTHER_ADDRESS, amount: "0.6" });
+    assert.equal(blocked.policyViolation?.code, "DAILY_LIMIT_EXCEEDED");
+  });
+
+  await check("contract calls count the STX their post-conditions let the sender send", async () => {
+    const broadcasts = mockNode();
+    const agent = await createStacksWalletAgent({
+      network: "testnet",
+      privateKey: TEST_PRIVATE_KEY,
+      spendingPolicy: { maxPerTransaction: "5", dailyLimit: "8" },
+    });
+    const call = (postConditions: object[], postConditionMode?: string) =>
+      agent.getToolRegistry().execute("call_contract", {
+        contractAddress: TEST_ADDRESS,
+        contractName: "market",
+        functionName: "buy",
+        functionArgs: [Cl.uint(1)],
+        validateWithAbi: false,
+        postConditions,
+        postConditionMode,
+      });
+    const sends = (condition: string, amount: string) => ({ type: "stx-postcondition", address: TEST_ADDRESS, condition, amount });
+
+    assert.equal((await call([sends("eq", "6")])).policyViolation?.code, "TRANSACTION_LIMIT_EXCEEDED");
+    assert.equal((await call([sends("gte", "1")])).policyViolation?.code, "AMOUNT_UNBOUNDED");
+    assert.equal((await call([])).policyViolation?.code, "AMOUNT_UNBOUNDED");
+    assert.equal(broadcasts.length, 0);
+
+    const capped = await call([sends("lte", "3"), sends("lt", "2")], "allow");
+    assert.equal(capped.success, true, capped.error);
+    assert.equal(agent.getSpendingPolicy()?.getDailySpent(), "5.000000");
+    const denied = await call([], "deny");
+    assert.equal(denied.success, true, denied.error);
+    assert.equal(agent.getSpendingPolicy()?.getDailySpent(), "5.000000");
+    assert.equal((await call([sends("eq", "3.1")])).policyViolation?.code, "DAILY_LIMIT_EXCEEDED");
+  });
+
+  await check("deploys are refused while STX limits are set", async () => {
+    mockNode();
+    const limited = await createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY, spendingPolicy: { dailyLimit: "8" } });
+    const deploy = { contractName: "hello", codeBody: "(define-read-only (hello) u1)" };
+    const refused = await limited.getToolRegistry().execute("deploy_contract", deploy);
+    assert.equal(refused.policyViolation?.code, "AMOUNT_UNBOUNDED");
+
+    const unlimited = await createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY, spendingPolicy: { maxFee: "1" } });
+    const deployed = await unlimited.getToolRegistry().execute("deploy_contract", deploy);
+    assert.equal(deployed.success, true, deployed.error);
+  });
+
+  await check("a reserved amount counts until it is released", () => {
+    const policy = new SpendingPolicy({ dailyLimit: "2" }, "testnet");
+    const first = policy.reserve({ tool: "transfer_stx", amount: "1.5" });
+    assert.equal(first.violation, undefined);
+    assert.equal(policy.reserve({ tool: "transfer_stx", amount: "1" }).violation?.code, "DAILY_LIMIT_EXCEEDED");
+    first.release();
+    assert.equal(policy.getDailySpent(), "0.000000");
+    assert.equal(policy.reserve({ tool: "transfer_stx", amount: "1" }).violation, undefined);
+  });
+
+  await check("concurrent transfers cannot both pass the daily limit", async () => {
+    const broadcasts = mockNode();
+    const agent = await createStacksWalletAgent({
+      network: "testnet",
+      privateKey: TEST_PRIVATE_KEY,
+      spendingPolicy: { dailyLimit: "2" },
+    });
+
+    const results = await Promise.all([1, 2].map(() => agent.transferSTX({ toAddress: OTHER_ADDRESS, amount: "1.5" })));
+    assert.deepEqual(results.map((result) => result.policyViolation?.code).sort(), ["DAILY_LIMIT_EXCEEDED", undefined]);
+    assert.equal(broadcasts.length, 1);
+    assert.equal(agent.getSpendingPolicy()?.getDailySpent(), "1.500000");
+  });
+
+  await check("co-signing a multi-sig transaction is checked like sending it", async () => {
+    mockNode();
+    const agent = await createStacksWalletAgent({
+      network: "testnet",
+      privateKey: TEST_PRIVATE_KEY,
+      spendingPolicy: { maxPerTransaction: "5", deniedRecipients: [TEST_ADDRESS] },
+    });
+    const multisig = (amount: number, recipient = OTHER_ADDRESS) =>
+      makeUnsignedSTXTokenTransfer({
+        recipient,
+        amount,
+        fee: 1000,
+        nonce: 0,
+        numSignatures: 2,
+        publicKeys: [privateKeyToPublic(TEST_PRIVATE_KEY) as string, privateKeyToPublic(makeRandomPrivKey()) as string],
+        network: "testnet",
+      });
+    const sign = async (amount: number, recipient?: string) =>
+      agent.getToolRegistry().execute("sign_multisig_transaction", {
+        transactionHex: (await multisig(amount, recipient)).serialize(),
+      });
+
+    assert.equal((await sign(6_000_000)).policyViolation?.code, "TRANSACTION_LIMIT_EXCEEDED");
+    assert.equal((await sign(1_000_000, TEST_ADDRESS)).policyViolation?.code, "RECIPIENT_DENIED");
+    const signed = await sign(1_000_000);
+    assert.equal(signed.success, true, signed.error);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  policyTest().catch(console.error);
+}
+
+export { policyTest };
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { Cl, Pc, PostCondition, cvToHex, postConditionToHex } from "@stacks/transactions";
+import {
+  CallSimulator,
+  PostConditionSpec,
+  buildPostCondition,
+  buildPostConditions,
+  createStacksWalletAgent,
+  describePostCondition,
+  maxStxSent,
+  toJsonPostCondition,
+} from "../index";
+import { TEST_ADDRESS, check, summarize } from "./harness";
+
+const TOKEN = `${TEST_ADDRESS}.token`;
+const NFT = `${TEST_ADDRESS}.collection`;
+
+// Compared serialized: Pc keeps amounts as strings, the builder as bigints
+function assertSame(actual: PostCondition, expected: PostCondition, message?: string) {
+  assert.equal(postConditionToHex(actual), postConditionToHex(expected), message);
+}
+
+// The post-condition builder, checked against what @stacks/transactions' own
+// Pc builder produces for the same condition
+async function postConditionsTest() {
+  console.log("🧪 Post-condition builder\n");
+
+  await check("STX amounts are in STX, or microSTX as a bigint", () => {
+    const expected = Pc.principal(TEST_ADDRESS).willSendEq(1_500_000).ustx();
+    for (const amount of ["1.5", 1.5, BigInt(1_500_000)]) {
+      const built = buildPostCondition({ type: "stx-postcondition", address: TEST_ADDRESS, condition: "eq", amount });
+      assertSame(built, expected);
+    }
+  });
+
+  await check("FT amounts are base units of the asset", () => {
+    const built = buildPostCondition({
+      type: "ft-postcondition",
+      address: TEST_ADDRESS,
+      condition: "gte",
+      amount: "100",
+      asset: `${TOKEN}::token`,
+    });
+    assertSame(built, Pc.principal(TEST_ADDRESS).willSendGte(100).ft(TOKEN, "token"));
+  });
+
+  await check("NFT ids as a uint, \"u5\", a bigint, hex or a ClarityValue", () => {
+    const expected = Pc.principal(TEST_ADDRESS).willSendAsset().nft(`${NFT}::item`, Cl.uint(5));
+    const ids = ["5", "u5", 5, BigInt(5), cvToHex(Cl.uint(5)), Cl.uint(5)];
+    for (const assetId of ids) {
+      const built = buildPostCondition({
+        type: "nft-postcondition",
+        address: TEST_ADDRESS,
+        condition: "sent",
+        asset: `${NFT}::item`,
+        assetId,
+      });
+      assertSame(built, expected, String(assetId));
+    }
+  });
+
+  await check("contract principals are covered too", () => {
+    const built = buildPostCondition({ type: "stx-postcondition", address: TOKEN, condition: "lte", amount: "2" });
+    assertSame(built, Pc.principal(TOKEN).willSendLte(2_000_000).ustx());
+  });
+
+  await check("invalid specs say what is wrong, and which entry", () => {
+    const stx = { type: "stx-postcondition", address: TEST_ADDRESS, condition: "eq", amount: "1" } as PostConditionSpec;
+    const cases: [Partial<PostConditionSpec>, RegExp][] = [
+      [{ address: "not-an-address" }, /Invalid principal/],
+      [{ amount: "1.1234567" }, /Invalid STX amount/],
+      [{ amount: undefined }, /need an amount/],
+      [{ condition: "sent" }, /takes eq, gt, gte, lt or lte/],
+      [{ type: "ft-postcondition", amount: "1.5", asset: `${TOKEN}::token` }, /whole number of base units/],
+      [{ type: "ft-postcondition", asset: "token" }, /Invalid asset 'token'/],
+      [{ type: "nft-postcondition", condition: "eq", asset: `${NFT}::item`, assetId: "1" }, /'sent' or 'not-sent'/],
+      [{ type: "nft-postcondition", condition: "sent", asset: `${NFT}::item`, assetId: "one" }, /Invalid NFT id/],
+    ];
+    for (const [change, error] of cases) {
+      assert.throws(() => buildPostConditions([stx, { ...stx, ...change }]), (thrown: Error) => {
+        assert.match(thrown.message, /^Invalid post-condition #2: /);
+        assert.match(thrown.message, error);
+        return true;
+      });
+    }
+  });
+
+  await check("JSON form survives serialization and builds the same", () => {
+    const specs: PostConditionSpec[] = [
+      { type: "stx-postcondition", address: TEST_ADDRESS, condition: "eq", amount: BigInt(1_500_001) },
+      { type: "ft-postcondition", address: TEST_ADDRESS, condition: "lt", amount: BigInt(7), asset: `${TOKEN}::token` },
+      { type: "nft-postcondition", address: TEST_ADDRESS, condition: "not-sent", asset: `${NFT}::item`, assetId: Cl.stringAscii("a") },
+    ];
+    const restored = JSON.parse(JSON.stringify(specs.map(toJsonPostCondition)));
+    assert.equal(restored[0].amount, "1.500001");
+    assert.deepEqual(buildPostConditions(restored), buildPostConditions(specs));
+  });
+
+  await check("the most STX a sender can send under its post-conditions", () => {
+    const sends = (condition: PostConditionSpec["condition"], amount: string, address = TEST_ADDRESS): PostConditionSpec =>
+      ({ type: "stx-postcondition", address, condition, amount });
+    assert.equal(maxStxSent([sends("eq", "1"), sends("lte", "0.5")], TEST_ADDRESS, "deny"), BigInt(1_500_000));
+    assert.equal(maxStxSent([sends("eq", "1", TOKEN)], TEST_ADDRESS, "deny"), BigInt(0));
+    assert.equal(maxStxSent([], TEST_ADDRESS, "deny"), BigInt(0));
+    assert.equal(maxStxSent([sends("gte", "1")], TEST_ADDRESS, "deny"), undefined);
+    assert.equal(maxStxSent([], TEST_ADDRESS, "allow"), undefined);
+    assert.equal(maxStxSent([sends("lt", "2")], TEST_ADDRESS, "allow"), BigInt(2_000_000));
+  });
+
+  await check("one-line descriptions", () => {
+    assert.equal(
+      describePostCondition({ type: "stx-postcondition", address: TEST_ADDRESS, condition: "gte", amount: BigInt(1_500_000) }),
+      `${TEST_ADDRESS} sends at least 1.500000 STX`
+    );
+    assert.equal(
+      describePostCondition({ type: "ft-postcondition", address: TEST_ADDRESS, condition: "eq", amount: "10", asset: `${TOKEN}::token` }),
+      `${TEST_ADDRESS} sends exactly 10 (base units) of ${TOKEN}::token`
+    );
+    assert.equal(
+      describePostCondition({ type: "nft-postcondition", address: TEST_ADDRESS, condition: "sent", asset: `${NFT}::item`, assetId: "u5" }),
+      `${TEST_ADDRESS} sends ${NFT}::item #5`
+    );
+  });
+
+  await check("call_contract offers inference only with a call simulator", async () => {
+    const offered = async (callSimulator?: CallSimulator) => {
+      const agent = await createStacksWalletAgent({ network: "testnet", callSimulator });
+      const tool = agent.getTools().find((candidate) => candidate.name === "call_contract")!;
+      return "inferPostConditions" in tool.parameters.properties;
+    };
+    const simulator: CallSimulator = { simulate: async () => ({ success: true, result: "(ok true)", transfers: [] }) };
+    assert.equal(await offered(), false);
+    assert.equal(await offered(simulator), true);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  postConditionsTest().catch(console.error);
+}
+
+export { postConditionsTest };
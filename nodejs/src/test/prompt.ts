@@ -35,7 +35,8 @@ async function promptExample() {
     console.log('Balance result:', balanceResult);
     console.log();
 
-    // Example 2: Transfer with memo (AI extracts amount, address, and memo automatically)
+    // Example 2: Transfer with memo (AI extracts amount, address, and memo automatically).
+    // Returns a summary instead of sending, since executePrompt does not confirm.
     console.log('2️⃣ Transfer with memo...');
     const transferResult = await agent.executePrompt(
       `Send 0.25 STX to ${testAddress} with memo "Coffee payment"`
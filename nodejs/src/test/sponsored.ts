@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { STACKS_TESTNET } from "@stacks/network";
+import {
+  AuthType,
+  MultiSigSpendingCondition,
+  TokenTransferPayloadWire,
+  deserializeTransaction,
+  makeRandomPrivKey,
+  privateKeyToPublic,
+} from "@stacks/transactions";
+import { createStacksWalletAgent } from "../index";
+import { StacksSponsoredTransactionTool } from "../tools/index";
+import { OTHER_ADDRESS, TEST_PRIVATE_KEY, check, mockNode, summarize } from "./harness";
+
+// Transactions the sponsored and multi-sig tools hand back are plain
+// serialized hex that deserializes, signs and broadcasts
+async function sponsoredTest() {
+  console.log("🧪 Sponsored and multi-sig transactions\n");
+
+  await check("a sponsored transfer round-trips through sponsoring and broadcast", async () => {
+    const broadcasts = mockNode();
+    const agent = await createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY });
+    const registry = agent.getToolRegistry();
+
+    const created = await registry.execute("create_sponsored_stx_transfer", { recipient: OTHER_ADDRESS, amount: "1.5" });
+    assert.equal(created.success, true, created.error);
+    const origin = deserializeTransaction(created.data.transactionHex);
+    assert.equal(origin.auth.authType, AuthType.Sponsored);
+    assert.equal(origin.serialize(), created.data.transactionHex);
+    const payload = origin.payload as TokenTransferPayloadWire;
+    assert.equal(payload.recipient.value, OTHER_ADDRESS);
+    assert.equal(BigInt(payload.amount), BigInt(1_500_000));
+
+    const sponsored = await registry.execute("sponsor_transaction", {
+      transactionHex: created.data.transactionHex,
+      fee: "0.01",
+    });
+    assert.equal(sponsored.success, true, sponsored.error);
+    const transaction = deserializeTransaction(sponsored.data.transactionHex);
+    assert.equal(transaction.auth.authType, AuthType.Sponsored);
+    assert.equal(BigInt(transaction.auth.sponsorSpendingCondition.fee), BigInt(10_000));
+
+    const broadcast = await new StacksSponsoredTransactionTool(STACKS_TESTNET).broadcastSponsoredTransaction(
+      sponsored.data.transactionHex
+    );
+    assert.equal(broadcast.success, true, broadcast.error);
+    assert.equal(JSON.parse(broadcasts[0]).tx, sponsored.data.transactionHex);
+  });
+
+  await check("a multi-sig transfer round-trips through signing", async () => {
+    mockNode();
+    const agent = await createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY });
+    const registry = agent.getToolRegistry();
+
+    const created = await registry.execute("create_multisig_stx_transfer", {
+      recipients: OTHER_ADDRESS,
+      amount: "1",
+      numSignatures: 2,
+      publicKeys: [privateKeyToPublic(TEST_PRIVATE_KEY), privateKeyToPublic(makeRandomPrivKey())],
+    });
+    assert.equal(created.success, true, created.error);
+    assert.equal(deserializeTransaction(created.data.transactionHex).serialize(), created.data.transactionHex);
+
+    const signed = await registry.execute("sign_multisig_transaction", { transactionHex: created.data.transactionHex });
+    assert.equal(signed.success, true, signed.error);
+    const condition = deserializeTransaction(signed.data.transactionHex).auth.spendingCondition as MultiSigSpendingCondition;
+    assert.equal(condition.fields.length, 1);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  sponsoredTest().catch(console.error);
+}
+
+export { sponsoredTest };
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { Cl, ContractCallPayload, deserializeTransaction } from "@stacks/transactions";
+import { createStacksWalletAgent, applySlippage, ScriptedLLMProvider } from "../index";
+import type { DexAdapter, DexQuote, SwapAsset } from "../index";
+import { OTHER_ADDRESS, TEST_PRIVATE_KEY, check, json, mockNode, summarize } from "./harness";
+
+const TOKEN = `${OTHER_ADDRESS}.token-abc`;
+const DEX_CONTRACT = `${OTHER_ADDRESS}.dex`;
+
+// A DEX that pays out amountOut for any input and counts its quotes
+function fakeDex(amountOut: bigint): DexAdapter & { quotes: number; amountOut: bigint } {
+  const dex = {
+    name: "velar",
+    available: true,
+    quotes: 0,
+    amountOut,
+    async quote(_tokenIn: SwapAsset, _tokenOut: SwapAsset, amountIn: bigint): Promise<DexQuote> {
+      dex.quotes++;
+      return {
+        dex: "velar",
+        amountIn,
+        amountOut: dex.amountOut,
+        buildCall: (minimumOut) => ({
+          contractId: DEX_CONTRACT,
+          functionName: "swap",
+          functionArgs: [Cl.uint(amountIn), Cl.uint(minimumOut)],
+          outputSender: DEX_CONTRACT,
+        }),
+      };
+    },
+  };
+  return dex;
+}
+
+// A testnet node that also serves the SIP-010 token's metadata
+function mockTokenNode(): string[] {
+  const readOnly: Record<string, string> = {
+    "get-name": Cl.serialize(Cl.ok(Cl.stringAscii("Token ABC"))),
+    "get-symbol": Cl.serialize(Cl.ok(Cl.stringAscii("ABC"))),
+    "get-decimals": Cl.serialize(Cl.ok(Cl.uint(6))),
+  };
+  return mockNode((url) => {
+    if (url.includes("/v2/contracts/interface/")) {
+      return json({ fungible_tokens: [{ name: "abc" }] });
+    }
+    const functionName = url.split("/").pop()!.split("?")[0];
+    if (url.includes("/v2/contracts/call-read/") && readOnly[functionName]) {
+      return json({ okay: true, result: `0x${readOnly[functionName]}` });
+    }
+    return undefined;
+  });
+}
+
+// The minimum output the broadcast swap call accepts
+function signedMinimumOut(broadcast: string): bigint {
+  const payload = deserializeTransaction(JSON.parse(broadcast).tx).payload as ContractCallPayload;
+  const [, minimumOut] = payload.functionArgs;
+  assert.equal(minimumOut.type, "uint");
+  return BigInt(minimumOut.value);
+}
+
+// Swaps are built from the quote that picked the DEX and minimum output
+async function swapPlanTest() {
+  console.log("🧪 Swap plans\n");
+
+  await check("a swap is quoted once and signed with that quote's minimum output", async () => {
+    const broadcasts = mockTokenNode();
+    const dex = fakeDex(BigInt(2_000_000));
+    const agent = await createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY, dexAdapters: [dex] });
+
+    const result = await agent.swapTokens({ tokenOut: TOKEN, amount: "1" });
+    assert.equal(result.success, true, result.error);
+    assert.equal(dex.quotes, 1);
+    assert.equal(broadcasts.length, 1);
+    assert.equal(signedMinimumOut(broadcasts[0]), applySlippage(BigInt(2_000_000), 0.5));
+  });
+
+  await check("an approved swap is signed with the reviewed minimum output", async () => {
+    const broadcasts = mockTokenNode();
+    const dex = fakeDex(BigInt(2_000_000));
+    const swap = ScriptedLLMProvider.toolCall("swap_tokens", { tokenOut: TOKEN, amount: "1" });
+    const agent = await createStacksWalletAgent({
+      network: "testnet",
+      privateKey: TEST_PRIVATE_KEY,
+      dexAdapters: [dex],
+      llm: new ScriptedLLMProvider([swap, "Swapped."]),
+    });
+
+    const turn = await agent.chat("Swap 1 STX for ABC");
+    const [action] = turn.pendingAction!.actions;
+    assert.equal(action.params?.dex, "velar");
+    assert.equal(action.params?.minimumOutput, "1.99");
+
+    // The price moves up after the review; the approved minimum still applies
+    dex.amountOut = BigInt(3_000_000);
+    await agent.continueChat({ approve: true }, turn.state);
+    assert.equal(broadcasts.length, 1);
+    assert.equal(signedMinimumOut(broadcasts[0]), BigInt(1_990_000));
+  });
+
+  await check("an approved swap quoted below its minimum output is not signed", async () => {
+    const broadcasts = mockTokenNode();
+    const dex = fakeDex(BigInt(2_000_000));
+    const agent = await createStacksWalletAgent({ network: "testnet", privateKey: TEST_PRIVATE_KEY, dexAdapters: [dex] });
+
+    const result = await agent.swapTokens({ tokenOut: TOKEN, amount: "1", dex: "velar", minimumOutput: "2.5" });
+    assert.equal(result.success, false);
+    assert.match(result.error ?? "", /velar now quotes 2 ABC, below the minimum output of 2\.5 ABC/);
+    assert.equal(broadcasts.length, 0);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  swapPlanTest().catch(console.error);
+}
+
+export { swapPlanTest };
@@ -1,63 +1,71 @@
 import { config } from "dotenv";
-import { createStacksWalletAgent, StacksUtils } from "../index";
-import { createNetwork } from "@stacks/network";
+import { createStacksWalletAgent } from "../index";
 
 // Load environment variables
 config();
 
-// Example usage of the Stacks Agent Kit
+// Only quotes by default. Set SWAP_TEST_EXECUTE=true to broadcast the swap;
+// on mainnet this also needs SWAP_TEST_ALLOW_MAINNET=true, since it spends
+// real funds.
 async function swapExample() {
-    console.log("💱 Getting swap quote for STX to xBTC...");
+    const network = (process.env.STACKS_NETWORK || "testnet") as "testnet" | "mainnet";
+    const execute = process.env.SWAP_TEST_EXECUTE === "true";
+    const allowMainnet = process.env.SWAP_TEST_ALLOW_MAINNET === "true";
 
-    // Create a custom network
-    const network = createNetwork({
-        network: "testnet",
-        client: {
-            baseUrl: "https://stacks-node-api.testnet.alexlab.co"
-        }
+    const agent = await createStacksWalletAgent({
+        network
     });
 
-    // Override the baseUrl to ensure it's used
-    network.client.baseUrl = "https://stacks-node-api.testnet.alexlab.co";
+    const tokenOut = process.env.SWAP_TEST_TOKEN_OUT || "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+    console.log(`💱 Getting swap quote for 5 STX to ${tokenOut} on ${network}...`);
 
-    const agent = await createStacksWalletAgent({
-        network: "testnet"
+    const quoteResult = await agent.getSwapQuote({
+        tokenIn: "STX",
+        tokenOut,
+        amount: "5.0", // Swap 5 STX
+        slippageTolerance: 0.5, // 0.5% slippage tolerance
     });
 
-    const quoteResult = await agent.getSwapQuote({
+    if (!quoteResult.success || !quoteResult.data) {
+        console.log("❌ Failed to get swap quote:", quoteResult.error);
+        return;
+    }
+
+    console.log(`✅ Best quote on ${quoteResult.data.dex}:`);
+    console.log(
+        `   Expected output: ${quoteResult.data.expectedOutput} ${quoteResult.data.route[1]}`
+    );
+    console.log(
+        `   Minimum output: ${quoteResult.data.minimumOutput} ${quoteResult.data.route[1]}`
+    );
+    for (const alternative of quoteResult.data.alternatives) {
+        console.log(`   ${alternative.dex}: ${alternative.expectedOutput}`);
+    }
+
+    if (!execute) {
+        console.log("\nℹ️  Quote only. Set SWAP_TEST_EXECUTE=true to broadcast the swap.");
+        return;
+    }
+    if (network === "mainnet" && !allowMainnet) {
+        console.log("\n⚠️  Not swapping: this would spend real mainnet funds. Set SWAP_TEST_ALLOW_MAINNET=true to allow it.");
+        return;
+    }
+
+    console.log("\n💱 Executing the swap...");
+    const swapResult = await agent.swapTokens({
         fromPrivateKey: process.env.STACKS_WALLET_A_PRIVATE_KEY || '',
-        amount: "5.0", // Swap 10 STX
-        slippageTolerance: 0.5, // 0.5% slippage tolerance
+        tokenIn: "STX",
+        tokenOut,
+        amount: "5.0",
+        slippageTolerance: 0.5,
     });
 
-    if (quoteResult.success && quoteResult.data) {
-        console.log("✅ Swap Quote:");
-        console.log(
-            `   Expected output: ${quoteResult.data.expectedOutput} xBTC`
-        );
+    if (swapResult.success) {
         console.log(
-            `   Minimum output: ${quoteResult.data.minimumOutput} xBTC`
+            `✅ Swap transaction submitted: ${swapResult.transactionId}`
         );
-        console.log(`   Fee: ${quoteResult.data.fee} STX`);
-        console.log(`   Price impact: ${quoteResult.data.priceImpact}%`);
-
-        // Execute the swap if quote looks good
-        console.log("\n💱 Executing STX to xBTC swap...");
-        const swapResult = await agent.swapSTXForXBTC({
-            fromPrivateKey: process.env.STACKS_WALLET_A_PRIVATE_KEY || '',
-            amount: "10.0",
-            slippageTolerance: 0.5,
-        });
-
-        if (swapResult.success) {
-            console.log(
-                `✅ Swap transaction submitted: ${swapResult.transactionId}`
-            );
-        } else {
-            console.log("❌ Swap failed:", swapResult.error);
-        }
     } else {
-        console.log("❌ Failed to get swap quote:", quoteResult.error);
+        console.log("❌ Swap failed:", swapResult.error);
     }
 
     console.log("\n" + "=".repeat(50) + "\n");
@@ -67,6 +75,5 @@ async function swapExample() {
 if (import.meta.url === `file://${process.argv[1]}`) {
     swapExample().catch(console.error);
   }
-  
+
   export { swapExample };
-  
\ No newline at end of file
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { STACKS_TESTNET } from "@stacks/network";
+import { createStacksWalletAgent, TransactionTracker } from "../index";
+import { TXID, check, json, mockFetch, summarize } from "./harness";
+
+// Runs with a clock that jumps ahead by each timer's delay, so minutes of
+// polling take milliseconds. Returns the simulated ms that passed.
+async function withFakeClock(run: () => Promise<void>): Promise<number> {
+  const realNow = Date.now;
+  const realSetTimeout = globalThis.setTimeout;
+  const start = realNow();
+  let now = start;
+  Date.now = () => now;
+  globalThis.setTimeout = ((callback: (...args: any[]) => void, ms: number = 0, ...args: any[]) => {
+    now += ms;
+    return realSetTimeout(callback, 0, ...args);
+  }) as typeof setTimeout;
+
+  try {
+    await run();
+  } finally {
+    Date.now = realNow;
+    globalThis.setTimeout = realSetTimeout;
+  }
+  return now - start;
+}
+
+// How long the tracker waits on a transaction the API does not know
+async function trackerTest() {
+  console.log("🧪 Transaction tracker\n");
+
+  await check("waiting on an unknown txid with the tool defaults ends as not_found", async () => {
+    mockFetch((url) => (url.includes("/extended/v1/tx/") ? new Response("", { status: 404 }) : undefined));
+    const agent = await createStacksWalletAgent({ network: "testnet" });
+
+    let result: any;
+    const elapsed = await withFakeClock(async () => {
+      result = await agent.getToolRegistry().execute("get_transaction_status", { txId: TXID, waitForConfirmation: true });
+    });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.status, "not_found");
+    assert.ok(elapsed < 120_000, `took ${elapsed}ms`);
+  });
+
+  await check("a transaction the API learns of in time is still followed", async () => {
+    let visibleAt = Infinity;
+    mockFetch((url) => {
+      if (url.includes("/extended/v1/tx/")) {
+        return Date.now() < visibleAt
+          ? new Response("", { status: 404 })
+          : json({ tx_id: `0x${TXID}`, tx_type: "token_transfer", tx_status: "success", block_height: 10, fee_rate: "180" });
+      }
+      if (url.includes("/v2/info")) {
+        return json({ stacks_tip_height: 10 });
+      }
+      return undefined;
+    });
+    const tracker = new TransactionTracker(STACKS_TESTNET, { notFoundAfter: 30_000 });
+
+    let transaction: any;
+    await withFakeClock(async () => {
+      visibleAt = Date.now() + 20_000;
+      transaction = await tracker.waitForConfirmation(TXID);
+    });
+    assert.equal(transaction.status, "confirmed");
+    assert.equal(transaction.confirmations, 1);
+  });
+
+  summarize();
+}
+
+// Run the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  trackerTest().catch(console.error);
+}
+
+export { trackerTest };
@@ -1,106 +1,121 @@
 import { 
-  makeContractCall, 
+  makeUnsignedContractCall, 
   broadcastTransaction, 
   AnchorMode,
   PostConditionMode,
-  getAddressFromPrivateKey,
+  ClarityAbiFunction,
   ClarityValue,
 } from '@stacks/transactions';
-import { PostCondition } from '@stacks/transactions';
 import { StacksNetwork } from '@stacks/network';
-import { ToolResult } from '../types/index';
+import { CallSimulation, ToolResult } from '../types/index';
+import { Signer } from '../signers/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { PostConditionSpec, buildPostConditions } from '../postconditions/index';
+import { CallSimulator, inferPostConditions } from '../simulation/index';
+import { FunctionArgsInput, encodeFunctionArgs, findAbiFunction, needsAbiEncoding } from '../clarity/index';
+import { StacksUtils } from '../utils/index';
 
 export interface ContractCallParams {
-  fromPrivateKey: string;
+  signer: Signer;
   contractAddress: string;
   contractName: string;
   functionName: string;
-  functionArgs: ClarityValue[];
+  functionArgs: FunctionArgsInput; // ClarityValues, or JSON encoded with the function's ABI
   fee?: string;
   nonce?: number;
   postConditions?: PostConditionSpec[];
+  postConditionMode?: 'allow' | 'deny'; // default: deny when post-conditions are given
+  inferPostConditions?: boolean; // without post-conditions: simulate and derive them (again on every call; use simulateCall to pin them)
   validateWithAbi?: boolean;
 }
 
-export interface PostConditionSpec {
-  type: 'stx-postcondition' | 'ft-postcondition' | 'nft-postcondition';
-  address: string;
-  condition: 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'sent' | 'not-sent';
-  amount?: string | bigint | number;
-  asset?: string;
-  assetId?: ClarityValue;
+export interface CallSimulationResult {
+  simulation: CallSimulation;
+  postConditions: PostConditionSpec[]; // inferred from the simulated transfers
 }
 
 export class StacksContractCallTool {
   private network: StacksNetwork;
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+  private simulator?: CallSimulator;
+  private abis = new Map<string, ClarityAbiFunction[]>(); // by contract id; deployed contracts never change
 
-  constructor(network: StacksNetwork) {
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network),
+    simulator?: CallSimulator
+  ) {
     this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
+    this.simulator = simulator;
   }
 
   async callContract(params: ContractCallParams): Promise<ToolResult<string>> {
     try {
       const { 
-        fromPrivateKey, 
+        signer, 
         contractAddress,
         contractName,
         functionName,
-        functionArgs,
         fee,
         nonce,
-        postConditions = [],
         validateWithAbi = true
       } = params;
 
-      // Get current account info for nonce if not provided
-      const senderAddress = getAddressFromPrivateKey(fromPrivateKey, this.getNetworkVersion());
-      let currentNonce = nonce;
-      
-      if (currentNonce === undefined) {
-        const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
-        if (!accountResponse.ok) {
-          throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-        }
-        const accountInfo = await accountResponse.json();
-        currentNonce = parseInt(accountInfo.nonce || '0');
-      }
+      const functionArgs = await this.encodeArgs(params);
 
-      // Convert post condition specifications to actual post conditions
-      const stacksPostConditions = postConditions as PostCondition[];
+      // Simulate before reserving a nonce, so inference cannot hold one up
+      const senderAddress = await signer.getAddress();
+      const { postConditions, postConditionMode } = await this.resolvePostConditions(params, senderAddress);
 
-      // Create the contract call transaction
-      const txOptions = {
-        contractAddress,
-        contractName,
-        functionName,
-        functionArgs,
-        senderKey: fromPrivateKey,
-        validateWithAbi,
-        network: this.network,
-        postConditions: stacksPostConditions,
-        postConditionMode: stacksPostConditions.length > 0 ? PostConditionMode.Deny : PostConditionMode.Allow,
-        anchorMode: AnchorMode.Any,
-        nonce: BigInt(currentNonce),
-        fee: fee ? BigInt(this.parseSTX(fee)) : undefined,
-      };
+      // Reserve the nonce through the shared manager; an explicit nonce is
+      // used as given but still tracked
+      return await this.nonceManager.withNonce(senderAddress, async (reservedNonce) => {
+        // Convert post condition specifications to actual post conditions
+        const stacksPostConditions = buildPostConditions(postConditions);
 
-      const transaction = await makeContractCall(txOptions);
+        // Create the contract call transaction
+        const txOptions = {
+          contractAddress,
+          contractName,
+          functionName,
+          functionArgs,
+          publicKey: await signer.getPublicKey(),
+          validateWithAbi,
+          network: this.network,
+          postConditions: stacksPostConditions,
+          postConditionMode: this.postConditionMode(postConditionMode, stacksPostConditions.length),
+          anchorMode: AnchorMode.Any,
+          nonce: BigInt(reservedNonce),
+          fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+        };
 
-      // Broadcast the transaction
-      const broadcastResponse = await broadcastTransaction({
-        transaction,
-        network: this.network,
-      });
+        const unsignedTransaction = await makeUnsignedContractCall(txOptions);
+        if (!fee) {
+          unsignedTransaction.setFee(await this.feeEstimator.estimateFee(unsignedTransaction));
+        }
+        const transaction = await signer.signTransaction(unsignedTransaction);
+
+        // Broadcast the transaction
+        const broadcastResponse = await broadcastTransaction({
+          transaction,
+          network: this.network,
+        });
       
-      if ('error' in broadcastResponse) {
-        throw new Error(`Transaction failed: ${broadcastResponse.error}`);
-      }
+        if ('error' in broadcastResponse) {
+          throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+        }
 
-      return {
-        success: true,
-        data: `Contract function '${functionName}' called successfully`,
-        transactionId: broadcastResponse.txid,
-      };
+        return {
+          success: true,
+          data: `Contract function '${functionName}' called successfully`,
+          transactionId: broadcastResponse.txid,
+        };
+      }, nonce);
     } catch (error) {
       return {
         success: false,
@@ -112,44 +127,39 @@ export class StacksContractCallTool {
   async estimateCallFee(params: Omit<ContractCallParams, 'fee'>): Promise<ToolResult<string>> {
     try {
       const { 
-        fromPrivateKey, 
+        signer, 
         contractAddress,
         contractName,
         functionName,
-        functionArgs,
-        postConditions = [],
         validateWithAbi = true
       } = params;
       
-      // Get current account info for nonce
-      const senderAddress = getAddressFromPrivateKey(fromPrivateKey, this.getNetworkVersion());
-      const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
-      if (!accountResponse.ok) {
-        throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-      }
-      const accountInfo = await accountResponse.json();
-      const nonce = parseInt(accountInfo.nonce || '0');
+      const functionArgs = await this.encodeArgs(params);
+      const senderAddress = await signer.getAddress();
+      const { postConditions, postConditionMode } = await this.resolvePostConditions(params, senderAddress);
+      const nonce = await this.nonceManager.peek(senderAddress);
 
       // Convert post condition specifications to actual post conditions
-      const stacksPostConditions = postConditions as PostCondition[];
+      const stacksPostConditions = buildPostConditions(postConditions);
 
-      // Create a test transaction to estimate fee
+      // Build an unsigned transaction to estimate the fee
       const txOptions = {
         contractAddress,
         contractName,
         functionName,
         functionArgs,
-        senderKey: fromPrivateKey,
+        publicKey: await signer.getPublicKey(),
         validateWithAbi,
         network: this.network,
         postConditions: stacksPostConditions,
-        postConditionMode: stacksPostConditions.length > 0 ? PostConditionMode.Deny : PostConditionMode.Allow,
+        postConditionMode: this.postConditionMode(postConditionMode, stacksPostConditions.length),
         anchorMode: AnchorMode.Any,
         nonce: BigInt(nonce),
+        fee: BigInt(0),
       };
 
-      const transaction = await makeContractCall(txOptions);
-      const fee = transaction.auth.spendingCondition?.fee?.toString() || '0';
+      const transaction = await makeUnsignedContractCall(txOptions);
+      const fee = (await this.feeEstimator.estimateFee(transaction)).toString();
 
       return {
         success: true,
@@ -163,6 +173,25 @@ export class StacksContractCallTool {
     }
   }
 
+  // Run the call on the simulator and derive the post-conditions that allow
+  // exactly what it did
+  async simulateCall(
+    params: Omit<ContractCallParams, 'fee' | 'nonce' | 'postConditions'>
+  ): Promise<ToolResult<CallSimulationResult>> {
+    try {
+      const senderAddress = await params.signer.getAddress();
+      return {
+        success: true,
+        data: await this.simulate(params, senderAddress),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to simulate contract call',
+      };
+    }
+  }
+
   async getContractAbi(contractAddress: string, contractName: string): Promise<ToolResult<any>> {
     try {
       const abiResponse = await fetch(
@@ -211,22 +240,85 @@ export class StacksContractCallTool {
     }
   }
 
-  // Note: Post conditions are now passed directly as PostCondition objects
-  // The new API expects post conditions to be properly constructed before passing to this tool
+  private async simulate(
+    params: Omit<ContractCallParams, 'fee' | 'nonce' | 'postConditions'>,
+    senderAddress: string
+  ): Promise<CallSimulationResult> {
+    if (!this.simulator) {
+      throw new Error('Post-condition inference needs a call simulator (e.g. a SimnetSimulator)');
+    }
+    const { contractAddress, contractName, functionName } = params;
+    const simulation = await this.simulator.simulate({
+      contractAddress,
+      contractName,
+      functionName,
+      functionArgs: await this.encodeArgs(params),
+      sender: senderAddress,
+    });
+
+    return {
+      simulation,
+      postConditions: inferPostConditions(simulation.transfers, senderAddress),
+    };
+  }
+
+  // JSON arguments are encoded with the function's ABI; ClarityValues are
+  // used as given
+  private async encodeArgs(
+    params: Pick<ContractCallParams, 'contractAddress' | 'contractName' | 'functionName' | 'functionArgs'>
+  ): Promise<ClarityValue[]> {
+    const { contractAddress, contractName, functionName, functionArgs } = params;
+    if (!needsAbiEncoding(functionArgs)) {
+      return functionArgs as ClarityValue[];
+    }
 
-  private parseSTX(stx: string | bigint | number): bigint {
-    if (typeof stx === 'bigint') {
-      return stx;
+    const contractId = `${contractAddress}.${contractName}`;
+    let functions = this.abis.get(contractId);
+    if (!functions) {
+      const abi = await this.getContractAbi(contractAddress, contractName);
+      if (!abi.success || !abi.data) {
+        throw new Error(abi.error ?? `Failed to get the ABI of ${contractId}`);
+      }
+      functions = abi.data.functions as ClarityAbiFunction[];
+      this.abis.set(contractId, functions);
     }
-    if (typeof stx === 'number') {
-      return BigInt(Math.floor(stx * 1_000_000));
+
+    const fn = findAbiFunction(functions, functionName, contractId);
+    if (fn.access !== 'public') {
+      throw new Error(
+        fn.access === 'read_only'
+          ? `'${functionName}' is read-only; call it with call_readonly_function instead`
+          : `'${functionName}' is private and cannot be called from outside the contract`
+      );
     }
-    if (!stx.includes('.')) {
-      return BigInt(stx);
+    return encodeFunctionArgs(fn, functionArgs);
+  }
+
+  // Given post-conditions win over inference. A call whose simulation fails
+  // is not sent, since its inferred post-conditions would mean nothing.
+  private async resolvePostConditions(
+    params: Omit<ContractCallParams, 'fee' | 'nonce'>,
+    senderAddress: string
+  ): Promise<{ postConditions: PostConditionSpec[]; postConditionMode: ContractCallParams['postConditionMode'] }> {
+    const { postConditions = [], postConditionMode, inferPostConditions: infer } = params;
+    if (!infer || postConditions.length > 0) {
+      return { postConditions, postConditionMode };
     }
-    const [whole, decimal = '0'] = stx.split('.');
-    const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
-    return BigInt(`${whole}${paddedDecimal}`);
+
+    const { simulation, postConditions: inferred } = await this.simulate(params, senderAddress);
+    if (!simulation.success) {
+      throw new Error(`Simulated call returned ${simulation.result}`);
+    }
+    return { postConditions: inferred, postConditionMode: 'deny' };
+  }
+
+  // Deny by default once post-conditions are given, so no transfer outside
+  // them can happen; allow mode still enforces the listed ones
+  private postConditionMode(mode: ContractCallParams['postConditionMode'], count: number): PostConditionMode {
+    if (mode) {
+      return mode === 'deny' ? PostConditionMode.Deny : PostConditionMode.Allow;
+    }
+    return count > 0 ? PostConditionMode.Deny : PostConditionMode.Allow;
   }
 
   private formatSTX(microSTX: string): string {
@@ -234,9 +326,4 @@ export class StacksContractCallTool {
     const remainder = BigInt(microSTX) % BigInt(1000000);
     return `${stx}.${remainder.toString().padStart(6, '0')}`;
   }
-
-  private getNetworkVersion(): 'mainnet' | 'testnet' {
-    // Check if it's mainnet based on the network name or chainId
-    return this.network.chainId === 1 ? 'mainnet' : 'testnet';
-  }
 }
@@ -1,15 +1,18 @@
 import { 
-  makeContractDeploy, 
+  makeUnsignedContractDeploy, 
   broadcastTransaction, 
   AnchorMode,
   PostConditionMode,
-  getAddressFromPrivateKey,
 } from '@stacks/transactions';
 import { StacksNetwork } from '@stacks/network';
 import { ToolResult } from '../types/index';
+import { Signer } from '../signers/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
 
 export interface ContractDeployParams {
-  fromPrivateKey: string;
+  signer: Signer;
   contractName: string;
   codeBody: string;
   fee?: string; // optional fee override
@@ -18,63 +21,67 @@ export interface ContractDeployParams {
 
 export class StacksContractDeployTool {
   private network: StacksNetwork;
-
-  constructor(network: StacksNetwork) {
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network)
+  ) {
     this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
   }
 
   async deployContract(params: ContractDeployParams): Promise<ToolResult<string>> {
     try {
       const { 
-        fromPrivateKey, 
+        signer, 
         contractName, 
         codeBody, 
         fee,
         nonce 
       } = params;
 
-      // Get current account info for nonce if not provided
-      const senderAddress = getAddressFromPrivateKey(fromPrivateKey, this.getNetworkVersion());
-      let currentNonce = nonce;
-      
-      if (currentNonce === undefined) {
-        const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
-        if (!accountResponse.ok) {
-          throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-        }
-        const accountInfo = await accountResponse.json();
-        currentNonce = parseInt(accountInfo.nonce || '0');
-      }
-
-      // Create the contract deploy transaction
-      const txOptions = {
-        contractName,
-        codeBody,
-        senderKey: fromPrivateKey,
-        network: this.network,
-        nonce: BigInt(currentNonce),
-        fee: fee ? BigInt(this.parseSTX(fee)) : undefined,
-        anchorMode: AnchorMode.Any,
-        postConditionMode: PostConditionMode.Allow,
-      };
+      // Reserve the nonce through the shared manager; an explicit nonce is
+      // used as given but still tracked
+      const senderAddress = await signer.getAddress();
+      return await this.nonceManager.withNonce(senderAddress, async (reservedNonce) => {
+        // Create the contract deploy transaction
+        const txOptions = {
+          contractName,
+          codeBody,
+          publicKey: await signer.getPublicKey(),
+          network: this.network,
+          nonce: BigInt(reservedNonce),
+          fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+          anchorMode: AnchorMode.Any,
+          postConditionMode: PostConditionMode.Allow,
+        };
 
-      const transaction = await makeContractDeploy(txOptions);
+        const unsignedTransaction = await makeUnsignedContractDeploy(txOptions);
+        if (!fee) {
+          unsignedTransaction.setFee(await this.feeEstimator.estimateFee(unsignedTransaction));
+        }
+        const transaction = await signer.signTransaction(unsignedTransaction);
 
-      // Broadcast the transaction
-      const broadcastResponse = await broadcastTransaction({
-        transaction,
-        network: this.network,
-      });
+        // Broadcast the transaction
+        const broadcastResponse = await broadcastTransaction({
+          transaction,
+          network: this.network,
+        });
       
-      if ('error' in broadcastResponse) {
-        throw new Error(`Transaction failed: ${broadcastResponse.error}`);
-      }
+        if ('error' in broadcastResponse) {
+          throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+        }
 
-      return {
-        success: true,
-        data: `Contract '${contractName}' deployed successfully`,
-        transactionId: broadcastResponse.txid,
-      };
+        return {
+          success: true,
+          data: `Contract '${contractName}' deployed successfully`,
+          transactionId: broadcastResponse.txid,
+        };
+      }, nonce);
     } catch (error) {
       return {
         success: false,
@@ -85,30 +92,24 @@ export class StacksContractDeployTool {
 
   async estimateDeployFee(params: Omit<ContractDeployParams, 'fee'>): Promise<ToolResult<string>> {
     try {
-      const { fromPrivateKey, contractName, codeBody } = params;
+      const { signer, contractName, codeBody } = params;
       
-      // Get current account info for nonce
-      const senderAddress = getAddressFromPrivateKey(fromPrivateKey, this.getNetworkVersion());
-      const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
-      if (!accountResponse.ok) {
-        throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-      }
-      const accountInfo = await accountResponse.json();
-      const nonce = parseInt(accountInfo.nonce || '0');
+      const nonce = await this.nonceManager.peek(await signer.getAddress());
 
-      // Create a test transaction to estimate fee
+      // Build an unsigned transaction to estimate the fee
       const txOptions = {
         contractName,
         codeBody,
-        senderKey: fromPrivateKey,
+        publicKey: await signer.getPublicKey(),
         network: this.network,
         nonce: BigInt(nonce),
+        fee: BigInt(0),
         anchorMode: AnchorMode.Any,
         postConditionMode: PostConditionMode.Allow,
       };
 
-      const transaction = await makeContractDeploy(txOptions);
-      const fee = transaction.auth.spendingCondition?.fee?.toString() || '0';
+      const transaction = await makeUnsignedContractDeploy(txOptions);
+      const fee = (await this.feeEstimator.estimateFee(transaction)).toString();
 
       return {
         success: true,
@@ -177,29 +178,9 @@ export class StacksContractDeployTool {
     }
   }
 
-  private parseSTX(stx: string | bigint | number): bigint {
-    if (typeof stx === 'bigint') {
-      return stx;
-    }
-    if (typeof stx === 'number') {
-      return BigInt(Math.floor(stx * 1_000_000));
-    }
-    if (!stx.includes('.')) {
-      return BigInt(stx);
-    }
-    const [whole, decimal = '0'] = stx.split('.');
-    const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
-    return BigInt(`${whole}${paddedDecimal}`);
-  }
-
   private formatSTX(microSTX: string): string {
     const stx = BigInt(microSTX) / BigInt(1000000);
     const remainder = BigInt(microSTX) % BigInt(1000000);
     return `${stx}.${remainder.toString().padStart(6, '0')}`;
   }
-
-  private getNetworkVersion(): 'mainnet' | 'testnet' {
-    // Check if it's mainnet based on the network name or chainId
-    return this.network.chainId === 1 ? 'mainnet' : 'testnet';
-  }
 }
@@ -0,0 +1,278 @@
+import {
+  makeUnsignedContractCall,
+  broadcastTransaction,
+  fetchCallReadOnlyFunction,
+  PostConditionMode,
+  ClarityType,
+  ClarityValue,
+  Pc,
+  cvToValue,
+  uintCV,
+  standardPrincipalCV,
+  principalCV,
+  someCV,
+  noneCV,
+  bufferCVFromString,
+  StacksTransactionWire,
+  ContractIdString,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { TokenBalance, TokenMetadata, TokenTransferParams, ToolResult } from '../types/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
+
+const MAX_MEMO_BYTES = 34; // SIP-010 memo is (optional (buff 34))
+
+// Balances, metadata and transfers of any SIP-010 fungible token
+export class StacksFungibleTokenTool {
+  private network: StacksNetwork;
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+  private metadata = new Map<string, TokenMetadata>(); // by contract id; metadata never changes
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network)
+  ) {
+    this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
+  }
+
+  async getTokenBalances(address: string): Promise<ToolResult<TokenBalance[]>> {
+    try {
+      const response = await fetch(`${this.network.client.baseUrl}/extended/v1/address/${address}/balances`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch balances: ${response.statusText}`);
+      }
+
+      const { fungible_tokens = {} } = await response.json();
+      const balances = await Promise.all(
+        Object.entries(fungible_tokens).map(async ([assetId, token]: [string, any]) => {
+          const [contractId, assetName] = assetId.split('::');
+          const balance: TokenBalance = { contractId, assetName, balance: String(token.balance) };
+
+          // A token without readable SIP-010 metadata is still listed, unscaled
+          const metadata = await this.resolveMetadata(contractId, assetName).catch(() => undefined);
+          if (metadata) {
+            balance.name = metadata.name;
+            balance.symbol = metadata.symbol;
+            balance.decimals = metadata.decimals;
+            balance.formattedBalance = formatUnits(BigInt(balance.balance), metadata.decimals);
+          }
+          return balance;
+        })
+      );
+
+      return {
+        success: true,
+        data: balances,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get token balances',
+      };
+    }
+  }
+
+  async getTokenMetadata(contractId: string): Promise<ToolResult<TokenMetadata>> {
+    try {
+      return {
+        success: true,
+        data: await this.resolveMetadata(contractId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get token metadata',
+      };
+    }
+  }
+
+  async transferToken(params: TokenTransferParams): Promise<ToolResult<string>> {
+    try {
+      const { signer, contractId, amount, fee } = params;
+      const metadata = await this.resolveMetadata(contractId);
+
+      // Reserve the nonce through the shared manager
+      const senderAddress = await signer.getAddress();
+      return await this.nonceManager.withNonce(senderAddress, async (nonce) => {
+        const unsignedTransaction = await this.buildTransfer(params, metadata, nonce);
+        if (!fee) {
+          unsignedTransaction.setFee(await this.feeEstimator.estimateFee(unsignedTransaction));
+        }
+        const transaction = await signer.signTransaction(unsignedTransaction);
+
+        // Broadcast the transaction
+        const broadcastResponse = await broadcastTransaction({
+          transaction,
+          network: this.network,
+        });
+
+        if ('error' in broadcastResponse) {
+          throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+        }
+
+        return {
+          success: true,
+          data: `Transferred ${amount} ${metadata.symbol}`,
+          transactionId: broadcastResponse.txid,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token transfer failed',
+      };
+    }
+  }
+
+  async estimateTokenTransferFee(params: Omit<TokenTransferParams, 'fee'>): Promise<ToolResult<string>> {
+    try {
+      const metadata = await this.resolveMetadata(params.contractId);
+      const nonce = await this.nonceManager.peek(await params.signer.getAddress());
+
+      const transaction = await this.buildTransfer(params, metadata, nonce);
+      const fee = (await this.feeEstimator.estimateFee(transaction)).toString();
+
+      return {
+        success: true,
+        data: this.formatSTX(fee),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to estimate token transfer fee',
+      };
+    }
+  }
+
+  // Unsigned SIP-010 transfer. The post-condition pins the exact amount
+  // leaving the sender, so the contract cannot move more of the token.
+  private async buildTransfer(
+    params: Omit<TokenTransferParams, 'fee'> & { fee?: string },
+    metadata: TokenMetadata,
+    nonce: number
+  ): Promise<StacksTransactionWire> {
+    const { signer, contractId, recipient, amount, memo, fee } = params;
+    const [contractAddress, contractName] = StacksUtils.parseContractId(contractId);
+
+    const baseUnits = parseUnits(amount, metadata.decimals);
+    if (baseUnits <= BigInt(0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+    if (memo && Buffer.byteLength(memo) > MAX_MEMO_BYTES) {
+      throw new Error(`Memo must be at most ${MAX_MEMO_BYTES} bytes`);
+    }
+
+    const senderAddress = await signer.getAddress();
+    return await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: 'transfer',
+      functionArgs: [
+        uintCV(baseUnits),
+        standardPrincipalCV(senderAddress),
+        principalCV(recipient),
+        memo ? someCV(bufferCVFromString(memo)) : noneCV(),
+      ],
+      publicKey: await signer.getPublicKey(),
+      network: this.network,
+      postConditions: [Pc.principal(senderAddress).willSendEq(baseUnits).ft(contractId as ContractIdString, metadata.assetName)],
+      postConditionMode: PostConditionMode.Deny,
+      nonce: BigInt(nonce),
+      fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+    });
+  }
+
+  private async resolveMetadata(contractId: string, assetName?: string): Promise<TokenMetadata> {
+    const cached = this.metadata.get(contractId);
+    if (cached) {
+      return cached;
+    }
+
+    const [contractAddress, contractName] = StacksUtils.parseContractId(contractId);
+    const [name, symbol, decimals, resolvedAssetName] = await Promise.all([
+      this.readOnly(contractAddress, contractName, 'get-name'),
+      this.readOnly(contractAddress, contractName, 'get-symbol'),
+      this.readOnly(contractAddress, contractName, 'get-decimals'),
+      assetName ?? this.fetchAssetName(contractAddress, contractName),
+    ]);
+
+    const metadata: TokenMetadata = {
+      contractId,
+      assetName: resolvedAssetName,
+      name: String(name),
+      symbol: String(symbol),
+      decimals: Number(decimals),
+    };
+    this.metadata.set(contractId, metadata);
+    return metadata;
+  }
+
+  // Call a SIP-010 getter and unwrap its (ok ...) response
+  private async readOnly(contractAddress: string, contractName: string, functionName: string): Promise<any> {
+    const result: ClarityValue = await fetchCallReadOnlyFunction({
+      contractAddress,
+      contractName,
+      functionName,
+      functionArgs: [],
+      network: this.network,
+      senderAddress: contractAddress,
+    });
+
+    if (result.type !== ClarityType.ResponseOk) {
+      throw new Error(`${contractAddress}.${contractName}::${functionName} did not return (ok ...)`);
+    }
+    return cvToValue(result.value);
+  }
+
+  // The token's define-fungible-token name, from the contract interface
+  private async fetchAssetName(contractAddress: string, contractName: string): Promise<string> {
+    const response = await fetch(
+      `${this.network.client.baseUrl}/v2/contracts/interface/${contractAddress}/${contractName}`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch contract interface: ${response.statusText}`);
+    }
+
+    const abi = await response.json();
+    const [token] = abi.fungible_tokens || [];
+    if (!token) {
+      throw new Error(`${contractAddress}.${contractName} does not define a fungible token`);
+    }
+    return token.name;
+  }
+
+  private formatSTX(microSTX: string): string {
+    const stx = BigInt(microSTX) / BigInt(1000000);
+    const remainder = BigInt(microSTX) % BigInt(1000000);
+    return `${stx}.${remainder.toString().padStart(6, '0')}`;
+  }
+}
+
+// Base units -> decimal string, e.g. 1234500 with 6 decimals -> "1.2345"
+export function formatUnits(amount: bigint, decimals: number): string {
+  if (decimals === 0) {
+    return amount.toString();
+  }
+  const scale = BigInt(10) ** BigInt(decimals);
+  const fraction = (amount % scale).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${amount / scale}.${fraction}` : (amount / scale).toString();
+}
+
+// Decimal string -> base units. More fractional digits than the token has
+// is an error rather than a silent rounding.
+export function parseUnits(amount: string, decimals: number): bigint {
+  if (!/^\d+(\.\d+)?$/.test(amount.trim())) {
+    throw new Error(`Invalid token amount '${amount}'`);
+  }
+  const [whole, fraction = ''] = amount.trim().split('.');
+  if (fraction.replace(/0+$/, '').length > decimals) {
+    throw new Error(`Amount '${amount}' has more than ${decimals} decimal places`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, '0').slice(0, decimals));
+}
@@ -1,10 +1,17 @@
 // Tool exports
 export { StacksQueryTool } from './query';
 export { StacksTransferTool } from './transfer';
+export { StacksFungibleTokenTool, formatUnits, parseUnits } from './fungible-token';
+export { StacksNFTTool } from './nft';
+export type { ListNFTsParams } from './nft';
 export { StacksSwapTool } from './swap';
+export type { PlannedSwap } from './swap';
 export { StacksContractDeployTool } from './contract-deploy';
 export { StacksContractCallTool } from './contract-call';
+export type { CallSimulationResult } from './contract-call';
 export { StacksReadOnlyTool } from './readonly-call';
-export { StacksKeyManagementTool } from './key-management';
+export { StacksKeyManagementTool, STACKS_DERIVATION_PATH, stacksDerivationPath } from './key-management';
 export { StacksMultiSigTool } from './multisig';
 export { StacksSponsoredTransactionTool } from './sponsored-tx';
+export { StacksReplaceByFeeTool } from './replace-by-fee';
+export { StacksStackingTool } from './stacking';
@@ -2,13 +2,25 @@ import {
   makeRandomPrivKey,
   privateKeyToPublic,
   getAddressFromPrivateKey,
+  getAddressFromPublicKey,
   publicKeyToHex,
   privateKeyToHex,
 } from '@stacks/transactions';
-import { PrivateKey } from '@stacks/common';
+import { bytesToHex } from '@stacks/common';
 import { StacksNetwork } from '@stacks/network';
+import { HDKey } from '@scure/bip32';
+import { generateMnemonic, mnemonicToSeed, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
 import { ToolResult } from '../types/index';
 
+// Standard Stacks derivation path (BIP-44 coin type 5757), as used by
+// Leather and Xverse. Account i lives at m/44'/5757'/0'/0/i.
+export const STACKS_DERIVATION_PATH = "m/44'/5757'/0'/0";
+
+export function stacksDerivationPath(index: number): string {
+  return `${STACKS_DERIVATION_PATH}/${index}`;
+}
+
 export interface KeyInfo {
   privateKey: string;
   publicKey: string;
@@ -26,6 +38,54 @@ export interface GenerateKeyParams {
   entropy?: string; // Optional entropy for deterministic generation
 }
 
+export interface HDKeyInfo extends KeyInfo {
+  index: number;
+  path: string;
+}
+
+export interface WatchOnlyAddress {
+  index: number;
+  path: string;
+  publicKey: string;
+  address: string;
+  network: 'mainnet' | 'testnet';
+}
+
+export interface DiscoveredAccount extends HDKeyInfo {
+  balance: string; // microSTX
+  nonce: number;
+}
+
+export interface GenerateMnemonicParams {
+  wordCount?: 12 | 24;
+}
+
+export interface MnemonicParams {
+  mnemonic: string;
+  passphrase?: string; // Optional BIP-39 passphrase ("25th word")
+}
+
+export interface DeriveKeysParams extends MnemonicParams {
+  network: 'mainnet' | 'testnet';
+  startIndex?: number;
+  count?: number;
+}
+
+export interface DiscoverAccountsParams extends MnemonicParams {
+  network: 'mainnet' | 'testnet';
+  gapLimit?: number; // Stop after this many consecutive unused accounts
+  maxAccounts?: number;
+}
+
+export interface XpubDeriveParams {
+  xpub: string;
+  network: 'mainnet' | 'testnet';
+  startIndex?: number;
+  count?: number;
+}
+
+const MAX_HD_INDEX = 2 ** 31 - 1;
+
 export class StacksKeyManagementTool {
   private network: StacksNetwork;
 
@@ -222,30 +282,49 @@ export class StacksKeyManagementTool {
     }
   }
 
-  async deriveChildKeys(masterPrivateKey: string, network: 'mainnet' | 'testnet', count: number = 5): Promise<ToolResult<KeyInfo[]>> {
+  async generateMnemonic(params: GenerateMnemonicParams = {}): Promise<ToolResult<{ mnemonic: string; wordCount: number }>> {
     try {
-      if (!this.isValidPrivateKey(masterPrivateKey)) {
-        throw new Error('Invalid master private key');
+      const wordCount = params.wordCount ?? 24;
+      if (wordCount !== 12 && wordCount !== 24) {
+        throw new Error('Word count must be 12 or 24');
       }
 
+      const mnemonic = generateMnemonic(wordlist, wordCount === 24 ? 256 : 128);
+
+      return {
+        success: true,
+        data: { mnemonic, wordCount },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate mnemonic',
+      };
+    }
+  }
+
+  async validateMnemonic(mnemonic: string): Promise<ToolResult<boolean>> {
+    return {
+      success: true,
+      data: validateMnemonic(this.normalizeMnemonic(mnemonic), wordlist),
+    };
+  }
+
+  // Derive accounts along m/44'/5757'/0'/0/i
+  async deriveChildKeys(params: DeriveKeysParams): Promise<ToolResult<HDKeyInfo[]>> {
+    try {
+      const { network, startIndex = 0, count = 5 } = params;
+
       if (count <= 0 || count > 50) {
         throw new Error('Count must be between 1 and 50');
       }
+      this.assertIndexRange(startIndex, count);
 
-      const keys: KeyInfo[] = [];
-      
-      // Simple derivation by adding incremental values to the master key
-      // Note: This is a simplified approach. In production, use proper HD wallet derivation
-      const masterKeyBigInt = BigInt('0x' + masterPrivateKey);
-      
-      for (let i = 0; i < count; i++) {
-        const childKeyBigInt = (masterKeyBigInt + BigInt(i + 1)) % BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
-        const childKeyHex = childKeyBigInt.toString(16).padStart(64, '0');
-        
-        const result = await this.importPrivateKey({ privateKeyHex: childKeyHex, network });
-        if (result.success && result.data) {
-          keys.push(result.data);
-        }
+      const parent = (await this.rootFromMnemonic(params)).derive(STACKS_DERIVATION_PATH);
+      const keys: HDKeyInfo[] = [];
+
+      for (let index = startIndex; index < startIndex + count; index++) {
+        keys.push(this.keyInfoFromNode(parent.deriveChild(index), index, network));
       }
 
       return {
@@ -260,6 +339,148 @@ export class StacksKeyManagementTool {
     }
   }
 
+  // Scan accounts in order and return those with on-chain activity (a
+  // non-zero nonce or balance), stopping after gapLimit unused accounts
+  async discoverAccounts(
+    params: DiscoverAccountsParams
+  ): Promise<ToolResult<{ accounts: DiscoveredAccount[]; nextIndex: number }>> {
+    try {
+      const { network, gapLimit = 5, maxAccounts = 50 } = params;
+
+      if (gapLimit <= 0 || gapLimit > 20) {
+        throw new Error('Gap limit must be between 1 and 20');
+      }
+
+      const parent = (await this.rootFromMnemonic(params)).derive(STACKS_DERIVATION_PATH);
+      const accounts: DiscoveredAccount[] = [];
+      let unused = 0;
+      let index = 0;
+
+      for (; index < maxAccounts && unused < gapLimit; index++) {
+        const keyInfo = this.keyInfoFromNode(parent.deriveChild(index), index, network);
+        const activity = await this.fetchAccountActivity(keyInfo.address);
+
+        if (activity.nonce > 0 || BigInt(activity.balance) > 0n) {
+          accounts.push({ ...keyInfo, ...activity });
+          unused = 0;
+        } else {
+          unused++;
+        }
+      }
+
+      const lastUsed = accounts.length ? accounts[accounts.length - 1].index : -1;
+
+      return {
+        success: true,
+        data: { accounts, nextIndex: lastUsed + 1 },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to discover accounts',
+      };
+    }
+  }
+
+  // Extended public key for m/44'/5757'/0'/0. It can derive every account
+  // address but cannot sign, so it is safe to share with watch-only tooling.
+  async exportXpub(params: MnemonicParams): Promise<ToolResult<{ xpub: string; path: string }>> {
+    try {
+      const parent = (await this.rootFromMnemonic(params)).derive(STACKS_DERIVATION_PATH);
+
+      return {
+        success: true,
+        data: { xpub: parent.publicExtendedKey, path: STACKS_DERIVATION_PATH },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export xpub',
+      };
+    }
+  }
+
+  // Watch-only derivation of account addresses from an exported xpub
+  async deriveAddressesFromXpub(params: XpubDeriveParams): Promise<ToolResult<WatchOnlyAddress[]>> {
+    try {
+      const { xpub, network, startIndex = 0, count = 5 } = params;
+
+      if (count <= 0 || count > 50) {
+        throw new Error('Count must be between 1 and 50');
+      }
+      this.assertIndexRange(startIndex, count);
+
+      const parent = HDKey.fromExtendedKey(xpub);
+      if (parent.privateKey) {
+        throw new Error('Expected an extended public key, not a private one');
+      }
+
+      const addresses: WatchOnlyAddress[] = [];
+      for (let index = startIndex; index < startIndex + count; index++) {
+        const publicKey = bytesToHex(parent.deriveChild(index).publicKey!);
+        addresses.push({
+          index,
+          path: stacksDerivationPath(index),
+          publicKey,
+          address: getAddressFromPublicKey(publicKey, network),
+          network,
+        });
+      }
+
+      return {
+        success: true,
+        data: addresses,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to derive addresses from xpub',
+      };
+    }
+  }
+
+  private normalizeMnemonic(mnemonic: string): string {
+    return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+  }
+
+  private async rootFromMnemonic(params: MnemonicParams): Promise<HDKey> {
+    const mnemonic = this.normalizeMnemonic(params.mnemonic);
+    if (!validateMnemonic(mnemonic, wordlist)) {
+      throw new Error('Invalid mnemonic phrase');
+    }
+    return HDKey.fromMasterSeed(await mnemonicToSeed(mnemonic, params.passphrase));
+  }
+
+  private keyInfoFromNode(node: HDKey, index: number, network: 'mainnet' | 'testnet'): HDKeyInfo {
+    // Stacks keys carry a trailing 01 to mark a compressed public key
+    const privateKey = `${bytesToHex(node.privateKey!)}01`;
+
+    return {
+      privateKey,
+      publicKey: publicKeyToHex(privateKeyToPublic(privateKey)),
+      address: getAddressFromPrivateKey(privateKey, network),
+      network,
+      index,
+      path: stacksDerivationPath(index),
+    };
+  }
+
+  private assertIndexRange(startIndex: number, count: number): void {
+    if (!Number.isInteger(startIndex) || startIndex < 0 || startIndex + count - 1 > MAX_HD_INDEX) {
+      throw new Error(`Account index must be between 0 and ${MAX_HD_INDEX}`);
+    }
+  }
+
+  private async fetchAccountActivity(address: string): Promise<{ balance: string; nonce: number }> {
+    const response = await fetch(`${this.network.client.baseUrl}/v2/accounts/${address}?proof=0`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch account: ${response.statusText}`);
+    }
+
+    const account = await response.json();
+    return { balance: BigInt(account.balance).toString(), nonce: account.nonce };
+  }
+
   private isValidPrivateKey(privateKeyHex: string): boolean {
     // Remove '0x' prefix if present
     const cleanKey = privateKeyHex.startsWith('0x') ? privateKeyHex.slice(2) : privateKeyHex;
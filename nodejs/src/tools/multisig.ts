@@ -15,6 +15,8 @@ import {
 import { PrivateKey, PublicKey } from '@stacks/common';
 import { StacksNetwork } from '@stacks/network';
 import { ToolResult } from '../types/index';
+import { Signer } from '../signers/index';
+import { StacksUtils } from '../utils/index';
 
 export interface MultiSigSTXTransferParams {
   recipients: string;
@@ -38,7 +40,7 @@ export interface MultiSigContractCallParams {
 
 export interface MultiSigSignParams {
   transactionHex: string;
-  privateKey: string;
+  signer: Signer;
 }
 
 export interface MultiSigAppendParams {
@@ -71,20 +73,19 @@ export class StacksMultiSigTool {
       }
 
       // Convert amount to microSTX
-      const microSTXAmount = this.parseSTX(amount);
+      const microSTXAmount = StacksUtils.toMicroSTX(amount);
 
       const transaction = await makeUnsignedSTXTokenTransfer({
         recipient: recipients,
         amount: BigInt(microSTXAmount),
-        fee: fee ? BigInt(this.parseSTX(fee)) : BigInt(0),
+        fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
         memo,
         numSignatures,
         publicKeys,
         network: this.network,
       });
 
-      const serializedTx = transaction.serialize();
-      const transactionHex = Buffer.from(serializedTx).toString('hex');
+      const transactionHex = transaction.serialize();
 
       return {
         success: true,
@@ -126,7 +127,7 @@ export class StacksMultiSigTool {
         contractName,
         functionName,
         functionArgs,
-        fee: fee ? BigInt(this.parseSTX(fee)) : BigInt(0),
+        fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
         numSignatures,
         publicKeys,
         network: this.network,
@@ -134,8 +135,7 @@ export class StacksMultiSigTool {
         postConditionMode: postConditions.length > 0 ? PostConditionMode.Deny : PostConditionMode.Allow,
       });
 
-      const serializedTx = transaction.serialize();
-      const transactionHex = Buffer.from(serializedTx).toString('hex');
+      const transactionHex = transaction.serialize();
 
       return {
         success: true,
@@ -157,23 +157,21 @@ export class StacksMultiSigTool {
 
   async signTransaction(params: MultiSigSignParams): Promise<ToolResult<MultiSigTransaction>> {
     try {
-      const { transactionHex, privateKey } = params;
+      const { transactionHex, signer } = params;
 
       // Deserialize the transaction
       const bytesReader = new BytesReader(Buffer.from(transactionHex, 'hex'));
       const deserializedTx = deserializeTransaction(bytesReader);
 
-      // Create signer and sign
-      const signer = new TransactionSigner(deserializedTx);
-      signer.signOrigin(privateKey);
+      // Add this signer's signature
+      const signedTx = await signer.signTransaction(deserializedTx);
 
       // Get transaction info - simplified for now
       const signaturesCount = 1; // This would need proper implementation
       const requiredSignatures = 2; // This would need to be extracted from transaction
 
       // Serialize the signed transaction
-      const serializedSignedTx = deserializedTx.serialize();
-      const signedTransactionHex = Buffer.from(serializedSignedTx).toString('hex');
+      const signedTransactionHex = signedTx.serialize();
 
       // Get public keys from the transaction - simplified
       const publicKeys: string[] = [];
@@ -214,8 +212,7 @@ export class StacksMultiSigTool {
       const requiredSignatures = 2;
 
       // Serialize the updated transaction
-      const serializedTx = deserializedTx.serialize();
-      const updatedTransactionHex = Buffer.from(serializedTx).toString('hex');
+      const updatedTransactionHex = deserializedTx.serialize();
 
       // Get public keys from the transaction - simplified
       const publicKeys: string[] = [];
@@ -339,21 +336,6 @@ export class StacksMultiSigTool {
     }
   }
 
-  private parseSTX(stx: string | bigint | number): bigint {
-    if (typeof stx === 'bigint') {
-      return stx;
-    }
-    if (typeof stx === 'number') {
-      return BigInt(Math.floor(stx * 1_000_000));
-    }
-    if (!stx.includes('.')) {
-      return BigInt(stx);
-    }
-    const [whole, decimal = '0'] = stx.split('.');
-    const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
-    return BigInt(`${whole}${paddedDecimal}`);
-  }
-
   private formatSTX(microSTX: string): string {
     const stx = BigInt(microSTX) / BigInt(1000000);
     const remainder = BigInt(microSTX) % BigInt(1000000);
@@ -0,0 +1,256 @@
+import {
+  makeUnsignedContractCall,
+  broadcastTransaction,
+  fetchCallReadOnlyFunction,
+  PostConditionMode,
+  ClarityType,
+  Pc,
+  cvToValue,
+  uintCV,
+  standardPrincipalCV,
+  principalCV,
+  StacksTransactionWire,
+  ContractIdString,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { NFTHolding, NFTTransferParams, ToolResult } from '../types/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+export interface ListNFTsParams {
+  address: string;
+  limit?: number; // default 50, the API maximum
+  offset?: number;
+  includeMetadata?: boolean; // resolve get-token-uri and the JSON behind it (default true)
+}
+
+// Holdings, metadata and transfers of SIP-009 non-fungible tokens
+export class StacksNFTTool {
+  private network: StacksNetwork;
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+  private assetNames = new Map<string, string>(); // by contract id
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network)
+  ) {
+    this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
+  }
+
+  async listNFTs(params: ListNFTsParams): Promise<ToolResult<{ total: number; holdings: NFTHolding[] }>> {
+    try {
+      const { address, limit = 50, offset = 0, includeMetadata = true } = params;
+
+      const response = await fetch(
+        `${this.network.client.baseUrl}/extended/v1/tokens/nft/holdings?principal=${address}&limit=${limit}&offset=${offset}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch NFT holdings: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const holdings = await Promise.all(
+        data.results.map(async (result: any) => {
+          const [contractId, assetName] = result.asset_identifier.split('::');
+          const holding: NFTHolding = { contractId, assetName, tokenId: result.value.repr };
+
+          // Metadata is best effort; ids that are not uints have no SIP-009 token URI
+          if (includeMetadata && /^u\d+$/.test(holding.tokenId)) {
+            Object.assign(holding, await this.resolveMetadata(contractId, holding.tokenId).catch(() => ({})));
+          }
+          return holding;
+        })
+      );
+
+      return {
+        success: true,
+        data: { total: data.total, holdings },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list NFTs',
+      };
+    }
+  }
+
+  async getNFTMetadata(contractId: string, tokenId: string): Promise<ToolResult<Pick<NFTHolding, 'tokenUri' | 'metadata'>>> {
+    try {
+      return {
+        success: true,
+        data: await this.resolveMetadata(contractId, tokenId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get NFT metadata',
+      };
+    }
+  }
+
+  async transferNFT(params: NFTTransferParams): Promise<ToolResult<string>> {
+    try {
+      const { signer, contractId, tokenId, recipient, fee } = params;
+
+      // Reserve the nonce through the shared manager
+      const senderAddress = await signer.getAddress();
+      return await this.nonceManager.withNonce(senderAddress, async (nonce) => {
+        const unsignedTransaction = await this.buildTransfer(params, nonce);
+        if (!fee) {
+          unsignedTransaction.setFee(await this.feeEstimator.estimateFee(unsignedTransaction));
+        }
+        const transaction = await signer.signTransaction(unsignedTransaction);
+
+        // Broadcast the transaction
+        const broadcastResponse = await broadcastTransaction({
+          transaction,
+          network: this.network,
+        });
+
+        if ('error' in broadcastResponse) {
+          throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+        }
+
+        return {
+          success: true,
+          data: `Transferred ${contractId} #${parseTokenId(tokenId)} to ${recipient}`,
+          transactionId: broadcastResponse.txid,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'NFT transfer failed',
+      };
+    }
+  }
+
+  async estimateNFTTransferFee(params: Omit<NFTTransferParams, 'fee'>): Promise<ToolResult<string>> {
+    try {
+      const nonce = await this.nonceManager.peek(await params.signer.getAddress());
+      const transaction = await this.buildTransfer(params, nonce);
+      const fee = (await this.feeEstimator.estimateFee(transaction)).toString();
+
+      return {
+        success: true,
+        data: this.formatSTX(fee),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to estimate NFT transfer fee',
+      };
+    }
+  }
+
+  // Unsigned SIP-009 transfer. The "sent" post-condition makes it fail
+  // unless exactly this token leaves the sender.
+  private async buildTransfer(
+    params: Omit<NFTTransferParams, 'fee'> & { fee?: string },
+    nonce: number
+  ): Promise<StacksTransactionWire> {
+    const { signer, contractId, tokenId, recipient, fee } = params;
+    const [contractAddress, contractName] = StacksUtils.parseContractId(contractId);
+    const id = parseTokenId(tokenId);
+    const assetName = await this.resolveAssetName(contractId);
+
+    const senderAddress = await signer.getAddress();
+    return await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: 'transfer',
+      functionArgs: [uintCV(id), standardPrincipalCV(senderAddress), principalCV(recipient)],
+      publicKey: await signer.getPublicKey(),
+      network: this.network,
+      postConditions: [
+        Pc.principal(senderAddress).willSendAsset().nft(contractId as ContractIdString, assetName, uintCV(id)),
+      ],
+      postConditionMode: PostConditionMode.Deny,
+      nonce: BigInt(nonce),
+      fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+    });
+  }
+
+  private async resolveMetadata(contractId: string, tokenId: string): Promise<Pick<NFTHolding, 'tokenUri' | 'metadata'>> {
+    const [contractAddress, contractName] = StacksUtils.parseContractId(contractId);
+    const id = parseTokenId(tokenId);
+
+    const result = await fetchCallReadOnlyFunction({
+      contractAddress,
+      contractName,
+      functionName: 'get-token-uri',
+      functionArgs: [uintCV(id)],
+      network: this.network,
+      senderAddress: contractAddress,
+    });
+    if (result.type !== ClarityType.ResponseOk) {
+      throw new Error(`${contractId}::get-token-uri did not return (ok ...)`);
+    }
+
+    // (ok none) means the token has no URI
+    if (result.value.type !== ClarityType.OptionalSome) {
+      return {};
+    }
+    const uri = String(cvToValue(result.value.value));
+
+    // SIP-016 lets a collection-wide URI carry an {id} placeholder
+    const tokenUri = uri.replace('{id}', id.toString());
+    const url = tokenUri.startsWith('ipfs://') ? `${IPFS_GATEWAY}${tokenUri.slice('ipfs://'.length)}` : tokenUri;
+    if (!/^https?:\/\//.test(url)) {
+      return { tokenUri };
+    }
+
+    try {
+      const response = await fetch(url);
+      return response.ok ? { tokenUri, metadata: await response.json() } : { tokenUri };
+    } catch {
+      return { tokenUri };
+    }
+  }
+
+  // The collection's define-non-fungible-token name, from the contract interface
+  private async resolveAssetName(contractId: string): Promise<string> {
+    const cached = this.assetNames.get(contractId);
+    if (cached) {
+      return cached;
+    }
+
+    const [contractAddress, contractName] = StacksUtils.parseContractId(contractId);
+    const response = await fetch(
+      `${this.network.client.baseUrl}/v2/contracts/interface/${contractAddress}/${contractName}`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch contract interface: ${response.statusText}`);
+    }
+
+    const abi = await response.json();
+    const [asset] = abi.non_fungible_tokens || [];
+    if (!asset) {
+      throw new Error(`${contractId} does not define a non-fungible token`);
+    }
+    this.assetNames.set(contractId, asset.name);
+    return asset.name;
+  }
+
+  private formatSTX(microSTX: string): string {
+    const stx = BigInt(microSTX) / BigInt(1000000);
+    const remainder = BigInt(microSTX) % BigInt(1000000);
+    return `${stx}.${remainder.toString().padStart(6, '0')}`;
+  }
+}
+
+// SIP-009 ids are uints; accept "42" as well as the Clarity repr "u42"
+function parseTokenId(tokenId: string): bigint {
+  const match = /^u?(\d+)$/.exec(String(tokenId).trim());
+  if (!match) {
+    throw new Error(`Invalid token id '${tokenId}', expected an unsigned integer`);
+  }
+  return BigInt(match[1]);
+}
@@ -1,11 +1,15 @@
 import { StacksNetwork } from '@stacks/network';
 import { QueryParams, WalletInfo, TransactionInfo, ToolResult } from '../types/index';
+import { toTransactionInfo } from '../tracker/index';
+import { BnsResolver } from '../bns/index';
 
 export class StacksQueryTool {
   private network: StacksNetwork;
+  private bnsResolver: BnsResolver;
 
-  constructor(network: StacksNetwork) {
+  constructor(network: StacksNetwork, bnsResolver: BnsResolver = new BnsResolver(network)) {
     this.network = network;
+    this.bnsResolver = bnsResolver;
   }
 
   async queryWallet(params: QueryParams): Promise<ToolResult<WalletInfo>> {
@@ -57,19 +61,10 @@ export class StacksQueryTool {
       }
 
       const data = await response.json();
-      
-      return data.results.map((tx: any) => ({
-        txId: tx.tx_id,
-        type: tx.tx_type,
-        amount: tx.token_transfer?.amount || tx.stx_transfers?.[0]?.amount,
-        from: tx.sender_address,
-        to: tx.token_transfer?.recipient_address || tx.stx_transfers?.[0]?.recipient_address,
-        fee: tx.fee_rate,
-        status: tx.tx_status === 'success' ? 'success' : 
-                tx.tx_status === 'pending' ? 'pending' : 'failed',
-        timestamp: tx.burn_block_time,
-        blockHeight: tx.block_height,
-      }));
+      const transactions: TransactionInfo[] = data.results.map(toTransactionInfo);
+      await this.addNames(transactions);
+
+      return transactions;
     } catch (error) {
       console.error('Error fetching transaction history:', error);
       return [];
@@ -118,6 +113,34 @@ export class StacksQueryTool {
     }
   }
 
+  // Reverse-resolve the sender and recipient of each transaction. Lookups are
+  // best effort: an address whose lookup fails is shown without a name.
+  // Contracts cannot own names and are skipped.
+  private async addNames(transactions: TransactionInfo[]): Promise<void> {
+    const addresses = new Set<string>();
+    transactions.forEach((tx) =>
+      [tx.from, tx.to].forEach((address) => address && !address.includes('.') && addresses.add(address))
+    );
+
+    const names = new Map<string, string | undefined>();
+    await Promise.all(
+      Array.from(addresses).map(async (address) => {
+        names.set(address, await this.bnsResolver.lookupName(address).catch(() => undefined));
+      })
+    );
+
+    for (const tx of transactions) {
+      const fromName = tx.from && names.get(tx.from);
+      const toName = tx.to && names.get(tx.to);
+      if (fromName) {
+        tx.fromName = fromName;
+      }
+      if (toName) {
+        tx.toName = toName;
+      }
+    }
+  }
+
   private formatSTX(microSTX: string): string {
     const stx = BigInt(microSTX) / BigInt(1000000);
     const remainder = BigInt(microSTX) % BigInt(1000000);
@@ -1,32 +1,48 @@
 import { 
   fetchCallReadOnlyFunction,
+  ClarityAbi,
   ClarityValue,
+  cvToHex,
   cvToString,
-  cvToJSON,
+  hexToCV,
 } from '@stacks/transactions';
 import { StacksNetwork } from '@stacks/network';
-import { ToolResult } from '../types/index';
+import { ContractEventPage, ContractEventsParams, ToolResult } from '../types/index';
+import {
+  ClarityJSON,
+  FunctionArgsInput,
+  decodeClarityValue,
+  encodeAbiValue,
+  encodeFunctionArgs,
+  findAbiFunction,
+  isClarityValue,
+  needsAbiEncoding,
+} from '../clarity/index';
+import { ContractEventFeed } from '../events/index';
 
 export interface ReadOnlyCallParams {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  functionArgs: ClarityValue[];
+  functionArgs: FunctionArgsInput; // ClarityValues, or JSON encoded with the function's ABI
   senderAddress?: string; // Optional sender address for context
 }
 
 export interface ReadOnlyResult {
-  result: any;
-  resultString: string;
-  resultJSON: any;
+  result: ClarityValue;
+  resultString: string; // Clarity notation, e.g. "(ok u5)"
+  resultJSON: ClarityJSON; // plain JSON, see decodeClarityValue
   success: boolean;
 }
 
 export class StacksReadOnlyTool {
   private network: StacksNetwork;
+  private interfaces = new Map<string, ClarityAbi>(); // by contract id; deployed contracts never change
+  private events: ContractEventFeed;
 
   constructor(network: StacksNetwork) {
     this.network = network;
+    this.events = new ContractEventFeed(network);
   }
 
   async callReadOnlyFunction(params: ReadOnlyCallParams): Promise<ToolResult<ReadOnlyResult>> {
@@ -35,10 +51,10 @@ export class StacksReadOnlyTool {
         contractAddress,
         contractName,
         functionName,
-        functionArgs,
         senderAddress
       } = params;
 
+      const functionArgs = await this.encodeArgs(params);
       const options = {
         contractAddress,
         contractName,
@@ -49,19 +65,10 @@ export class StacksReadOnlyTool {
       };
 
       const result = await fetchCallReadOnlyFunction(options);
-      
-      // Convert the result to different formats for easier consumption
-      const resultString = cvToString(result);
-      const resultJSON = cvToJSON(result);
 
       return {
         success: true,
-        data: {
-          result,
-          resultString,
-          resultJSON,
-          success: true,
-        },
+        data: this.toResult(result),
       };
     } catch (error) {
       return {
@@ -119,23 +126,37 @@ export class StacksReadOnlyTool {
     }
   }
 
+  // Decoded and filtered, newest first; pass nextCursor back for older events
+  getContractEvents(params: ContractEventsParams): Promise<ToolResult<ContractEventPage>>;
+  // One page of raw Extended API events, by offset
+  getContractEvents(
+    contractAddress: string,
+    contractName: string,
+    limit?: number,
+    offset?: number
+  ): Promise<ToolResult<any[]>>;
   async getContractEvents(
-    contractAddress: string, 
-    contractName: string, 
+    params: ContractEventsParams | string,
+    contractName?: string,
     limit: number = 50,
     offset: number = 0
-  ): Promise<ToolResult<any[]>> {
+  ): Promise<ToolResult<ContractEventPage | any[]>> {
     try {
+      if (typeof params !== 'string') {
+        return {
+          success: true,
+          data: await this.events.getEvents(params),
+        };
+      }
+
       const eventsResponse = await fetch(
-        `${this.network.client.baseUrl}/extended/v1/contract/${contractAddress}.${contractName}/events?limit=${limit}&offset=${offset}`
+        `${this.network.client.baseUrl}/extended/v1/contract/${params}.${contractName}/events?limit=${limit}&offset=${offset}`
       );
-      
       if (!eventsResponse.ok) {
         throw new Error(`Failed to fetch contract events: ${eventsResponse.statusText}`);
       }
 
       const eventsData = await eventsResponse.json();
-      
       return {
         success: true,
         data: eventsData.results || [],
@@ -166,19 +187,12 @@ export class StacksReadOnlyTool {
         throw new Error(`Failed to fetch data variable: ${response.statusText}`);
       }
 
+      // The value is hex-serialized Clarity in the 'data' field
       const data = await response.json();
-      
-      // The data variable value is in the 'data' field
-      const resultString = data.data || '';
-      
+
       return {
         success: true,
-        data: {
-          result: data,
-          resultString,
-          resultJSON: data,
-          success: true,
-        },
+        data: this.toResult(hexToCV(data.data)),
       };
     } catch (error) {
       return {
@@ -192,10 +206,11 @@ export class StacksReadOnlyTool {
     contractAddress: string, 
     contractName: string, 
     mapName: string,
-    key: ClarityValue,
+    key: ClarityValue | ClarityJSON, // JSON is encoded with the map's key type
     proof?: number
   ): Promise<ToolResult<ReadOnlyResult>> {
     try {
+      const keyCV = isClarityValue(key) ? key : await this.encodeMapKey(contractAddress, contractName, mapName, key);
       let url = `${this.network.client.baseUrl}/v2/map_entry/${contractAddress}/${contractName}/${mapName}`;
       if (proof !== undefined) {
         url += `?proof=${proof}`;
@@ -206,26 +221,20 @@ export class StacksReadOnlyTool {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(key),
+        body: JSON.stringify(cvToHex(keyCV)), // the node takes the serialized key as a JSON string
       });
       
       if (!response.ok) {
         throw new Error(`Failed to fetch map entry: ${response.statusText}`);
       }
 
+      // The entry comes back as an optional: (some value), or none when the
+      // key is not in the map
       const data = await response.json();
-      
-      // The map entry value is in the 'data' field
-      const resultString = data.data || '';
-      
+
       return {
         success: true,
-        data: {
-          result: data,
-          resultString,
-          resultJSON: data,
-          success: true,
-        },
+        data: this.toResult(hexToCV(data.data)),
       };
     } catch (error) {
       return {
@@ -265,4 +274,65 @@ export class StacksReadOnlyTool {
       };
     }
   }
+
+  private toResult(result: ClarityValue): ReadOnlyResult {
+    return {
+      result,
+      resultString: cvToString(result),
+      resultJSON: decodeClarityValue(result),
+      success: true,
+    };
+  }
+
+  private async getInterface(contractAddress: string, contractName: string): Promise<ClarityAbi> {
+    const contractId = `${contractAddress}.${contractName}`;
+    let contractInterface = this.interfaces.get(contractId);
+    if (!contractInterface) {
+      const info = await this.getContractInfo(contractAddress, contractName);
+      if (!info.success || !info.data) {
+        throw new Error(info.error ?? `Failed to get the interface of ${contractId}`);
+      }
+      contractInterface = info.data as ClarityAbi;
+      this.interfaces.set(contractId, contractInterface);
+    }
+    return contractInterface;
+  }
+
+  private async encodeMapKey(
+    contractAddress: string,
+    contractName: string,
+    mapName: string,
+    key: ClarityJSON
+  ): Promise<ClarityValue> {
+    const { maps } = await this.getInterface(contractAddress, contractName);
+    const map = maps.find((candidate) => candidate.name === mapName);
+    if (!map) {
+      const available = maps.map((candidate) => candidate.name);
+      throw new Error(
+        `Contract ${contractAddress}.${contractName} has no map '${mapName}' (available: ${available.join(', ') || 'none'})`
+      );
+    }
+    return encodeAbiValue(key, map.key, 'key');
+  }
+
+  // JSON arguments are encoded with the function's ABI; ClarityValues are
+  // used as given
+  private async encodeArgs(params: ReadOnlyCallParams): Promise<ClarityValue[]> {
+    const { contractAddress, contractName, functionName, functionArgs } = params;
+    if (!needsAbiEncoding(functionArgs)) {
+      return functionArgs as ClarityValue[];
+    }
+
+    const contractId = `${contractAddress}.${contractName}`;
+    const { functions } = await this.getInterface(contractAddress, contractName);
+    const fn = findAbiFunction(functions, functionName, contractId);
+    if (fn.access !== 'read_only') {
+      throw new Error(
+        fn.access === 'public'
+          ? `'${functionName}' is public and needs a transaction; call it with call_contract instead`
+          : `'${functionName}' is private and cannot be called from outside the contract`
+      );
+    }
+    return encodeFunctionArgs(fn, functionArgs);
+  }
 }
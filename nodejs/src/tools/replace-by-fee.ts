@@ -0,0 +1,185 @@
+import {
+  makeUnsignedSTXTokenTransfer,
+  broadcastTransaction,
+  deserializeTransaction,
+  isSingleSig,
+  AuthType,
+  StacksTransactionWire,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import { ReplaceTransactionParams, ToolResult } from '../types/index';
+import { NonceManager } from '../nonce/index';
+import { StacksUtils } from '../utils/index';
+
+// The mempool transaction being replaced
+interface PendingTransaction {
+  txId: string;
+  sender: string;
+  nonce: number;
+  fee: bigint;
+  transaction: StacksTransactionWire;
+}
+
+// Replaces a transaction that is stuck in the mempool by broadcasting another
+// one with the same nonce and a higher fee. Speeding up re-signs the original
+// payload; cancelling sends a 0 STX transfer to the sender instead.
+export class StacksReplaceByFeeTool {
+  private network: StacksNetwork;
+  private nonceManager: NonceManager;
+
+  constructor(network: StacksNetwork, nonceManager: NonceManager = new NonceManager(network)) {
+    this.network = network;
+    this.nonceManager = nonceManager;
+  }
+
+  async speedUpTransaction(params: ReplaceTransactionParams): Promise<ToolResult<string>> {
+    try {
+      const { signer, txId } = params;
+      const pending = await this.fetchPendingTransaction(txId, await signer.getAddress());
+      const fee = this.replacementFee(pending, params.fee);
+
+      // Signing starts from a cleared authorization, so the original
+      // signature is simply replaced
+      const transaction = pending.transaction;
+      transaction.setFee(fee);
+
+      return await this.broadcastReplacement(pending, await signer.signTransaction(transaction), fee);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to speed up transaction',
+      };
+    }
+  }
+
+  async cancelTransaction(params: ReplaceTransactionParams): Promise<ToolResult<string>> {
+    try {
+      const { signer, txId } = params;
+      const pending = await this.fetchPendingTransaction(txId, await signer.getAddress());
+      const fee = this.replacementFee(pending, params.fee);
+
+      const transaction = await makeUnsignedSTXTokenTransfer({
+        recipient: pending.sender,
+        amount: BigInt(0),
+        publicKey: await signer.getPublicKey(),
+        network: this.network,
+        memo: 'cancel',
+        nonce: BigInt(pending.nonce),
+        fee,
+      });
+
+      return await this.broadcastReplacement(pending, await signer.signTransaction(transaction), fee);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel transaction',
+      };
+    }
+  }
+
+  // The fee a replacement pays when none is given
+  async estimateReplacementFee(params: Omit<ReplaceTransactionParams, 'fee'>): Promise<ToolResult<string>> {
+    try {
+      const { signer, txId } = params;
+      const pending = await this.fetchPendingTransaction(txId, await signer.getAddress());
+
+      return {
+        success: true,
+        data: this.formatSTX(this.replacementFee(pending).toString()),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to estimate replacement fee',
+      };
+    }
+  }
+
+  private async fetchPendingTransaction(txId: string, signerAddress: string): Promise<PendingTransaction> {
+    const id = txId.startsWith('0x') ? txId : `0x${txId}`;
+    const response = await fetch(`${this.network.client.baseUrl}/extended/v1/tx/${id}`);
+    if (response.status === 404) {
+      throw new Error(`Transaction ${id} not found`);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transaction: ${response.statusText}`);
+    }
+
+    const tx = await response.json();
+    if (tx.tx_status !== 'pending') {
+      throw new Error(`Transaction ${id} is no longer pending (status: ${tx.tx_status})`);
+    }
+    if (tx.sender_address !== signerAddress) {
+      throw new Error(`Transaction ${id} was sent by ${tx.sender_address}, not by the signing account ${signerAddress}`);
+    }
+    if (tx.sponsored) {
+      throw new Error('Sponsored transactions can only be replaced by their sponsor');
+    }
+
+    const rawResponse = await fetch(`${this.network.client.baseUrl}/extended/v1/tx/${id}/raw`);
+    if (!rawResponse.ok) {
+      throw new Error(`Failed to fetch raw transaction: ${rawResponse.statusText}`);
+    }
+    const { raw_tx } = await rawResponse.json();
+    const transaction = deserializeTransaction(raw_tx);
+
+    const spendingCondition = transaction.auth.spendingCondition;
+    if (transaction.auth.authType !== AuthType.Standard || !isSingleSig(spendingCondition)) {
+      throw new Error('Only single-signature transactions can be replaced');
+    }
+
+    return {
+      txId: id,
+      sender: tx.sender_address,
+      nonce: tx.nonce,
+      fee: BigInt(tx.fee_rate),
+      transaction,
+    };
+  }
+
+  // Nodes only accept a replacement that pays more than the original. Without
+  // an explicit fee the original is raised by 25%.
+  private replacementFee(pending: PendingTransaction, fee?: string): bigint {
+    if (fee === undefined) {
+      return pending.fee + pending.fee / BigInt(4) + BigInt(1);
+    }
+
+    const replacementFee = StacksUtils.toMicroSTX(fee);
+    if (replacementFee <= pending.fee) {
+      throw new Error(
+        `Replacement fee ${this.formatSTX(replacementFee.toString())} STX must be higher than the original fee of ${this.formatSTX(pending.fee.toString())} STX`
+      );
+    }
+    return replacementFee;
+  }
+
+  private async broadcastReplacement(
+    pending: PendingTransaction,
+    transaction: StacksTransactionWire,
+    fee: bigint
+  ): Promise<ToolResult<string>> {
+    const broadcastResponse = await broadcastTransaction({
+      transaction,
+      network: this.network,
+    });
+
+    if ('error' in broadcastResponse) {
+      throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+    }
+
+    // The nonce stays taken by whichever of the two transactions is mined
+    this.nonceManager.markBroadcast(pending.sender, pending.nonce);
+
+    return {
+      success: true,
+      data: `Replaced ${pending.txId} (nonce ${pending.nonce}) with a fee of ${this.formatSTX(fee.toString())} STX`,
+      transactionId: broadcastResponse.txid,
+    };
+  }
+
+  private formatSTX(microSTX: string): string {
+    const stx = BigInt(microSTX) / BigInt(1000000);
+    const remainder = BigInt(microSTX) % BigInt(1000000);
+    return `${stx}.${remainder.toString().padStart(6, '0')}`;
+  }
+}
@@ -1,11 +1,11 @@
 import { 
-  makeSTXTokenTransfer,
-  makeContractCall,
-  sponsorTransaction,
+  makeUnsignedSTXTokenTransfer,
+  makeUnsignedContractCall,
+  createSingleSigSpendingCondition,
+  AddressHashMode,
   broadcastTransaction,
   BytesReader,
   deserializeTransaction,
-  getAddressFromPrivateKey,
   ClarityValue,
   PostCondition,
   AnchorMode,
@@ -13,16 +13,20 @@ import {
 } from '@stacks/transactions';
 import { StacksNetwork } from '@stacks/network';
 import { ToolResult } from '../types/index';
+import { Signer } from '../signers/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
 
 export interface SponsoredSTXTransferParams {
-  originPrivateKey: string;
+  originSigner: Signer;
   recipient: string;
   amount: string;
   memo?: string;
 }
 
 export interface SponsoredContractCallParams {
-  originPrivateKey: string;
+  originSigner: Signer;
   contractAddress: string;
   contractName: string;
   functionName: string;
@@ -33,7 +37,7 @@ export interface SponsoredContractCallParams {
 
 export interface SponsorTransactionParams {
   transactionHex: string;
-  sponsorPrivateKey: string;
+  sponsorSigner: Signer;
   fee: string;
   sponsorNonce?: number;
 }
@@ -48,26 +52,32 @@ export interface SponsoredTransaction {
 
 export class StacksSponsoredTransactionTool {
   private network: StacksNetwork;
-
-  constructor(network: StacksNetwork) {
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network)
+  ) {
     this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
   }
 
   async createSponsoredSTXTransfer(params: SponsoredSTXTransferParams): Promise<ToolResult<SponsoredTransaction>> {
     try {
-      const { originPrivateKey, recipient, amount, memo = '' } = params;
+      const { originSigner, recipient, amount, memo = '' } = params;
 
       // Convert amount to microSTX
-      const microSTXAmount = this.parseSTX(amount);
+      const microSTXAmount = StacksUtils.toMicroSTX(amount);
       
-      // Get origin address
-      const originAddress = getAddressFromPrivateKey(originPrivateKey, this.getNetworkVersion());
 
       // Create the sponsored transaction (fee is set to 0 for origin)
       const txOptions = {
         recipient,
         amount: BigInt(microSTXAmount),
-        senderKey: originPrivateKey,
+        publicKey: await originSigner.getPublicKey(),
         network: this.network,
         memo,
         fee: BigInt(0), // Origin pays no fee in sponsored transactions
@@ -76,15 +86,18 @@ export class StacksSponsoredTransactionTool {
         postConditionMode: PostConditionMode.Allow,
       };
 
-      const transaction = await makeSTXTokenTransfer(txOptions);
-      const serializedTx = transaction.serialize();
-      const transactionHex = Buffer.from(serializedTx).toString('hex');
+      // The origin nonce is reserved like any other, since the sponsored
+      // transaction consumes it once broadcast
+      const transaction = await this.nonceManager.withNonce(await originSigner.getAddress(), async (nonce) =>
+        originSigner.signTransaction(await makeUnsignedSTXTokenTransfer({ ...txOptions, nonce: BigInt(nonce) }))
+      );
+      const transactionHex = transaction.serialize();
 
       return {
         success: true,
         data: {
           transactionHex,
-          originAddress,
+          originAddress: await originSigner.getAddress(),
           isSponsored: true,
         },
       };
@@ -99,7 +112,7 @@ export class StacksSponsoredTransactionTool {
   async createSponsoredContractCall(params: SponsoredContractCallParams): Promise<ToolResult<SponsoredTransaction>> {
     try {
       const { 
-        originPrivateKey,
+        originSigner,
         contractAddress,
         contractName,
         functionName,
@@ -108,8 +121,6 @@ export class StacksSponsoredTransactionTool {
         validateWithAbi = true
       } = params;
 
-      // Get origin address
-      const originAddress = getAddressFromPrivateKey(originPrivateKey, this.getNetworkVersion());
 
       // Create the sponsored contract call (fee is set to 0 for origin)
       const txOptions = {
@@ -117,7 +128,7 @@ export class StacksSponsoredTransactionTool {
         contractName,
         functionName,
         functionArgs,
-        senderKey: originPrivateKey,
+        publicKey: await originSigner.getPublicKey(),
         validateWithAbi,
         network: this.network,
         postConditions,
@@ -127,15 +138,18 @@ export class StacksSponsoredTransactionTool {
         anchorMode: AnchorMode.Any,
       };
 
-      const transaction = await makeContractCall(txOptions);
-      const serializedTx = transaction.serialize();
-      const transactionHex = Buffer.from(serializedTx).toString('hex');
+      // The origin nonce is reserved like any other, since the sponsored
+      // transaction consumes it once broadcast
+      const transaction = await this.nonceManager.withNonce(await originSigner.getAddress(), async (nonce) =>
+        originSigner.signTransaction(await makeUnsignedContractCall({ ...txOptions, nonce: BigInt(nonce) }))
+      );
+      const transactionHex = transaction.serialize();
 
       return {
         success: true,
         data: {
           transactionHex,
-          originAddress,
+          originAddress: await originSigner.getAddress(),
           isSponsored: true,
         },
       };
@@ -149,36 +163,30 @@ export class StacksSponsoredTransactionTool {
 
   async sponsorTransaction(params: SponsorTransactionParams): Promise<ToolResult<SponsoredTransaction>> {
     try {
-      const { transactionHex, sponsorPrivateKey, fee, sponsorNonce } = params;
+      const { transactionHex, sponsorSigner, fee, sponsorNonce } = params;
 
       // Deserialize the origin transaction
       const bytesReader = new BytesReader(Buffer.from(transactionHex, 'hex'));
       const deserializedTx = deserializeTransaction(bytesReader);
 
-      // Get sponsor address
-      const sponsorAddress = getAddressFromPrivateKey(sponsorPrivateKey, this.getNetworkVersion());
-
-      // Get sponsor nonce if not provided
-      let currentSponsorNonce = sponsorNonce;
-      if (currentSponsorNonce === undefined) {
-        const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${sponsorAddress}`);
-        if (!accountResponse.ok) {
-          throw new Error(`Failed to fetch sponsor account: ${accountResponse.statusText}`);
-        }
-        const accountInfo = await accountResponse.json();
-        currentSponsorNonce = parseInt(accountInfo.nonce || '0');
-      }
-
-      // Sponsor the transaction
-      const sponsorOptions = {
-        transaction: deserializedTx,
-        sponsorPrivateKey,
-        fee: BigInt(this.parseSTX(fee)),
-        sponsorNonce: currentSponsorNonce,
-      };
-
-      const sponsoredTx = await sponsorTransaction(sponsorOptions);
-      const sponsoredTxHex = Buffer.from(sponsoredTx.serialize()).toString('hex');
+      // Resolve the sponsor account
+      const sponsorAddress = await sponsorSigner.getAddress();
+
+      // Attach the sponsor spending condition and have the sponsor sign it,
+      // with the sponsor nonce reserved through the shared manager
+      const sponsoredTx = await this.nonceManager.withNonce(sponsorAddress, async (nonce) => {
+        deserializedTx.setSponsor(
+          createSingleSigSpendingCondition(
+            AddressHashMode.P2PKH,
+            await sponsorSigner.getPublicKey(),
+            nonce,
+            StacksUtils.toMicroSTX(fee)
+          )
+        );
+        return await sponsorSigner.signTransaction(deserializedTx, { sponsor: true });
+      }, sponsorNonce);
+
+      const sponsoredTxHex = sponsoredTx.serialize();
 
       // Get origin address from the transaction
       const originAddress = deserializedTx.auth.spendingCondition?.signer || '';
@@ -190,7 +198,7 @@ export class StacksSponsoredTransactionTool {
           originAddress,
           sponsorAddress,
           isSponsored: true,
-          fee: this.formatSTX(fee),
+          fee: this.formatSTX(StacksUtils.toMicroSTX(fee).toString()),
         },
       };
     } catch (error) {
@@ -265,16 +273,10 @@ export class StacksSponsoredTransactionTool {
 
   async estimateSponsorFee(transactionHex: string): Promise<ToolResult<string>> {
     try {
-      // Deserialize the transaction to get its size and complexity
+      // The sponsor pays for the whole transaction, so price its payload
       const bytesReader = new BytesReader(Buffer.from(transactionHex, 'hex'));
       const transaction = deserializeTransaction(bytesReader);
-
-      // Basic fee estimation based on transaction size
-      // This is a simplified estimation - in production, you might want more sophisticated logic
-      const txSize = Buffer.from(transactionHex, 'hex').length;
-      const baseFee = 1000; // Base fee in microSTX
-      const perByteFee = 10; // Fee per byte in microSTX
-      const estimatedFee = baseFee + (txSize * perByteFee);
+      const estimatedFee = await this.feeEstimator.estimateFee(transaction);
 
       return {
         success: true,
@@ -332,21 +334,6 @@ export class StacksSponsoredTransactionTool {
     }
   }
 
-  private parseSTX(stx: string | bigint | number): bigint {
-    if (typeof stx === 'bigint') {
-      return stx;
-    }
-    if (typeof stx === 'number') {
-      return BigInt(Math.floor(stx * 1_000_000));
-    }
-    if (!stx.includes('.')) {
-      return BigInt(stx);
-    }
-    const [whole, decimal = '0'] = stx.split('.');
-    const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
-    return BigInt(`${whole}${paddedDecimal}`);
-  }
-
   private formatSTX(microSTX: string): string {
     const stx = BigInt(microSTX) / BigInt(1000000);
     const remainder = BigInt(microSTX) % BigInt(1000000);
@@ -357,8 +344,4 @@ export class StacksSponsoredTransactionTool {
     // Basic Stacks address validation
     return /^[SM][0-9A-Z]{40}$/.test(address) || /^ST[0-9A-Z]{38}$/.test(address);
   }
-
-  private getNetworkVersion(): 'mainnet' | 'testnet' {
-    return this.network.chainId === 1 ? 'mainnet' : 'testnet';
-  }
 }
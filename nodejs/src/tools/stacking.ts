@@ -0,0 +1,430 @@
+import {
+  makeUnsignedContractCall,
+  broadcastTransaction,
+  fetchCallReadOnlyFunction,
+  PostConditionMode,
+  ClarityType,
+  ClarityValue,
+  cvToValue,
+  uintCV,
+  principalCV,
+  someCV,
+  noneCV,
+  StacksTransactionWire,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import {
+  DelegateStxParams,
+  PoxInfo,
+  RevokeDelegationParams,
+  StackingDelegation,
+  StackingEligibility,
+  StackingMode,
+  StackingStatus,
+  ToolResult,
+} from '../types/index';
+import { Signer } from '../signers/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
+
+// Stacking through the active PoX contract, which is read from /v2/pox so a
+// PoX upgrade needs no code change. Delegation lets a pool lock up to the
+// delegated amount; the STX stay in the wallet until the pool stacks them.
+export class StacksStackingTool {
+  private network: StacksNetwork;
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network)
+  ) {
+    this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
+  }
+
+  async getPoxInfo(): Promise<ToolResult<PoxInfo>> {
+    try {
+      const response = await fetch(`${this.network.client.baseUrl}/v2/pox`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch PoX info: ${response.statusText}`);
+      }
+      const pox = await response.json();
+
+      return {
+        success: true,
+        data: {
+          contractId: pox.contract_id,
+          currentBurnHeight: pox.current_burnchain_block_height,
+          rewardCycleLength: pox.reward_cycle_length,
+          prepareCycleLength: pox.prepare_phase_block_length ?? pox.prepare_cycle_length,
+          currentCycle: {
+            id: pox.current_cycle.id,
+            minThreshold: this.formatSTX(String(pox.current_cycle.min_threshold_ustx)),
+            stacked: this.formatSTX(String(pox.current_cycle.stacked_ustx)),
+            isPoxActive: pox.current_cycle.is_pox_active,
+          },
+          nextCycle: {
+            id: pox.next_cycle.id,
+            minThreshold: this.formatSTX(String(pox.next_cycle.min_threshold_ustx)),
+            stacked: this.formatSTX(String(pox.next_cycle.stacked_ustx)),
+            rewardPhaseStartHeight: pox.next_cycle.reward_phase_start_block_height,
+            blocksUntilRewardPhase: pox.next_cycle.blocks_until_reward_phase,
+            blocksUntilPreparePhase: pox.next_cycle.blocks_until_prepare_phase,
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get PoX info',
+      };
+    }
+  }
+
+  // Whether an address can stack an amount in the next cycle, solo or by
+  // delegating to a pool. Every failed check is listed in reasons.
+  async checkStackingEligibility(params: {
+    address: string;
+    amount: string;
+    mode?: StackingMode;
+  }): Promise<ToolResult<StackingEligibility>> {
+    try {
+      const { address, amount, mode = 'solo' } = params;
+      const pox = await this.requirePoxInfo();
+      const [balances, delegation] = await Promise.all([
+        this.fetchBalances(address),
+        this.readDelegation(pox.contractId, address),
+      ]);
+
+      const amountMicroSTX = StacksUtils.toMicroSTX(amount);
+      const minAmount = StacksUtils.toMicroSTX(pox.nextCycle.minThreshold);
+      const unlocked = balances.balance - balances.locked;
+      const reasons: string[] = [];
+
+      if (amountMicroSTX <= BigInt(0)) {
+        reasons.push('Amount must be greater than 0');
+      }
+      if (amountMicroSTX > unlocked) {
+        reasons.push(`Unlocked balance of ${this.formatSTX(unlocked.toString())} STX is less than ${amount} STX`);
+      }
+      if (balances.locked > BigInt(0)) {
+        reasons.push(
+          `${this.formatSTX(balances.locked.toString())} STX are already stacked until burn height ${balances.unlockHeight}`
+        );
+      }
+      if (mode === 'solo' && amountMicroSTX < minAmount) {
+        reasons.push(`Solo stacking requires at least ${pox.nextCycle.minThreshold} STX in cycle ${pox.nextCycle.id}`);
+      }
+      if (delegation) {
+        reasons.push(`Already delegated to ${delegation.delegatedTo}; revoke the delegation first`);
+      }
+
+      return {
+        success: true,
+        data: {
+          eligible: reasons.length === 0,
+          reasons,
+          mode,
+          unlockedBalance: this.formatSTX(unlocked.toString()),
+          minAmount: pox.nextCycle.minThreshold,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check stacking eligibility',
+      };
+    }
+  }
+
+  // Locked amount, unlock height and reward cycles of an address, plus its
+  // delegation if it has one
+  async getStackingStatus(address: string): Promise<ToolResult<StackingStatus>> {
+    try {
+      const pox = await this.requirePoxInfo();
+      const [balances, stacker, delegation] = await Promise.all([
+        this.fetchBalances(address),
+        this.readStackerInfo(pox.contractId, address),
+        this.readDelegation(pox.contractId, address),
+      ]);
+
+      const rewardCycles = stacker
+        ? Array.from({ length: stacker.lockPeriod }, (_, i) => stacker.firstRewardCycle + i)
+        : [];
+
+      return {
+        success: true,
+        data: {
+          address,
+          stacking: balances.locked > BigInt(0),
+          lockedAmount: this.formatSTX(balances.locked.toString()),
+          unlockHeight: balances.locked > BigInt(0) ? balances.unlockHeight : undefined,
+          rewardCycles,
+          delegation,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get stacking status',
+      };
+    }
+  }
+
+  async delegateStx(params: DelegateStxParams): Promise<ToolResult<string>> {
+    try {
+      const { signer, delegateTo, amount, fee } = params;
+      const senderAddress = await signer.getAddress();
+      const pox = await this.requirePoxInfo();
+
+      const delegation = await this.readDelegation(pox.contractId, senderAddress);
+      if (delegation) {
+        throw new Error(`Already delegated to ${delegation.delegatedTo}; revoke the delegation first`);
+      }
+
+      return await this.signAndBroadcast(
+        signer,
+        fee,
+        (nonce) => this.buildDelegation(pox.contractId, params, nonce),
+        `Delegated up to ${amount} STX to ${delegateTo}`
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Delegation failed',
+      };
+    }
+  }
+
+  async revokeDelegation(params: RevokeDelegationParams): Promise<ToolResult<string>> {
+    try {
+      const { signer, fee } = params;
+      const senderAddress = await signer.getAddress();
+      const pox = await this.requirePoxInfo();
+
+      const delegation = await this.readDelegation(pox.contractId, senderAddress);
+      if (!delegation) {
+        throw new Error(`${senderAddress} has no active delegation`);
+      }
+
+      return await this.signAndBroadcast(
+        signer,
+        fee,
+        (nonce) => this.buildRevocation(pox.contractId, params, nonce),
+        `Revoked the delegation to ${delegation.delegatedTo}`
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Revoking delegation failed',
+      };
+    }
+  }
+
+  async estimateDelegateStxFee(params: Omit<DelegateStxParams, 'fee'>): Promise<ToolResult<string>> {
+    try {
+      const pox = await this.requirePoxInfo();
+      const nonce = await this.nonceManager.peek(await params.signer.getAddress());
+      const transaction = await this.buildDelegation(pox.contractId, params, nonce);
+
+      return {
+        success: true,
+        data: this.formatSTX((await this.feeEstimator.estimateFee(transaction)).toString()),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to estimate delegation fee',
+      };
+    }
+  }
+
+  async estimateRevokeDelegationFee(params: Omit<RevokeDelegationParams, 'fee'>): Promise<ToolResult<string>> {
+    try {
+      const pox = await this.requirePoxInfo();
+      const nonce = await this.nonceManager.peek(await params.signer.getAddress());
+      const transaction = await this.buildRevocation(pox.contractId, params, nonce);
+
+      return {
+        success: true,
+        data: this.formatSTX((await this.feeEstimator.estimateFee(transaction)).toString()),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to estimate revocation fee',
+      };
+    }
+  }
+
+  private async signAndBroadcast(
+    signer: Signer,
+    fee: string | undefined,
+    build: (nonce: number) => Promise<StacksTransactionWire>,
+    message: string
+  ): Promise<ToolResult<string>> {
+    // Reserve the nonce through the shared manager
+    const senderAddress = await signer.getAddress();
+    return await this.nonceManager.withNonce(senderAddress, async (nonce) => {
+      const unsignedTransaction = await build(nonce);
+      if (!fee) {
+        unsignedTransaction.setFee(await this.feeEstimator.estimateFee(unsignedTransaction));
+      }
+      const transaction = await signer.signTransaction(unsignedTransaction);
+
+      // Broadcast the transaction
+      const broadcastResponse = await broadcastTransaction({
+        transaction,
+        network: this.network,
+      });
+
+      if ('error' in broadcastResponse) {
+        throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+      }
+
+      return {
+        success: true,
+        data: message,
+        transactionId: broadcastResponse.txid,
+      };
+    });
+  }
+
+  // (delegate-stx amount-ustx delegate-to until-burn-ht pox-addr). The pool
+  // chooses the reward address, so pox-addr is left as none.
+  private async buildDelegation(
+    poxContractId: string,
+    params: Omit<DelegateStxParams, 'fee'> & { fee?: string },
+    nonce: number
+  ): Promise<StacksTransactionWire> {
+    const { signer, delegateTo, amount, untilBurnHeight, fee } = params;
+    const amountMicroSTX = StacksUtils.toMicroSTX(amount);
+    if (amountMicroSTX <= BigInt(0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    const [contractAddress, contractName] = StacksUtils.parseContractId(poxContractId);
+    return await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: 'delegate-stx',
+      functionArgs: [
+        uintCV(amountMicroSTX),
+        principalCV(delegateTo),
+        untilBurnHeight !== undefined ? someCV(uintCV(untilBurnHeight)) : noneCV(),
+        noneCV(),
+      ],
+      publicKey: await signer.getPublicKey(),
+      network: this.network,
+      // Delegating moves no assets
+      postConditionMode: PostConditionMode.Deny,
+      nonce: BigInt(nonce),
+      fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+    });
+  }
+
+  private async buildRevocation(
+    poxContractId: string,
+    params: Omit<RevokeDelegationParams, 'fee'> & { fee?: string },
+    nonce: number
+  ): Promise<StacksTransactionWire> {
+    const { signer, fee } = params;
+    const [contractAddress, contractName] = StacksUtils.parseContractId(poxContractId);
+    return await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: 'revoke-delegate-stx',
+      functionArgs: [],
+      publicKey: await signer.getPublicKey(),
+      network: this.network,
+      postConditionMode: PostConditionMode.Deny,
+      nonce: BigInt(nonce),
+      fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+    });
+  }
+
+  private async requirePoxInfo(): Promise<PoxInfo> {
+    const result = await this.getPoxInfo();
+    if (!result.success || !result.data) {
+      throw new Error(result.error);
+    }
+    return result.data;
+  }
+
+  private async fetchBalances(address: string): Promise<{ balance: bigint; locked: bigint; unlockHeight: number }> {
+    const response = await fetch(`${this.network.client.baseUrl}/extended/v1/address/${address}/stx`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch balance: ${response.statusText}`);
+    }
+    const stx = await response.json();
+    return {
+      balance: BigInt(stx.balance || '0'),
+      locked: BigInt(stx.locked || '0'),
+      unlockHeight: stx.burnchain_unlock_height,
+    };
+  }
+
+  // (get-stacker-info stacker) is none unless the address is stacked now
+  private async readStackerInfo(
+    poxContractId: string,
+    address: string
+  ): Promise<{ firstRewardCycle: number; lockPeriod: number } | undefined> {
+    const info = await this.readOptionalTuple(poxContractId, 'get-stacker-info', address);
+    if (!info) {
+      return undefined;
+    }
+    return {
+      firstRewardCycle: Number(cvToValue(info['first-reward-cycle'])),
+      lockPeriod: Number(cvToValue(info['lock-period'])),
+    };
+  }
+
+  // (get-check-delegation stacker) is none once a delegation expired or was revoked
+  private async readDelegation(poxContractId: string, address: string): Promise<StackingDelegation | undefined> {
+    const info = await this.readOptionalTuple(poxContractId, 'get-check-delegation', address);
+    if (!info) {
+      return undefined;
+    }
+    const untilBurnHeight = info['until-burn-ht'];
+    return {
+      delegatedTo: String(cvToValue(info['delegated-to'])),
+      amount: this.formatSTX(String(cvToValue(info['amount-ustx']))),
+      untilBurnHeight:
+        untilBurnHeight.type === ClarityType.OptionalSome ? Number(cvToValue(untilBurnHeight.value)) : undefined,
+    };
+  }
+
+  private async readOptionalTuple(
+    poxContractId: string,
+    functionName: string,
+    address: string
+  ): Promise<Record<string, ClarityValue> | undefined> {
+    const [contractAddress, contractName] = StacksUtils.parseContractId(poxContractId);
+    const result = await fetchCallReadOnlyFunction({
+      contractAddress,
+      contractName,
+      functionName,
+      functionArgs: [principalCV(address)],
+      network: this.network,
+      senderAddress: address,
+    });
+
+    if (result.type !== ClarityType.OptionalSome) {
+      return undefined;
+    }
+    if (result.value.type !== ClarityType.Tuple) {
+      throw new Error(`${poxContractId}::${functionName} returned an unexpected value`);
+    }
+    return result.value.value;
+  }
+
+  private formatSTX(microSTX: string): string {
+    const stx = BigInt(microSTX) / BigInt(1000000);
+    const remainder = BigInt(microSTX) % BigInt(1000000);
+    return `${stx}.${remainder.toString().padStart(6, '0')}`;
+  }
+}
@@ -1,195 +1,231 @@
-import { 
+import {
   broadcastTransaction,
-  AnchorMode,
   PostConditionMode,
-  makeContractCall,
-  PostCondition,
-  uintCV,
-  standardPrincipalCV,
-  getAddressFromPrivateKey,
-  serializeCV
+  makeUnsignedContractCall,
+  StacksTransactionWire,
 } from '@stacks/transactions';
-import { StacksNetwork, TransactionVersion } from '@stacks/network';
-import { SwapParams, SwapQuote, ToolResult } from '../types/index';
-
-// Constants for xBTC contract on testnet
-const XBTC_CONTRACT_ADDRESS = 'ST29E61D211DD0HB0S0JSKZ05X0DSAJS5G5QSTXDX';
-const XBTC_CONTRACT_NAME = 'token-wbtc';
-const XBTC_ASSET_NAME = 'wbtc';
-
-// Constants for Alex Swap contract on testnet
-const ALEX_SWAP_CONTRACT_ADDRESS = 'ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE';
-const ALEX_SWAP_CONTRACT_NAME = 'swap-helper-v1-03';
+import { StacksNetwork } from '@stacks/network';
+import { SwapDryRun, SwapParams, SwapQuote, SwapQuoteParams, ToolResult } from '../types/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
+import { SwapRouter, RoutedQuote, DexQuote, applySlippage, STX } from '../swap/index';
+import { formatUnits, parseUnits } from './fungible-token';
+
+const DEFAULT_SLIPPAGE_TOLERANCE = 0.5;
+
+// A routed quote with the DEX and minimum output picked. Passing it back to
+// swap builds the swap from the quote that was checked instead of quoting
+// again.
+export interface PlannedSwap {
+  routed: RoutedQuote;
+  best: DexQuote;
+  minimumOut: bigint;
+  quote: SwapQuote;
+}
 
+// Swaps any token pair on the DEX with the best quote (see SwapRouter)
 export class StacksSwapTool {
   private network: StacksNetwork;
-
-  constructor(network: StacksNetwork) {
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+  private router: SwapRouter;
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network),
+    router: SwapRouter = new SwapRouter(network)
+  ) {
     this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
+    this.router = router;
+  }
+
+  async getSwapQuote(params: SwapQuoteParams): Promise<ToolResult<SwapQuote>> {
+    const plan = await this.planSwap(params);
+    return plan.success && plan.data ? { success: true, data: plan.data.quote } : { success: false, error: plan.error };
   }
 
-  async getSwapQuote(params: SwapParams): Promise<ToolResult<SwapQuote>> {
+  // Quote once and pick the DEX and minimum output the swap will use
+  async planSwap(params: SwapQuoteParams): Promise<ToolResult<PlannedSwap>> {
     try {
-      const { amount } = params;
-      const microSTXAmount = this.parseSTX(amount);
-
-      // Call the Alex contract to get quote
-      const senderAddress = this.getAddressFromPrivateKey(params.fromPrivateKey);
-      console.log('Sender address:', senderAddress);
-      console.log('Network base URL:', this.network.client.baseUrl);
-      
-      // Convert arguments to hex format
-      const args = [
-        uintCV(microSTXAmount),
-        standardPrincipalCV(XBTC_CONTRACT_ADDRESS),
-        standardPrincipalCV(senderAddress)
-      ];
-      
-      const requestBody = {
-        sender: senderAddress,
-        arguments: args.map(arg => serializeCV(arg))
+      return { success: true, data: await this.plan(params) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get swap quote',
       };
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-      
-      const url = `https://api.testnet.hiro.so/v2/contracts/call-read/${ALEX_SWAP_CONTRACT_ADDRESS}/${ALEX_SWAP_CONTRACT_NAME}/get-stx-to-token-out`;
-      console.log('Request URL:', url);
-      
-      const quoteResponse = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+    }
+  }
 
-      const responseText = await quoteResponse.text();
-      console.log('Response status:', quoteResponse.status);
-      console.log('Response text:', responseText);
+  async swap(params: SwapParams, plan?: PlannedSwap): Promise<ToolResult<string>> {
+    try {
+      const { signer } = params;
+      this.router.supportedAdapters(params.dex);
+
+      // Reserve the nonce through the shared manager
+      const senderAddress = await signer.getAddress();
+      return await this.nonceManager.withNonce(senderAddress, async (nonce) => {
+        const { transaction, quote } = await this.signSwap(params, nonce, plan);
+
+        // Broadcast the transaction
+        const broadcastResponse = await broadcastTransaction({
+          transaction,
+          network: this.network,
+        });
+
+        if ('error' in broadcastResponse) {
+          throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+        }
 
-      if (!quoteResponse.ok) {
-        throw new Error(`Failed to get quote: ${quoteResponse.statusText} - ${responseText}`);
-      }
+        return {
+          success: true,
+          data: `Swapping ${quote.amountIn} ${quote.route[0]} for at least ${quote.minimumOutput} ${quote.route[1]} on ${quote.dex}`,
+          transactionId: broadcastResponse.txid,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Swap failed',
+      };
+    }
+  }
 
-      const quoteData = JSON.parse(responseText);
-      
-      // Calculate minimum output based on slippage tolerance
-      const slippageTolerance = params.slippageTolerance || 0.5;
-      const expectedOutput = quoteData.expectedOutput;
-      const minimumOutput = Math.floor(
-        Number(expectedOutput) * (1 - slippageTolerance / 100)
-      ).toString();
+  // Everything swap does except signing and the broadcast, so nothing
+  // returned can be sent without going through swap
+  async dryRunSwap(params: SwapParams): Promise<ToolResult<SwapDryRun>> {
+    try {
+      this.router.supportedAdapters(params.dex);
+      const nonce = await this.nonceManager.peek(await params.signer.getAddress());
+      const { transaction, quote } = await this.buildSwap(params, nonce);
+      if (!params.fee) {
+        transaction.setFee(await this.feeEstimator.estimateFee(transaction));
+      }
 
       return {
         success: true,
         data: {
-          expectedOutput: this.formatSTX(expectedOutput),
-          minimumOutput: this.formatSTX(minimumOutput),
-          fee: this.formatSTX(quoteData.fee),
-          priceImpact: quoteData.priceImpact,
-          route: ['STX', 'xBTC'],
+          quote,
+          unsignedTransactionHex: transaction.serialize(),
+          nonce,
+          fee: StacksUtils.formatSTX(transaction.auth.spendingCondition.fee.toString()),
+          postConditions: [
+            `Sender sends exactly ${quote.amountIn} ${quote.route[0]}`,
+            `${quote.dex} sends at least ${quote.minimumOutput} ${quote.route[1]}`,
+          ],
         },
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to get swap quote',
+        error: error instanceof Error ? error.message : 'Swap dry run failed',
       };
     }
   }
 
-  async swapSTXForXBTC(params: SwapParams): Promise<ToolResult<string>> {
+  async estimateSwapFee(params: Omit<SwapParams, 'fee'>, plan?: PlannedSwap): Promise<ToolResult<string>> {
     try {
-      const { fromPrivateKey, amount, slippageTolerance = 0.5, fee } = params;
-      
-      // Get quote first
-      const quote = await this.getSwapQuote(params);
-      if (!quote.success || !quote.data) {
-        throw new Error('Failed to get swap quote');
-      }
-
-      const microSTXAmount = this.parseSTX(amount);
-      const senderAddress = this.getAddressFromPrivateKey(fromPrivateKey);
-      
-      // Get current nonce
-      const accountResponse = await fetch(
-        `${this.network.client.baseUrl}/v2/accounts/${senderAddress}`
-      );
-      if (!accountResponse.ok) {
-        throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-      }
-      const accountInfo = await accountResponse.json();
-      const nonce = parseInt(accountInfo.nonce || '0');
-
-      // Create post conditions to ensure the swap meets requirements
-      const postConditions = [
-        {
-          type: 'stx-postcondition',
-          address: senderAddress,
-          condition: 'eq',
-          amount: BigInt(microSTXAmount)
-        }
-      ] as PostCondition[];
-
-      // Create the swap transaction
-      const txOptions = {
-        contractAddress: ALEX_SWAP_CONTRACT_ADDRESS,
-        contractName: ALEX_SWAP_CONTRACT_NAME,
-        functionName: 'swap-stx-for-xbtc',
-        functionArgs: [
-          uintCV(microSTXAmount),
-          uintCV(this.parseSTX(quote.data.minimumOutput)),
-          standardPrincipalCV(senderAddress),
-          standardPrincipalCV(XBTC_CONTRACT_ADDRESS)
-        ],
-        senderKey: fromPrivateKey,
-        validateWithAbi: true,
-        network: this.network,
-        postConditions,
-        postConditionMode: PostConditionMode.Deny,
-        anchorMode: AnchorMode.Any,
-        nonce,
-        fee: fee ? this.parseSTX(fee) : undefined
-      };
-
-      const transaction = await makeContractCall(txOptions);
-
-      // Broadcast the transaction
-      const broadcastResponse = await broadcastTransaction({
-        transaction,
-        network: this.network,
-      });
-
-      if ('error' in broadcastResponse) {
-        throw new Error(`Transaction failed: ${broadcastResponse.error}`);
-      }
+      this.router.supportedAdapters(params.dex);
+      const nonce = await this.nonceManager.peek(await params.signer.getAddress());
+      const { transaction } = await this.buildSwap(params, nonce, plan);
+      const fee = (await this.feeEstimator.estimateFee(transaction)).toString();
 
       return {
         success: true,
-        data: 'Swap transaction submitted successfully',
-        transactionId: broadcastResponse.txid,
+        data: StacksUtils.formatSTX(fee),
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Swap failed',
+        error: error instanceof Error ? error.message : 'Failed to estimate swap fee',
       };
     }
   }
 
-  private parseSTX(stx: string): string {
-    const [whole, decimal = '0'] = stx.split('.');
-    const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
-    return `${whole}${paddedDecimal}`;
+  // An explicit minimum output (e.g. one the user approved) replaces the
+  // slippage tolerance, and a quote below it fails instead of lowering it
+  private async plan(params: SwapQuoteParams): Promise<PlannedSwap> {
+    const { tokenIn = STX, tokenOut, amount, dex, slippageTolerance = DEFAULT_SLIPPAGE_TOLERANCE, minimumOutput } = params;
+    const routed = await this.router.quote(tokenIn, tokenOut, amount, dex);
+    const best = routed.quotes[0];
+    const minimumOut = minimumOutput
+      ? parseUnits(minimumOutput, routed.tokenOut.decimals)
+      : applySlippage(best.amountOut, slippageTolerance);
+    if (best.amountOut < minimumOut) {
+      const { symbol, decimals } = routed.tokenOut;
+      throw new Error(
+        `${best.dex} now quotes ${formatUnits(best.amountOut, decimals)} ${symbol}, below the minimum output of ${minimumOutput} ${symbol}`
+      );
+    }
+    return { routed, best, minimumOut, quote: this.toSwapQuote(routed, best, minimumOut) };
+  }
+
+  private async signSwap(
+    params: SwapParams,
+    nonce: number,
+    plan?: PlannedSwap
+  ): Promise<{ transaction: StacksTransactionWire; quote: SwapQuote }> {
+    const { transaction, quote } = await this.buildSwap(params, nonce, plan);
+    if (!params.fee) {
+      transaction.setFee(await this.feeEstimator.estimateFee(transaction));
+    }
+    return { transaction: await params.signer.signTransaction(transaction), quote };
   }
 
-  private formatSTX(microSTX: string): string {
-    const stx = BigInt(microSTX) / BigInt(1000000);
-    const remainder = BigInt(microSTX) % BigInt(1000000);
-    return `${stx}.${remainder.toString().padStart(6, '0')}`;
+  // Build the call on the planned DEX with post-conditions on both legs,
+  // quoting first when no plan is given
+  private async buildSwap(
+    params: Omit<SwapParams, 'fee'> & { fee?: string },
+    nonce: number,
+    plan?: PlannedSwap
+  ): Promise<{ transaction: StacksTransactionWire; quote: SwapQuote }> {
+    const { signer, fee } = params;
+    const senderAddress = await signer.getAddress();
+
+    const { routed, best, minimumOut, quote } = plan ?? (await this.plan(params));
+    const { call, postConditions } = this.router.prepare(routed, best, minimumOut, senderAddress);
+    const [contractAddress, contractName] = StacksUtils.parseContractId(call.contractId);
+
+    const transaction = await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      publicKey: await signer.getPublicKey(),
+      network: this.network,
+      postConditions,
+      postConditionMode: PostConditionMode.Deny,
+      nonce: BigInt(nonce),
+      fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+    });
+
+    return { transaction, quote };
   }
 
-  private getAddressFromPrivateKey(privateKey: string): string {
-    // Use testnet for now since we're testing
-    return getAddressFromPrivateKey(privateKey, "testnet");
+  private toSwapQuote(routed: RoutedQuote, quote: DexQuote, minimumOut: bigint): SwapQuote {
+    const { tokenIn, tokenOut } = routed;
+    const call = quote.buildCall(minimumOut);
+
+    return {
+      dex: quote.dex,
+      tokenIn: tokenIn.contractId,
+      tokenOut: tokenOut.contractId,
+      amountIn: formatUnits(quote.amountIn, tokenIn.decimals),
+      expectedOutput: formatUnits(quote.amountOut, tokenOut.decimals),
+      minimumOutput: formatUnits(minimumOut, tokenOut.decimals),
+      fee: quote.fee !== undefined ? formatUnits(quote.fee, tokenIn.decimals) : undefined,
+      priceImpact: quote.priceImpact !== undefined ? quote.priceImpact.toFixed(2) : undefined,
+      route: [tokenIn.symbol, tokenOut.symbol],
+      contract: `${call.contractId}::${call.functionName}`,
+      alternatives: routed.quotes
+        .filter((alternative) => alternative !== quote)
+        .map((alternative) => ({
+          dex: alternative.dex,
+          expectedOutput: formatUnits(alternative.amountOut, tokenOut.decimals),
+        })),
+    };
   }
 }
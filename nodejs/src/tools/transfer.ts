@@ -1,23 +1,34 @@
 import { 
-  makeSTXTokenTransfer, 
+  makeUnsignedSTXTokenTransfer, 
   broadcastTransaction, 
   AnchorMode,
   PostConditionMode,
 } from '@stacks/transactions';
 import { StacksNetwork } from '@stacks/network';
 import { TransferParams, ToolResult } from '../types/index';
+import { NonceManager } from '../nonce/index';
+import { FeeEstimator } from '../fees/index';
+import { StacksUtils } from '../utils/index';
 
 export class StacksTransferTool {
   private network: StacksNetwork;
-
-  constructor(network: StacksNetwork) {
+  private nonceManager: NonceManager;
+  private feeEstimator: FeeEstimator;
+
+  constructor(
+    network: StacksNetwork,
+    nonceManager: NonceManager = new NonceManager(network),
+    feeEstimator: FeeEstimator = new FeeEstimator(network)
+  ) {
     this.network = network;
+    this.nonceManager = nonceManager;
+    this.feeEstimator = feeEstimator;
   }
 
   async transferSTX(params: TransferParams): Promise<ToolResult<string>> {
     try {
       const { 
-        fromPrivateKey, 
+        signer, 
         toAddress, 
         amount, 
         memo = '', 
@@ -25,47 +36,47 @@ export class StacksTransferTool {
       } = params;
 
       // Convert STX amount to microSTX
-      const microSTXAmount = this.parseSTX(amount);
+      const microSTXAmount = StacksUtils.toMicroSTX(amount);
       
-      // Get current account info for nonce
-      const senderAddress = this.getAddressFromPrivateKey(fromPrivateKey);
-      const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
-      if (!accountResponse.ok) {
-        throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-      }
-      const accountInfo = await accountResponse.json();
-      const nonce = parseInt(accountInfo.nonce || '0');
+      // Reserve the nonce through the shared manager so back-to-back
+      // transactions from the same account do not collide
+      const senderAddress = await signer.getAddress();
+      return await this.nonceManager.withNonce(senderAddress, async (nonce) => {
+        // Create the transaction
+        const txOptions = {
+          recipient: toAddress,
+          amount: BigInt(microSTXAmount),
+          publicKey: await signer.getPublicKey(),
+          network: this.network,
+          memo: memo,
+          nonce: BigInt(nonce),
+          fee: fee ? StacksUtils.toMicroSTX(fee) : BigInt(0),
+          anchorMode: AnchorMode.Any,
+          postConditionMode: PostConditionMode.Deny,
+        };
 
-      // Create the transaction
-      const txOptions = {
-        recipient: toAddress,
-        amount: BigInt(microSTXAmount),
-        senderKey: fromPrivateKey,
-        network: this.network,
-        memo: memo,
-        nonce: BigInt(nonce),
-        fee: fee ? BigInt(this.parseSTX(fee)) : undefined,
-        anchorMode: AnchorMode.Any,
-        postConditionMode: PostConditionMode.Deny,
-      };
+        const unsignedTransaction = await makeUnsignedSTXTokenTransfer(txOptions);
+        if (!fee) {
+          unsignedTransaction.setFee(await this.feeEstimator.estimateFee(unsignedTransaction));
+        }
+        const transaction = await signer.signTransaction(unsignedTransaction);
 
-      const transaction = await makeSTXTokenTransfer(txOptions);
+        // Broadcast the transaction
+        const broadcastResponse = await broadcastTransaction({
+          transaction,
+          network: this.network,
+        });
 
-      // Broadcast the transaction
-      const broadcastResponse = await broadcastTransaction({
-        transaction,
-        network: this.network,
-      });
-      
-      if ('error' in broadcastResponse) {
-        throw new Error(`Transaction failed: ${broadcastResponse.error}`);
-      }
+        if ('error' in broadcastResponse) {
+          throw new Error(`Transaction failed: ${broadcastResponse.error} (${broadcastResponse.reason})`);
+        }
 
-      return {
-        success: true,
-        data: 'Transaction submitted successfully',
-        transactionId: broadcastResponse.txid,
-      };
+        return {
+          success: true,
+          data: 'Transaction submitted successfully',
+          transactionId: broadcastResponse.txid,
+        };
+      });
     } catch (error) {
       return {
         success: false,
@@ -76,31 +87,26 @@ export class StacksTransferTool {
 
   async estimateTransferFee(params: Omit<TransferParams, 'fee'>): Promise<ToolResult<string>> {
     try {
-      const { fromPrivateKey, toAddress, amount, memo = '' } = params;
+      const { signer, toAddress, amount, memo = '' } = params;
       
-      // Create a test transaction to estimate fee
-      const microSTXAmount = this.parseSTX(amount);
-      const senderAddress = this.getAddressFromPrivateKey(fromPrivateKey);
-      const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
-      if (!accountResponse.ok) {
-        throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
-      }
-      const accountInfo = await accountResponse.json();
-      const nonce = parseInt(accountInfo.nonce || '0');
+      // Build an unsigned transaction to estimate the fee
+      const microSTXAmount = StacksUtils.toMicroSTX(amount);
+      const nonce = await this.nonceManager.peek(await signer.getAddress());
 
       const txOptions = {
         recipient: toAddress,
         amount: BigInt(microSTXAmount),
-        senderKey: fromPrivateKey,
+        publicKey: await signer.getPublicKey(),
         network: this.network,
         memo: memo,
         nonce: BigInt(nonce),
+        fee: BigInt(0),
         anchorMode: AnchorMode.Any,
         postConditionMode: PostConditionMode.Deny,
       };
 
-      const transaction = await makeSTXTokenTransfer(txOptions);
-      const fee = transaction.auth.spendingCondition?.fee?.toString() || '0';
+      const transaction = await makeUnsignedSTXTokenTransfer(txOptions);
+      const fee = (await this.feeEstimator.estimateFee(transaction)).toString();
 
       return {
         success: true,
@@ -116,17 +122,17 @@ export class StacksTransferTool {
 
   async validateTransfer(params: TransferParams): Promise<ToolResult<boolean>> {
     try {
-      const { fromPrivateKey, toAddress, amount } = params;
+      const { signer, toAddress, amount } = params;
       
       // Check if sender has sufficient balance
-      const senderAddress = this.getAddressFromPrivateKey(fromPrivateKey);
+      const senderAddress = await signer.getAddress();
       const accountResponse = await fetch(`${this.network.client.baseUrl}/v2/accounts/${senderAddress}`);
       if (!accountResponse.ok) {
         throw new Error(`Failed to fetch account: ${accountResponse.statusText}`);
       }
       const accountInfo = await accountResponse.json();
       const currentBalance = BigInt(accountInfo.balance || '0');
-      const transferAmount = BigInt(this.parseSTX(amount));
+      const transferAmount = StacksUtils.toMicroSTX(amount);
       
       // Estimate fee
       const feeEstimate = await this.estimateTransferFee(params);
@@ -137,7 +143,7 @@ export class StacksTransferTool {
         };
       }
       
-      const estimatedFee = BigInt(this.parseSTX(feeEstimate.data!));
+      const estimatedFee = StacksUtils.toMicroSTX(feeEstimate.data!);
       const totalRequired = transferAmount + estimatedFee;
 
       if (currentBalance < totalRequired) {
@@ -167,39 +173,12 @@ export class StacksTransferTool {
     }
   }
 
-  private parseSTX(stx: string | bigint | number): bigint {
-    // If it's already a BigInt, return it
-    if (typeof stx === 'bigint') {
-      return stx;
-    }
-    // If it's a number, convert it to BigInt
-    if (typeof stx === 'number') {
-      return BigInt(Math.floor(stx * 1_000_000));
-    }
-    // If it's a string without a decimal point, assume it's already in microSTX
-    if (!stx.includes('.')) {
-      return BigInt(stx);
-    }
-    // Otherwise, convert from STX to microSTX
-    const [whole, decimal = '0'] = stx.split('.');
-    const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
-    return BigInt(`${whole}${paddedDecimal}`);
-  }
-
   private formatSTX(microSTX: string): string {
     const stx = BigInt(microSTX) / BigInt(1000000);
     const remainder = BigInt(microSTX) % BigInt(1000000);
     return `${stx}.${remainder.toString().padStart(6, '0')}`;
   }
 
-  private getAddressFromPrivateKey(privateKey: string): string {
-    // This is a simplified version - in production you'd use proper key derivation
-    // For now, we'll assume the private key is provided with the address
-    // In a real implementation, you'd derive the address from the private key
-    // For this example, we'll return a placeholder that will cause validation to fail gracefully
-    return 'SP000000000000000000002Q6VF78'; // Placeholder address
-  }
-
   private isValidAddress(address: string): boolean {
     // Basic Stacks address validation
     return /^[SM][0-9A-Z]{40}$/.test(address);
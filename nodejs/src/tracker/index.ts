@@ -0,0 +1,3 @@
+// Transaction tracking exports
+export { TransactionTracker, toTransactionInfo } from './transaction-tracker';
+export type { TransactionTrackerOptions, WaitForConfirmationOptions } from './transaction-tracker';
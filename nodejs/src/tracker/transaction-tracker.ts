@@ -0,0 +1,297 @@
+import { EventEmitter } from 'events';
+import { StacksNetwork } from '@stacks/network';
+import { TransactionInfo, TransactionStatus, TransactionStatusEvent } from '../types/index';
+
+export interface TransactionTrackerOptions {
+  pollInterval?: number; // ms between status checks (default 10s)
+  // Extended API websocket endpoint, e.g. "wss://api.testnet.hiro.so/".
+  // Updates trigger an immediate status check; polling continues as a fallback.
+  websocketUrl?: string;
+  // ms the API may go without knowing a transaction before it is reported
+  // "not_found" (default 60s, under get_transaction_status's 120s timeout)
+  notFoundAfter?: number;
+}
+
+export interface WaitForConfirmationOptions {
+  timeout?: number; // ms (default 10 minutes)
+  confirmations?: number; // blocks required, including the confirming one (default 1)
+}
+
+// Statuses after which a transaction is no longer followed
+const FINAL_STATUSES: TransactionStatus[] = ['abort_by_response', 'abort_by_post_condition', 'dropped', 'not_found'];
+
+// Map an Extended API transaction (mempool or confirmed) to TransactionInfo
+export function toTransactionInfo(tx: any): TransactionInfo {
+  return {
+    txId: tx.tx_id,
+    type: tx.tx_type,
+    amount: tx.token_transfer?.amount || tx.stx_transfers?.[0]?.amount,
+    from: tx.sender_address,
+    to: tx.token_transfer?.recipient_address || tx.stx_transfers?.[0]?.recipient_address,
+    fee: tx.fee_rate,
+    status: toTransactionStatus(tx),
+    timestamp: tx.burn_block_time || tx.receipt_time,
+    blockHeight: tx.block_height,
+    result: tx.tx_result?.repr,
+  };
+}
+
+// A transaction the API has no record of
+function unknownTransaction(txId: string, status: TransactionStatus): TransactionInfo {
+  return { txId, type: 'unknown', fee: '0', status, timestamp: 0 };
+}
+
+function normalizeTxId(txId: string): string {
+  return txId.startsWith('0x') ? txId : `0x${txId}`;
+}
+
+function toTransactionStatus(tx: any): TransactionStatus {
+  const status: string = tx.tx_status;
+  if (status.startsWith('dropped')) {
+    return 'dropped';
+  }
+  if (status === 'abort_by_response' || status === 'abort_by_post_condition') {
+    // A result on a non-canonical fork may still be mined differently
+    return tx.canonical === false ? 'pending' : status;
+  }
+  if (status === 'success') {
+    if (tx.canonical === false) {
+      return 'pending';
+    }
+    return tx.is_unanchored ? 'microblock' : 'confirmed';
+  }
+  return 'pending';
+}
+
+// Follows broadcast transactions until they confirm, abort, are dropped or
+// are never found.
+// Emits "status" with a TransactionStatusEvent on every change, and the same
+// event under the status name ("confirmed", "dropped", ...).
+export class TransactionTracker extends EventEmitter {
+  private network: StacksNetwork;
+  private pollInterval: number;
+  private websocketUrl?: string;
+  private notFoundAfter: number;
+  private socket?: WebSocket;
+  private statuses = new Map<string, TransactionStatus>();
+  private timers = new Map<string, ReturnType<typeof setTimeout> | undefined>();
+  private polling = new Set<string>(); // txids with a poll in flight
+  private missingSince = new Map<string, number>(); // when a check first found nothing
+
+  constructor(network: StacksNetwork, options: TransactionTrackerOptions = {}) {
+    super();
+    this.network = network;
+    this.pollInterval = options.pollInterval ?? 10_000;
+    this.websocketUrl = options.websocketUrl;
+    this.notFoundAfter = options.notFoundAfter ?? 60_000;
+  }
+
+  // Current status. A transaction the API does not know yet is "pending".
+  async getStatus(txId: string): Promise<TransactionInfo> {
+    const id = normalizeTxId(txId);
+    return (await this.fetchStatus(id)) ?? unknownTransaction(id, 'pending');
+  }
+
+  // Undefined while the API does not know the transaction
+  private async fetchStatus(txId: string): Promise<TransactionInfo | undefined> {
+    const response = await fetch(`${this.network.client.baseUrl}/extended/v1/tx/${txId}`);
+
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transaction: ${response.statusText}`);
+    }
+
+    const transaction = toTransactionInfo(await response.json());
+    if (transaction.status === 'confirmed' && transaction.blockHeight !== undefined) {
+      transaction.confirmations = (await this.getTipHeight()) - transaction.blockHeight + 1;
+    }
+    return transaction;
+  }
+
+  // Poll a transaction in the background and emit status events until it
+  // confirms or reaches a final status. Background polling does not keep the
+  // process alive.
+  track(txId: string): void {
+    txId = normalizeTxId(txId);
+    if (this.timers.has(txId)) {
+      return;
+    }
+    this.timers.set(txId, undefined);
+    this.subscribe(txId);
+    void this.poll(txId);
+  }
+
+  untrack(txId: string): void {
+    txId = normalizeTxId(txId);
+    clearTimeout(this.timers.get(txId));
+    this.timers.delete(txId);
+    this.statuses.delete(txId);
+    this.missingSince.delete(txId);
+  }
+
+  // Resolves once the transaction has the requested confirmations, or with
+  // its final status if it aborts, is dropped or is not found. Rejects on
+  // timeout.
+  async waitForConfirmation(txId: string, options: WaitForConfirmationOptions = {}): Promise<TransactionInfo> {
+    const { timeout = 600_000, confirmations = 1 } = options;
+    txId = normalizeTxId(txId);
+    const deadline = Date.now() + timeout;
+    let transaction: TransactionInfo | undefined;
+
+    while (true) {
+      try {
+        transaction = await this.check(txId);
+        this.update(txId, transaction);
+
+        const confirmed =
+          transaction.status === 'confirmed' && (transaction.confirmations ?? 0) >= confirmations;
+        if (confirmed || FINAL_STATUSES.includes(transaction.status)) {
+          this.forget(txId);
+          return transaction;
+        }
+      } catch {
+        // Transient API errors are retried until the timeout
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        this.forget(txId);
+        throw new Error(
+          `Timed out after ${timeout}ms waiting for ${txId} to confirm (last status: ${transaction?.status ?? 'unknown'})`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(this.pollInterval, remaining)));
+    }
+  }
+
+  // Stop all background polling and close the websocket
+  stop(): void {
+    Array.from(this.timers.keys()).forEach((txId) => this.untrack(txId));
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  // The current status, or "not_found" once every check for notFoundAfter ms
+  // has found nothing
+  private async check(txId: string): Promise<TransactionInfo> {
+    const transaction = await this.fetchStatus(txId);
+    if (transaction) {
+      this.missingSince.delete(txId);
+      return transaction;
+    }
+
+    const since = this.missingSince.get(txId) ?? Date.now();
+    this.missingSince.set(txId, since);
+    return unknownTransaction(txId, Date.now() - since >= this.notFoundAfter ? 'not_found' : 'pending');
+  }
+
+  private async poll(txId: string): Promise<void> {
+    // A notification during a poll must not start a second poll chain
+    if (!this.timers.has(txId) || this.polling.has(txId)) {
+      return;
+    }
+    clearTimeout(this.timers.get(txId));
+    this.polling.add(txId);
+
+    try {
+      const transaction = await this.check(txId);
+      this.update(txId, transaction);
+      if (transaction.status === 'confirmed' || FINAL_STATUSES.includes(transaction.status)) {
+        this.untrack(txId);
+        return;
+      }
+    } catch {
+      // Retried on the next poll
+    } finally {
+      this.polling.delete(txId);
+    }
+
+    if (this.timers.has(txId)) {
+      const timer = setTimeout(() => this.poll(txId), this.pollInterval);
+      timer.unref?.();
+      this.timers.set(txId, timer);
+    }
+  }
+
+  private update(txId: string, transaction: TransactionInfo): void {
+    const previousStatus = this.statuses.get(txId);
+    if (previousStatus === transaction.status) {
+      return;
+    }
+    this.statuses.set(txId, transaction.status);
+
+    const event: TransactionStatusEvent = { txId, status: transaction.status, previousStatus, transaction };
+    this.emit('status', event);
+    this.emit(transaction.status, event);
+  }
+
+  // Drop the last seen status of a transaction that is not tracked
+  private forget(txId: string): void {
+    if (!this.timers.has(txId)) {
+      this.statuses.delete(txId);
+      this.missingSince.delete(txId);
+    }
+  }
+
+  private async getTipHeight(): Promise<number> {
+    const response = await fetch(`${this.network.client.baseUrl}/v2/info`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch chain tip: ${response.statusText}`);
+    }
+    const info = await response.json();
+    return info.stacks_tip_height;
+  }
+
+  // Ask the websocket API for tx_update notifications; each one triggers an
+  // immediate status check
+  private subscribe(txId: string): void {
+    const socket = this.connect();
+    if (!socket) {
+      return;
+    }
+
+    const send = () =>
+      socket.send(
+        JSON.stringify({ jsonrpc: '2.0', id: txId, method: 'subscribe', params: { event: 'tx_update', tx_id: txId } })
+      );
+    if (socket.readyState === WebSocket.OPEN) {
+      send();
+    } else {
+      socket.addEventListener('open', send, { once: true });
+    }
+  }
+
+  private connect(): WebSocket | undefined {
+    if (!this.websocketUrl || this.socket) {
+      return this.socket;
+    }
+    if (typeof WebSocket === 'undefined') {
+      console.warn('WebSocket is not available in this runtime; tracking transactions by polling only');
+      this.websocketUrl = undefined;
+      return undefined;
+    }
+
+    const socket = new WebSocket(this.websocketUrl);
+    socket.addEventListener('message', (message) => {
+      try {
+        const notification = JSON.parse(String(message.data));
+        const txId = notification.params?.tx_id;
+        if (notification.method === 'tx_update' && this.timers.has(txId)) {
+          void this.poll(txId);
+        }
+      } catch {
+        // Ignore malformed notifications
+      }
+    });
+    socket.addEventListener('close', () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+
+    this.socket = socket;
+    return socket;
+  }
+}
@@ -1,3 +1,11 @@
+import type { LLMProvider } from '../llm/provider';
+import type { Signer } from '../signers/signer';
+import type { KeystoreStorage } from '../keystore/storage';
+import type { DexAdapter } from '../swap/dex-adapter';
+import type { PostConditionSpec } from '../postconditions/post-condition-builder';
+import type { CallSimulator } from '../simulation/call-simulator';
+import type { ClarityJSON } from '../clarity/cv-decoder';
+
 export interface WalletInfo {
   address: string;
   balance: string;
@@ -5,26 +13,174 @@ export interface WalletInfo {
   nonce: number;
 }
 
+// Lifecycle of a broadcast transaction. "microblock" means included in an
+// unanchored microblock but not yet in an anchored block; "not_found" means
+// the API never knew it, e.g. because the broadcast did not reach a node.
+export type TransactionStatus =
+  | "pending"
+  | "microblock"
+  | "confirmed"
+  | "abort_by_response"
+  | "abort_by_post_condition"
+  | "dropped"
+  | "not_found";
+
 export interface TransactionInfo {
   txId: string;
   type: string;
   amount?: string;
   from?: string;
+  fromName?: string; // BNS name of the sender, when it has one
   to?: string;
+  toName?: string; // BNS name of the recipient, when it has one
   fee: string;
-  status: "pending" | "success" | "failed";
+  status: TransactionStatus;
   timestamp: number;
   blockHeight?: number;
+  confirmations?: number; // blocks on top of (and including) the confirming block
+  result?: string; // Clarity repr of the transaction result, once executed
+}
+
+export interface TransactionStatusEvent {
+  txId: string;
+  status: TransactionStatus;
+  previousStatus?: TransactionStatus;
+  transaction: TransactionInfo;
 }
 
 export interface TransferParams {
-  fromPrivateKey: string;
+  signer: Signer;
   toAddress: string;
-  amount: string | bigint | number; // in microSTX (1 STX = 1,000,000 microSTX)
+  amount: string | bigint | number; // STX as a string or number (e.g. "1.5"), microSTX as a bigint
   memo?: string;
   fee?: string; // optional fee override
 }
 
+// SIP-010 fungible tokens. Contracts are identified as "address.contract-name".
+export interface TokenMetadata {
+  contractId: string;
+  assetName: string; // the define-fungible-token name, used in post-conditions
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface TokenBalance {
+  contractId: string;
+  assetName: string;
+  balance: string; // in base units
+  formattedBalance?: string; // scaled by decimals, when the metadata resolved
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+}
+
+export interface TokenTransferParams {
+  signer: Signer;
+  contractId: string;
+  recipient: string;
+  amount: string; // in whole tokens (e.g. "12.5"), scaled by the token's decimals
+  memo?: string;
+  fee?: string; // STX
+}
+
+// SIP-009 non-fungible tokens
+export interface NFTHolding {
+  contractId: string;
+  assetName: string; // the define-non-fungible-token name, used in post-conditions
+  tokenId: string; // Clarity repr of the token id, e.g. "u42"
+  tokenUri?: string; // from get-token-uri, for uint ids
+  metadata?: Record<string, any>; // JSON behind the token URI, when it could be fetched
+}
+
+export interface NFTTransferParams {
+  signer: Signer;
+  contractId: string;
+  tokenId: string; // uint id, e.g. "42" or "u42"
+  recipient: string;
+  fee?: string; // STX
+}
+
+// Stacking (PoX) types. Amounts are in STX; heights are Bitcoin (burn) block heights.
+export interface PoxCycleInfo {
+  id: number;
+  minThreshold: string; // minimum to stack solo in this cycle
+  stacked: string;
+}
+
+export interface PoxInfo {
+  contractId: string; // active PoX contract, e.g. "SP000000000000000000002Q6VF78.pox-4"
+  currentBurnHeight: number;
+  rewardCycleLength: number; // in burn blocks
+  prepareCycleLength: number;
+  currentCycle: PoxCycleInfo & { isPoxActive: boolean };
+  nextCycle: PoxCycleInfo & {
+    rewardPhaseStartHeight: number;
+    blocksUntilRewardPhase: number;
+    blocksUntilPreparePhase: number;
+  };
+}
+
+export type StackingMode = "solo" | "delegate";
+
+export interface StackingEligibility {
+  eligible: boolean;
+  reasons: string[]; // why not; empty when eligible
+  mode: StackingMode;
+  unlockedBalance: string;
+  minAmount: string; // the next cycle's threshold for solo stacking
+}
+
+export interface StackingDelegation {
+  delegatedTo: string;
+  amount: string; // the most the pool may lock
+  untilBurnHeight?: number; // none means until revoked
+}
+
+export interface StackingStatus {
+  address: string;
+  stacking: boolean;
+  lockedAmount: string;
+  unlockHeight?: number;
+  rewardCycles: number[]; // cycles the locked STX earn rewards in
+  delegation?: StackingDelegation;
+}
+
+export interface DelegateStxParams {
+  signer: Signer;
+  delegateTo: string; // pool operator address or pool contract
+  amount: string; // STX
+  untilBurnHeight?: number;
+  fee?: string;
+}
+
+export interface RevokeDelegationParams {
+  signer: Signer;
+  fee?: string;
+}
+
+// A BNS name and the address that owns it. Reverse lookups of an address
+// without a name leave name unset.
+export interface BnsNameInfo {
+  name?: string;
+  address: string;
+}
+
+// Replace a pending transaction with one at the same nonce
+export interface ReplaceTransactionParams {
+  signer: Signer;
+  txId: string;
+  fee?: string; // must be higher than the original fee; defaults to 25% more
+}
+
+// How the agent's direct methods pick who signs: a ready signer, a raw key,
+// or a named account. With none of these the "default" account is used.
+export interface SignerSelection {
+  signer?: Signer;
+  fromPrivateKey?: string;
+  account?: string;
+}
+
 export interface QueryParams {
   address: string;
   includeTransactions?: boolean;
@@ -37,13 +193,49 @@ export interface StacksNetworkConfig {
   broadcastApiUrl?: string;
 }
 
+export interface LLMProviderConfig {
+  type: "openai" | "anthropic" | "openai-compatible";
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string; // required for "openai-compatible" (e.g. http://localhost:11434/v1 for Ollama)
+  temperature?: number;
+}
+
 export interface AgentConfig {
-  privateKey?: string;
+  privateKey?: string; // registered as the "default" account
+  accounts?: Record<string, string>; // additional named accounts: name -> private key
+  signers?: Record<string, Signer>; // named accounts backed by a keystore, remote service, etc.
+  keystore?: KeystoreConfig; // encrypted persistent accounts; can supply the "default" account
   network: StacksNetworkConfig;
+  // Either a ready provider instance or a config to build one. When omitted,
+  // openAiApiKey / anthropicApiKey select the provider as before.
+  llm?: LLMProvider | LLMProviderConfig;
   model?: string;
   openAiApiKey?: string;
   anthropicApiKey?: string;
   defaultFee?: string;
+  spendingPolicy?: SpendingPolicyConfig;
+  fees?: FeeEstimatorConfig;
+  dexAdapters?: DexAdapter[]; // replaces the built-in ALEX, Velar and Bitflow adapters
+  callSimulator?: CallSimulator; // runs contract calls for post-condition inference
+}
+
+export type FeePriority = "low" | "medium" | "high";
+
+// Fee tiers in microSTX, after the estimator's multiplier and caps
+export interface FeeEstimate {
+  low: bigint;
+  medium: bigint;
+  high: bigint;
+  source: "transaction" | "transfer"; // payload estimate, or the per-byte transfer rate fallback
+}
+
+// Amounts are in STX (e.g. "0.01")
+export interface FeeEstimatorConfig {
+  multiplier?: number; // applied to every tier (default 1)
+  minFee?: string;
+  maxFee?: string;
+  priority?: FeePriority; // tier used for transactions without an explicit fee (default "medium")
 }
 
 export interface ToolResult<T = any> {
@@ -51,6 +243,46 @@ export interface ToolResult<T = any> {
   data?: T;
   error?: string;
   transactionId?: string;
+  policyViolation?: PolicyViolation; // set when the spending policy blocked the action
+}
+
+// Spending policy types. Amounts and fees are in STX (e.g. "1.5").
+export interface SpendingPolicyConfig {
+  maxPerTransaction?: string;
+  dailyLimit?: string; // rolling 24 hour window
+  allowedRecipients?: string[]; // when set, only these recipients can receive STX
+  deniedRecipients?: string[];
+  allowedContractCalls?: string[]; // "contractAddress.contractName::functionName", "::*" matches any function
+  maxFee?: string;
+  mainnetKillSwitch?: boolean; // when true, signing tools refuse to broadcast on mainnet
+}
+
+export type PolicyViolationCode =
+  | "MAINNET_DISABLED"
+  | "RECIPIENT_DENIED"
+  | "RECIPIENT_NOT_ALLOWED"
+  | "CONTRACT_NOT_ALLOWED"
+  | "FEE_LIMIT_EXCEEDED"
+  | "FEE_UNKNOWN"
+  | "AMOUNT_UNBOUNDED"
+  | "TRANSACTION_LIMIT_EXCEEDED"
+  | "DAILY_LIMIT_EXCEEDED";
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  message: string;
+  limit?: string;
+  attempted?: string;
+}
+
+// What a signing tool is about to do, as seen by the spending policy
+export interface PolicyAction {
+  tool: string;
+  amount?: string; // STX leaving the wallet
+  amountUnbounded?: boolean; // STX may leave the wallet and nothing caps how much
+  recipient?: string;
+  contract?: string; // "contractAddress.contractName::functionName"
+  fee?: string;
 }
 
 export interface PrivateKeyInfo {
@@ -60,45 +292,135 @@ export interface PrivateKeyInfo {
   network: "mainnet" | "testnet";
 }
 
+// Public view of a named agent account; never includes the private key
+export interface AccountInfo {
+  name: string;
+  address: string;
+  publicKey: string;
+  network: "mainnet" | "testnet";
+}
+
+// Nonce state of an address as seen by the agent's NonceManager
+export interface NonceInfo {
+  address: string;
+  nextNonce: number; // nonce the next signing tool will use
+  possibleNextNonce: number; // as reported by the API
+  lastExecutedNonce?: number;
+  lastMempoolNonce?: number;
+  missingNonces: number[]; // gaps below queued mempool transactions
+  reservedNonces: number[]; // handed to a tool, not broadcast yet
+  pendingNonces: number[]; // broadcast by this agent, not yet seen by the API
+}
+
+// Public details of an account in the encrypted keystore
+export interface KeystoreAccount {
+  id: string;
+  label: string;
+  address: string;
+  publicKey: string;
+  createdAt: string;
+  updatedAt: string;
+  locked: boolean;
+}
+
+// Load the agent's signing account from the keystore instead of a raw key
+export interface KeystoreConfig {
+  path?: string; // directory for the file storage (default: ~/.stacks-agent-kit/keystore)
+  storage?: KeystoreStorage; // custom storage backend, used instead of path
+  account?: string; // label of the account to unlock as the "default" account
+  password?: string; // keystore password, also used by the keystore tools
+}
+
+// Account derived from an HD wallet at m/44'/5757'/0'/0/<index>
+export interface HDAccountInfo extends AccountInfo {
+  wallet: string;
+  index: number;
+  path: string;
+}
+
 export interface KeyInitializationParams {
   privateKey?: string; // Optional: if not provided, will generate a new one
   network: "mainnet" | "testnet";
 }
 
-export interface SwapParams {
-  fromPrivateKey: string;
-  amount: string;
+// Tokens are "STX" or SIP-010 contract ids; amounts are in whole tokens
+export interface SwapQuoteParams {
+  tokenIn?: string; // default "STX"
+  tokenOut: string;
+  amount: string; // of tokenIn
   slippageTolerance?: number; // in percentage, default 0.5%
+  dex?: string; // only quote this DEX ("alex", "velar", "bitflow")
+  minimumOutput?: string; // in whole tokenOut; replaces the slippage tolerance
+}
+
+export interface SwapParams extends SwapQuoteParams {
+  signer: Signer;
   fee?: string; // optional fee override
 }
 
 export interface SwapQuote {
-  expectedOutput: string;
-  minimumOutput: string;
-  fee: string;
-  priceImpact: string; // in percentage
+  dex: string; // the DEX with the best output
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  expectedOutput: string; // in tokenOut
+  minimumOutput: string; // expected output less the slippage tolerance
+  fee?: string; // liquidity provider fee in tokenIn, when the DEX reports it
+  priceImpact?: string; // in percentage, when the DEX reports it
   route: string[];
+  contract: string; // "address.contract-name::function" the swap calls
+  alternatives: { dex: string; expectedOutput: string }[]; // other DEXes, best first
+}
+
+// A swap built exactly as swap would broadcast it, but neither signed nor
+// sent. The nonce is not reserved, so it only holds until the account's next
+// transaction.
+export interface SwapDryRun {
+  quote: SwapQuote;
+  unsignedTransactionHex: string;
+  nonce: number;
+  fee: string; // in STX
+  postConditions: string[];
 }
 
 // Contract deployment types
 export interface ContractDeployParams {
-  fromPrivateKey: string;
+  signer: Signer;
   contractName: string;
   codeBody: string;
   fee?: string;
   nonce?: number;
 }
 
+// An asset leaving a principal in a simulated call. Amounts are base units
+// (microSTX for STX); NFT ids are hex-serialized Clarity values.
+export interface SimulatedTransfer {
+  asset: "stx" | "ft" | "nft";
+  sender: string;
+  recipient?: string; // undefined for burns
+  amount?: string; // STX and FT
+  assetIdentifier?: string; // FT and NFT: "address.contract-name::asset-name"
+  assetId?: string; // NFT
+}
+
+export interface CallSimulation {
+  success: boolean; // false when the call returns err
+  result: string; // the call's result in Clarity notation
+  transfers: SimulatedTransfer[];
+}
+
 // Contract call types
 export interface ContractCallParams {
-  fromPrivateKey: string;
+  signer: Signer;
   contractAddress: string;
   contractName: string;
   functionName: string;
-  functionArgs: any[]; // ClarityValue[]
+  functionArgs: any[] | Record<string, any>; // ClarityValues, or JSON encoded with the function's ABI
   fee?: string;
   nonce?: number;
-  postConditions?: any[]; // PostConditionSpec[]
+  postConditions?: PostConditionSpec[];
+  postConditionMode?: "allow" | "deny"; // default: deny when post-conditions are given
+  inferPostConditions?: boolean; // simulate first and derive deny-mode post-conditions
   validateWithAbi?: boolean;
 }
 
@@ -107,10 +429,49 @@ export interface ReadOnlyCallParams {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  functionArgs: any[]; // ClarityValue[]
+  functionArgs: any[] | Record<string, any>; // ClarityValues, or JSON encoded with the function's ABI
   senderAddress?: string;
 }
 
+// Contract event types
+export type ContractEventType = "print" | "stx" | "ft" | "nft" | "stx_lock";
+
+// An Extended API contract event with its Clarity payloads decoded
+export interface ContractEvent {
+  txId: string;
+  eventIndex: number;
+  type: ContractEventType;
+  contractId?: string; // print: the contract that printed
+  topic?: string; // print: the payload's topic, event or action field, or the payload itself when a string
+  value?: ClarityJSON; // print: the payload; nft: the token id
+  repr?: string; // value in Clarity notation
+  action?: "transfer" | "mint" | "burn"; // asset events
+  asset?: string; // "STX" or "address.contract-name::asset-name"
+  sender?: string;
+  recipient?: string;
+  amount?: string; // base units (microSTX for STX and stx_lock)
+  unlockHeight?: number; // stx_lock
+}
+
+export interface ContractEventFilter {
+  eventType?: ContractEventType | ContractEventType[];
+  asset?: string; // "STX" or "address.contract-name::asset-name"
+  topic?: string;
+}
+
+export interface ContractEventsParams extends ContractEventFilter {
+  contractId: string;
+  limit?: number; // matching events per page (default 20, max 50)
+  cursor?: string; // nextCursor of the previous page
+}
+
+// Newest events first. A page can hold fewer than limit events when the
+// filter is selective; continue until there is no nextCursor.
+export interface ContractEventPage {
+  events: ContractEvent[];
+  nextCursor?: string;
+}
+
 // Key management types
 export interface KeyGenerationParams {
   network: "mainnet" | "testnet";
@@ -145,14 +506,14 @@ export interface MultiSigContractCallParams {
 
 // Sponsored transaction types
 export interface SponsoredSTXTransferParams {
-  originPrivateKey: string;
+  originSigner: Signer;
   recipient: string;
   amount: string;
   memo?: string;
 }
 
 export interface SponsoredContractCallParams {
-  originPrivateKey: string;
+  originSigner: Signer;
   contractAddress: string;
   contractName: string;
   functionName: string;
@@ -163,7 +524,7 @@ export interface SponsoredContractCallParams {
 
 export interface SponsorTransactionParams {
   transactionHex: string;
-  sponsorPrivateKey: string;
+  sponsorSigner: Signer;
   fee: string;
   sponsorNonce?: number;
 }
@@ -1,10 +1,11 @@
 import {
   privateKeyToHex,
   privateKeyToPublic,
-  publicKeyToAddress,
-  AddressVersion,
+  publicKeyToHex,
+  getAddressFromPrivateKey,
   makeRandomPrivKey,
 } from '@stacks/transactions';
+import { StacksNetwork, ChainId } from '@stacks/network';
 import { PrivateKeyInfo, KeyInitializationParams } from '../types/index';
 
 // Utility functions for Stacks operations
@@ -20,11 +21,36 @@ export const StacksUtils = {
     const paddedDecimal = decimal.padEnd(6, '0').slice(0, 6);
     return `${whole}${paddedDecimal}`;
   },
+
+  // An STX amount in microSTX. The type carries the unit: strings and numbers
+  // are STX ("5" and "5.0" are both 5 STX), bigints are already microSTX.
+  toMicroSTX: (amount: string | number | bigint): bigint => {
+    if (typeof amount === 'bigint') {
+      if (amount < BigInt(0)) {
+        throw new Error('Amounts cannot be negative');
+      }
+      return amount;
+    }
+    const stx = typeof amount === 'number' ? String(amount) : amount.trim();
+    if (!/^\d+(\.\d{1,6})?$/.test(stx)) {
+      throw new Error(`Invalid STX amount '${amount}', expected up to 6 decimal places (e.g. "1.5")`);
+    }
+    return BigInt(StacksUtils.parseSTX(stx));
+  },
   
   isValidAddress: (address: string): boolean => {
     return /^[SM][0-9A-Z]{40}$/.test(address);
   },
 
+  // "address.contract-name" -> [address, contract name]
+  parseContractId: (contractId: string): [string, string] => {
+    const [contractAddress, contractName, ...rest] = contractId.split('.');
+    if (!contractAddress || !contractName || rest.length) {
+      throw new Error(`Invalid contract id '${contractId}', expected "address.contract-name"`);
+    }
+    return [contractAddress, contractName];
+  },
+
   // Private key utilities
   generatePrivateKey: (): string => {
     const privKey = makeRandomPrivKey();
@@ -33,8 +59,8 @@ export const StacksUtils = {
 
   validatePrivateKey: (privateKey: string): boolean => {
     try {
-      // Check if it's a valid hex string
-      if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+      // Check if it's a valid hex string (optionally with the '01' compression suffix)
+      if (!/^[0-9a-fA-F]{64}(01)?$/.test(privateKey)) {
         return false;
       }
       
@@ -47,19 +73,39 @@ export const StacksUtils = {
     }
   },
 
-  deriveAddressFromPrivateKey: (privateKey: string, network: 'mainnet' | 'testnet'): string => {
+  getNetworkName: (network: StacksNetwork): 'mainnet' | 'testnet' => {
+    return network.chainId === ChainId.Mainnet ? 'mainnet' : 'testnet';
+  },
+
+  deriveAddressFromPrivateKey: (privateKey: string, network: 'mainnet' | 'testnet' | StacksNetwork): string => {
     try {
-      const privKeyBuffer = Buffer.from(privateKey, 'hex');
-      const pubKey = privateKeyToPublic(privKeyBuffer);
-      const addressVersion = network === 'mainnet' 
-        ? AddressVersion.MainnetSingleSig 
-        : AddressVersion.TestnetSingleSig;
-      return publicKeyToAddress(addressVersion, pubKey);
+      // Derive from the same key bytes the transaction builders sign with, so a
+      // compressed ('01'-suffixed) key maps to the compressed-pubkey address
+      return getAddressFromPrivateKey(privateKey, network);
     } catch (error) {
       throw new Error(`Failed to derive address from private key: ${error}`);
     }
   },
 
+  // Resolve the account a signing tool acts for. Every tool that signs goes
+  // through here so the nonce lookup, balance check and signed transaction all
+  // refer to the same address on the configured network.
+  resolveSigner: (privateKey: string, network: StacksNetwork): PrivateKeyInfo => {
+    if (!privateKey) {
+      throw new Error('No private key provided');
+    }
+    if (!StacksUtils.validatePrivateKey(privateKey)) {
+      throw new Error('Invalid private key format');
+    }
+
+    return {
+      privateKey,
+      publicKey: publicKeyToHex(privateKeyToPublic(privateKey)),
+      address: StacksUtils.deriveAddressFromPrivateKey(privateKey, network),
+      network: StacksUtils.getNetworkName(network),
+    };
+  },
+
   initializePrivateKey: (params: KeyInitializationParams): PrivateKeyInfo => {
     const { privateKey, network } = params;
     
@@ -74,8 +120,7 @@ export const StacksUtils = {
       finalPrivateKey = StacksUtils.generatePrivateKey();
     }
 
-    const privKeyBuffer = Buffer.from(finalPrivateKey, 'hex');
-    const publicKey = privateKeyToHex(privateKeyToPublic(privKeyBuffer));
+    const publicKey = publicKeyToHex(privateKeyToPublic(finalPrivateKey));
     const address = StacksUtils.deriveAddressFromPrivateKey(finalPrivateKey, network);
 
     return {